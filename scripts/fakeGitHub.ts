@@ -0,0 +1,74 @@
+/**
+ * fakeGitHub.ts — Start the in-memory GitHub API stand-in.
+ *
+ * Usage:
+ *   npx ts-node scripts/fakeGitHub.ts          # serve until Ctrl-C
+ *   npx ts-node scripts/fakeGitHub.ts --run [run flags]   # one offline run
+ *
+ * In serve mode, point the orchestrator at the printed URL:
+ *   GITHUB_API_URL=http://127.0.0.1:<port> npm run dev
+ *
+ * With --run, `orchestrator run` is executed in-process against the fake
+ * with no network access; any token value is accepted.  Flags after
+ * --run are passed to the run command (e.g. --max-issues 3).
+ *
+ * With WEBHOOK_PORT and WEBHOOK_SECRET set, the fake also sends signed
+ * webhook deliveries to the orchestrator's receiver, each after
+ * FAKE_WEBHOOK_DELAY_MS (default 0).
+ */
+
+import * as dotenv from "dotenv";
+import * as path from "path";
+
+// Load env before importing config (config validates at import time).
+dotenv.config({ path: path.resolve(__dirname, "..", ".env") });
+
+import { startFakeGitHub } from "../src/fakeGitHubServer";
+
+async function serve(): Promise<void> {
+  const owner = process.env.GITHUB_OWNER || "octo-org";
+  const repo = process.env.GITHUB_REPO || "sandbox";
+  const port = parseInt(process.env.FAKE_GITHUB_PORT ?? "0", 10) || 0;
+
+  const webhookPort = parseInt(process.env.WEBHOOK_PORT ?? "0", 10) || 0;
+  const secret = process.env.WEBHOOK_SECRET ?? "";
+  const webhook =
+    webhookPort && secret
+      ? {
+          url:
+            `http://${process.env.WEBHOOK_HOST || "127.0.0.1"}:${webhookPort}` +
+            (process.env.WEBHOOK_PATH || "/webhook"),
+          secret,
+          delayMs: parseInt(process.env.FAKE_WEBHOOK_DELAY_MS ?? "0", 10) || 0,
+        }
+      : undefined;
+
+  const server = await startFakeGitHub({ owner, repo, port, webhook });
+  console.log(`Fake GitHub API for ${owner}/${repo} listening on ${server.url}`);
+  if (webhook) console.log(`Sending webhook deliveries to ${webhook.url}`);
+
+  if (!process.argv.includes("--run")) {
+    console.log(`Run the orchestrator with GITHUB_API_URL=${server.url}`);
+    return; // Keep serving until interrupted.
+  }
+
+  process.env.GITHUB_API_URL = server.url;
+  process.env.GITHUB_OWNER = owner;
+  process.env.GITHUB_REPO = repo;
+  process.env.GITHUB_TOKEN ||= "fake-token";
+
+  // Imported lazily so config picks up the environment set above.
+  const { runCli } = await import("../src/cli");
+  const args = process.argv.slice(process.argv.indexOf("--run") + 1);
+  const code = await runCli(["run", ...args]);
+  await server.close();
+
+  console.log(`Fake GitHub served ${server.state.requests.length} requests.`);
+  if (webhook) console.log(`Fake GitHub sent ${server.state.deliveries.length} webhook deliveries.`);
+  process.exit(code);
+}
+
+serve().catch((err) => {
+  console.error("Fake GitHub failed:", err);
+  process.exit(1);
+});
@@ -4,27 +4,108 @@
  * Every interesting event (issue opened, PR merged, comment posted, etc.)
  * is fed into this module.  The analytics engine:
  *
- *   1. Accumulates metrics in memory.
- *   2. Persists them to a JSON file on disk after each run.
+ *   1. Appends each one to the run's typed event stream
+ *      (analyticsEvents.ts) in memory.
+ *   2. Flushes the stream to the configured store as events happen
+ *      (JSON, NDJSON or SQLite under an advisory lock; see
+ *      analyticsStore.ts).
  *   3. Prints a console summary.
  *   4. Generates Markdown output suitable for appending to a file
  *      (e.g. analytics.md or the repo README).
  *
- * Persistence format: a single JSON file whose schema is the
- * `AnalyticsData` interface exported below.
+ * Run records and aggregate stats are projections of the stream, so new
+ * metrics apply retroactively to old runs.  Reports cover the runs in
+ * REPORT_WINDOW and summarise every duration series as a distribution
+ * (percentiles, spread, histogram; see stats.ts).
+ *
+ * Persisted data follows the `AnalyticsData` schema exported below in
+ * every backend.  Stores are validated and migrated from older versions
+ * on load (analyticsSchema.ts); an invalid store is quarantined rather
+ * than overwritten.
  */
 
 import * as fs from "fs";
 import * as path from "path";
-import { config } from "./config";
+import { randomBytes } from "crypto";
+import { config, ReportWindow, RetryReason } from "./config";
+import {
+  AnalyticsEvent,
+  EventOutcome,
+  EventPayload,
+  WebhookCause,
+  isPassingConclusion,
+  projectRuns,
+} from "./analyticsEvents";
+import { ANALYTICS_SCHEMA_VERSION } from "./analyticsSchema";
+import {
+  AnalyticsStore,
+  openAnalyticsStore,
+  prepareAnalyticsBackends,
+} from "./analyticsStore";
+import {
+  DistributionStats,
+  HistogramBucket,
+  describeDistribution,
+  describeWindow,
+} from "./stats";
+import { setLogContext } from "./logger";
 import { log } from "./utils";
 
 // ---------------------------------------------------------------------------
 // Schema
 // ---------------------------------------------------------------------------
 
-/** A single orchestrated run's record. */
+/** An API call that needed one or more retries to settle. */
+export interface RetriedCall {
+  /** Operation label passed to withRateLimit (e.g. "create-issue"). */
+  label: string;
+  /** Number of retries (attempts beyond the first). */
+  retries: number;
+  /** Why each retry happened, in order. */
+  reasons: RetryReason[];
+}
+
+/** API requests to one REST route, as counted by the request hook. */
+export interface ApiRouteRecord {
+  /** Method and route template, e.g. "GET /repos/{owner}/{repo}/labels/{name}". */
+  route: string;
+  requests: number;
+  /** Requests answered with a 4xx/5xx, or not answered at all. */
+  errors: number;
+  /** Requests that withRateLimit() retried. */
+  retries: number;
+  /** Duration of each request, in order. */
+  latenciesMs: number[];
+}
+
+/** A CI check observed on a PR's head commit (see checkTracker.ts). */
+export interface CheckRecord {
+  /** Check run name or commit status context. */
+  name: string;
+  source: "check-run" | "status";
+  /** Null if the check was still running when waiting stopped. */
+  conclusion: string | null;
+  /** Start to completion; null unless both are known. */
+  durationMs: number | null;
+}
+
+/** A webhook delivery received during a run (see webhookReceiver.ts). */
+export interface WebhookRecord {
+  /** Event and action, e.g. "pull_request.opened". */
+  event: string;
+  /** Recorded event the delivery was matched to, if any. */
+  cause: WebhookCause | null;
+  /** Cause recorded → delivery received; null when unmatched. */
+  latencyMs: number | null;
+}
+
+/**
+ * A single orchestrated run's record — a projection of the run's events
+ * (see analyticsEvents.ts), no longer stored directly.
+ */
 export interface RunRecord {
+  /** Unique run ID (absent in records from older versions). */
+  runId?: string;
   /** ISO-8601 start time. */
   startedAt: string;
   /** ISO-8601 end time. */
@@ -47,32 +128,53 @@ export interface RunRecord {
   issueToFirstCommentMs: number[];
   /** Milliseconds from PR open to merge. */
   prOpenToMergeMs: number[];
+  /** Milliseconds from PR open to its first CI check appearing. */
+  prToFirstCheckMs: number[];
+  /** Milliseconds from PR open to all its CI checks completing. */
+  prToChecksCompleteMs: number[];
+  /** CI checks observed on the run's PRs. */
+  checks: CheckRecord[];
+  /** Webhook deliveries received while the run was going. */
+  webhookDeliveries: WebhookRecord[];
+  /** API calls that were retried (absent in records from older versions). */
+  retriedCalls?: RetriedCall[];
+  /** API requests per REST route; empty for runs before version 6. */
+  apiRoutes: ApiRouteRecord[];
+  /** Lowest core rate-limit quota observed during the run, if any. */
+  minRateLimitRemaining?: number | null;
+  /**
+   * Set when the run has no "run-finished" event: it is still going, or
+   * the process died mid-run and the counts cover what was flushed.
+   */
+  incomplete?: true;
 }
 
 /** Root analytics structure persisted to disk. */
 export interface AnalyticsData {
-  /** Monotonically incrementing version for forward compatibility. */
-  version: number;
-  /** Every run recorded to date. */
-  runs: RunRecord[];
+  /** Schema version (see analyticsSchema.ts); checked and migrated on load. */
+  version: typeof ANALYTICS_SCHEMA_VERSION;
+  /** Every event recorded to date, in order. */
+  events: AnalyticsEvent[];
 }
 
 // ---------------------------------------------------------------------------
-// In-memory accumulator for the current run
+// Current run
 // ---------------------------------------------------------------------------
 
-/** Mutable counters populated during the current orchestrator run. */
+/** The run being recorded: its ID, the event context, and its events. */
 interface RunAccumulator {
-  startedAt: string;
-  issuesCreated: number;
-  issuesClosed: number;
-  prsOpened: number;
-  prsMerged: number;
-  yoloMerges: number;
-  commentsPosted: number;
-  coAuthoredCommits: number;
-  issueToFirstCommentMs: number[];
-  prOpenToMergeMs: number[];
+  runId: string;
+  iteration: number | null;
+  workflowId: string | null;
+  events: AnalyticsEvent[];
+  /** How many of `events` are already on disk. */
+  flushed: number;
+  /** Lowest rate-limit quota reported so far; recorded when the run ends. */
+  minRateLimitRemaining: number | null;
+  /** API requests not yet recorded in an "api-usage" event, by route. */
+  apiUsage: Map<string, ApiRouteRecord>;
+  /** Route of the latest request, which a retry is counted against. */
+  lastRoute: string | null;
 }
 
 let current: RunAccumulator | null = null;
@@ -81,44 +183,78 @@ let current: RunAccumulator | null = null;
 // Lifecycle
 // ---------------------------------------------------------------------------
 
-/** Begin tracking a new run.  Must be called before any record* functions. */
-export function startRun(): void {
+/**
+ * Begin tracking a new run.  Must be called before any record* functions.
+ * Returns the run ID, which also tags the run's journal entries.
+ */
+export function startRun(): string {
+  const startedAt = new Date().toISOString();
   current = {
-    startedAt: new Date().toISOString(),
-    issuesCreated: 0,
-    issuesClosed: 0,
-    prsOpened: 0,
-    prsMerged: 0,
-    yoloMerges: 0,
-    commentsPosted: 0,
-    coAuthoredCommits: 0,
-    issueToFirstCommentMs: [],
-    prOpenToMergeMs: [],
+    runId: `${startedAt.replace(/[-:]|\.\d+/g, "")}-${randomBytes(3).toString("hex")}`,
+    iteration: null,
+    workflowId: null,
+    events: [],
+    flushed: 0,
+    minRateLimitRemaining: null,
+    apiUsage: new Map(),
+    lastRoute: null,
   };
-  log.debug("Analytics run started.");
+  setLogContext({ runId: current.runId, iteration: null, workflowId: null, step: null });
+  recordEvent({ type: "run-started" });
+  log.debug(`Analytics run ${current.runId} started.`);
+  return current.runId;
 }
 
-/** Finalise the current run, persist, and return the record. */
+/** Finalise the current run, persist its events, and return its record. */
 export function endRun(): RunRecord {
-  if (!current) throw new Error("endRun called before startRun");
-
-  const record: RunRecord = {
-    ...current,
-    finishedAt: new Date().toISOString(),
-  };
+  const acc = ensureRunning();
+  acc.iteration = null;
+  acc.workflowId = null;
+  recordApiUsage(acc);
+  if (acc.minRateLimitRemaining !== null) {
+    recordEvent({ type: "rate-limit-observed", remaining: acc.minRateLimitRemaining });
+  }
+  recordEvent({ type: "run-finished" });
 
-  // Persist to disk.
-  const allData = loadPersistedData();
-  allData.runs.push(record);
-  savePersistedData(allData);
+  // Events are flushed as they are recorded; this only retries any the
+  // last flush could not write, and fails loudly if that fails again.
+  if (acc.flushed < acc.events.length) flushEvents(acc);
 
-  log.debug("Analytics run ended and persisted.");
+  log.info(`Analytics persisted to ${config.analyticsPath} (${acc.events.length} events this run).`);
   current = null;
-  return record;
+  setLogContext({ runId: null, iteration: null, workflowId: null, step: null });
+  return loadRunsById([acc.runId])[0];
+}
+
+/**
+ * Attribute the following events to one workflow, either a numbered
+ * iteration of this run or (with `iteration` null) a recovered one.
+ */
+export function startIteration(iteration: number | null, workflowId: string): void {
+  const acc = ensureRunning();
+  acc.iteration = iteration;
+  acc.workflowId = workflowId;
+  setLogContext({ iteration, workflowId, step: null });
+  recordEvent({ type: "iteration-started" });
+}
+
+/** Close the workflow opened by startIteration(), recording how it went. */
+export function finishIteration(outcome: EventOutcome, error?: unknown): void {
+  const acc = ensureRunning();
+  recordApiUsage(acc);
+  recordEvent(
+    error === undefined
+      ? { type: "iteration-finished" }
+      : { type: "iteration-finished", error: error instanceof Error ? error.message : String(error) },
+    outcome
+  );
+  acc.iteration = null;
+  acc.workflowId = null;
+  setLogContext({ iteration: null, workflowId: null, step: null });
 }
 
 // ---------------------------------------------------------------------------
-// Recording helpers (called by the orchestrator during a run)
+// Recording (called by the orchestrator during a run)
 // ---------------------------------------------------------------------------
 
 function ensureRunning(): RunAccumulator {
@@ -126,102 +262,218 @@ function ensureRunning(): RunAccumulator {
   return current;
 }
 
-export function recordIssueCreated(): void {
-  ensureRunning().issuesCreated++;
+/**
+ * Append an event to the current run's stream and flush it to disk, so
+ * a process killed mid-run still leaves a partial (incomplete) run.
+ */
+export function recordEvent(payload: EventPayload, outcome: EventOutcome = "success"): AnalyticsEvent {
+  const acc = ensureRunning();
+  const event: AnalyticsEvent = {
+    seq: acc.events.length,
+    runId: acc.runId,
+    iteration: acc.iteration,
+    workflowId: acc.workflowId,
+    at: new Date().toISOString(),
+    outcome,
+    ...payload,
+  };
+  acc.events.push(event);
+  try {
+    flushEvents(acc);
+  } catch (err) {
+    log.warn("Could not flush analytics events; will retry with the next one:", err);
+  }
+  return event;
 }
 
-export function recordIssueClosed(): void {
-  ensureRunning().issuesClosed++;
+/** Write the run's not-yet-persisted events to the store. */
+function flushEvents(acc: RunAccumulator): void {
+  getAnalyticsStore().append(acc.events.slice(acc.flushed));
+  acc.flushed = acc.events.length;
 }
 
-export function recordPROpened(): void {
-  ensureRunning().prsOpened++;
+/**
+ * Record an API call that was retried.  Unlike recordEvent this is a
+ * no-op outside a run, because the API client is also used by one-off
+ * commands such as seed.
+ */
+export function recordApiRetries(label: string, reasons: RetryReason[]): void {
+  if (!current) return;
+  recordEvent({ type: "api-retried", label, retries: reasons.length, reasons: [...reasons] });
 }
 
-export function recordPRMerged(yolo: boolean): void {
-  const acc = ensureRunning();
-  acc.prsMerged++;
-  if (yolo) acc.yoloMerges++;
+/**
+ * Count one API request to `route` (see routeKey()) that took
+ * `durationMs`; `status` is null when no response arrived.  Requests are
+ * tallied per route and recorded as an "api-usage" event when the
+ * iteration finishes or the run ends.  No-op outside a run.
+ */
+export function recordApiRequest(route: string, status: number | null, durationMs: number): void {
+  if (!current) return;
+  let usage = current.apiUsage.get(route);
+  if (!usage) {
+    usage = { route, requests: 0, errors: 0, retries: 0, latenciesMs: [] };
+    current.apiUsage.set(route, usage);
+  }
+  usage.requests++;
+  if (status === null || status >= 400) usage.errors++;
+  usage.latenciesMs.push(Math.round(durationMs));
+  current.lastRoute = route;
 }
 
-export function recordCommentPosted(): void {
-  ensureRunning().commentsPosted++;
+/**
+ * Count a retry against the route of the latest request — the one that
+ * just failed, since requests are made one at a time.  No-op outside a
+ * run.
+ */
+export function recordApiRequestRetry(): void {
+  const usage = current?.lastRoute ? current.apiUsage.get(current.lastRoute) : undefined;
+  if (usage) usage.retries++;
 }
 
-export function recordCoAuthoredCommit(): void {
-  ensureRunning().coAuthoredCommits++;
+/** Record the requests tallied since the last "api-usage" event, if any. */
+function recordApiUsage(acc: RunAccumulator): void {
+  if (acc.apiUsage.size === 0) return;
+  const routes = [...acc.apiUsage.values()];
+  acc.apiUsage = new Map();
+  acc.lastRoute = null;
+  recordEvent({ type: "api-usage", routes });
 }
 
 /**
- * Record the latency between issue creation and first comment.
- * @param issueCreatedAt - ISO string from the GitHub API response.
- * @param commentCreatedAt - ISO string from the comment response.
+ * The current run's events so far, e.g. for matching webhook deliveries
+ * to the actions that caused them.  Empty outside a run.
  */
-export function recordIssueToComment(
-  issueCreatedAt: string,
-  commentCreatedAt: string
-): void {
-  const ms =
-    new Date(commentCreatedAt).getTime() -
-    new Date(issueCreatedAt).getTime();
-  ensureRunning().issueToFirstCommentMs.push(Math.max(ms, 0));
+export function currentRunEvents(): readonly AnalyticsEvent[] {
+  return current?.events ?? [];
 }
 
 /**
- * Record the latency between PR open and merge.
- * @param prCreatedAt - ISO string from the PR creation response.
- * @param mergedAt    - ISO string from the merge response.
+ * Track the lowest core rate-limit quota seen; endRun() records it as a
+ * single event rather than one per response.  No-op outside a run.
  */
-export function recordPRToMerge(
-  prCreatedAt: string,
-  mergedAt: string
-): void {
-  const ms =
-    new Date(mergedAt).getTime() - new Date(prCreatedAt).getTime();
-  ensureRunning().prOpenToMergeMs.push(Math.max(ms, 0));
+export function recordRateLimitRemaining(remaining: number): void {
+  if (!current) return;
+  if (current.minRateLimitRemaining === null || remaining < current.minRateLimitRemaining) {
+    current.minRateLimitRemaining = remaining;
+  }
 }
 
 // ---------------------------------------------------------------------------
-// Persistence (JSON file)
+// Persistence (see analyticsStore.ts)
 // ---------------------------------------------------------------------------
 
-function emptyData(): AnalyticsData {
-  return { version: 1, runs: [] };
+let store: AnalyticsStore | null = null;
+
+/**
+ * Load the configured backend.  Call once before anything reads or
+ * writes analytics (the SQLite backend initialises asynchronously).
+ */
+export async function prepareAnalytics(): Promise<void> {
+  await prepareAnalyticsBackends(config.analyticsBackend);
 }
 
-function loadPersistedData(): AnalyticsData {
-  const filePath = config.analyticsPath;
-  try {
-    if (fs.existsSync(filePath)) {
-      const raw = fs.readFileSync(filePath, "utf-8");
-      const parsed = JSON.parse(raw) as AnalyticsData;
-      if (parsed.version && Array.isArray(parsed.runs)) return parsed;
-    }
-  } catch (err) {
-    log.warn(`Could not read analytics file at ${filePath}:`, err);
-  }
-  return emptyData();
+/** The configured analytics store (ANALYTICS_BACKEND at ANALYTICS_PATH). */
+export function getAnalyticsStore(): AnalyticsStore {
+  store ??= openAnalyticsStore(config.analyticsBackend, config.analyticsPath);
+  return store;
 }
 
-function savePersistedData(data: AnalyticsData): void {
-  const filePath = config.analyticsPath;
-  const dir = path.dirname(filePath);
+/** Every persisted event, oldest first. */
+export function loadEvents(): AnalyticsEvent[] {
+  return getAnalyticsStore().readEvents();
+}
 
-  if (!fs.existsSync(dir)) {
-    fs.mkdirSync(dir, { recursive: true });
-  }
+/** Every persisted run, projected from the event stream. */
+export function loadRuns(): RunRecord[] {
+  return projectRuns(loadEvents());
+}
+
+/** The runs in a report window, in start order. */
+export function loadWindowRuns(window: ReportWindow, now: Date): RunRecord[] {
+  if (window.kind === "all") return loadRuns();
+  return loadRunsById(getAnalyticsStore().listRuns(window, now).map((r) => r.runId));
+}
 
-  fs.writeFileSync(filePath, JSON.stringify(data, null, 2), "utf-8");
-  log.info(`Analytics persisted to ${filePath}`);
+/**
+ * Project the given runs from their own events plus the issue and PR
+ * openings of other runs, so a workflow resumed by one of them still
+ * pairs its comment and merge latencies.
+ */
+export function loadRunsById(runIds: string[]): RunRecord[] {
+  const store = getAnalyticsStore();
+  const wanted = new Set(runIds);
+  const openings = store
+    .readEvents({ types: ["issue-created", "pr-opened"] })
+    .filter((e) => !wanted.has(e.runId));
+  return projectRuns([...openings, ...store.readEvents({ runIds })]).filter((r) => wanted.has(r.runId!));
 }
 
 // ---------------------------------------------------------------------------
 // Reporting
 // ---------------------------------------------------------------------------
 
-/** Aggregate statistics across all historical runs. */
+/** A duration series and the distribution of its values. */
+export interface DurationSeriesStats {
+  key: "issueToFirstComment" | "prOpenToMerge" | "prToFirstCheck" | "prToChecksComplete";
+  label: string;
+  stats: DistributionStats;
+}
+
+/** Duration series summarised in reports, in display order. */
+export const DURATION_SERIES: {
+  key: DurationSeriesStats["key"];
+  label: string;
+  values: (run: RunRecord) => number[];
+}[] = [
+  { key: "issueToFirstComment", label: "Issue → first comment", values: (r) => r.issueToFirstCommentMs },
+  { key: "prOpenToMerge", label: "PR open → merge", values: (r) => r.prOpenToMergeMs },
+  { key: "prToFirstCheck", label: "PR open → first check", values: (r) => r.prToFirstCheckMs },
+  { key: "prToChecksComplete", label: "PR open → checks complete", values: (r) => r.prToChecksCompleteMs },
+];
+
+/** Outcomes and durations of one CI check across the window's runs. */
+export interface CheckStats {
+  name: string;
+  /** Times the check was observed. */
+  count: number;
+  /** Observations that completed without a passing conclusion. */
+  failed: number;
+  /** Observations still running when waiting stopped. */
+  pending: number;
+  durations: DistributionStats;
+}
+
+/** Webhook deliveries of one event type across the window's runs. */
+export interface WebhookStats {
+  /** Event and action, e.g. "issues.opened". */
+  event: string;
+  count: number;
+  /** Deliveries matched to the action that caused them. */
+  matched: number;
+  /** Delivery latency of the matched ones. */
+  latency: DistributionStats;
+}
+
+/** API requests to one REST route across the window's runs. */
+export interface ApiRouteStats {
+  /** Method and route template. */
+  route: string;
+  requests: number;
+  /** Mean requests per run that recorded API usage. */
+  requestsPerRun: number;
+  errors: number;
+  retries: number;
+  latency: DistributionStats;
+}
+
+/** Aggregate statistics across the runs in a report window. */
 export interface AggregateStats {
+  /** Human-readable report window, e.g. "last 7d". */
+  window: string;
   totalRuns: number;
+  /** Runs that never finished (see RunRecord.incomplete). */
+  incompleteRuns: number;
   totalIssuesCreated: number;
   totalIssuesClosed: number;
   totalPRsOpened: number;
@@ -231,18 +483,53 @@ export interface AggregateStats {
   totalCoAuthoredCommits: number;
   avgIssueToCommentMs: number;
   avgPRToMergeMs: number;
+  /** Distribution of every duration series. */
+  durations: DurationSeriesStats[];
+  /** API calls that needed at least one retry. */
+  totalRetriedCalls: number;
+  /** Retries across all API calls. */
+  totalApiRetries: number;
+  /** CI check observations, and those that failed. */
+  totalChecks: number;
+  totalFailedChecks: number;
+  /** Per-check stats, by name. */
+  checks: CheckStats[];
+  totalWebhookDeliveries: number;
+  /** Per-event-type delivery stats, by event. */
+  webhooks: WebhookStats[];
+  /** API requests, and those that failed, across all routes. */
+  totalApiRequests: number;
+  totalApiErrors: number;
+  /** Per-route request stats, most requested first. */
+  apiRoutes: ApiRouteStats[];
 }
 
 /** Compute aggregate stats from persisted data. */
-export function getAggregateStats(): AggregateStats {
-  const data = loadPersistedData();
-  const runs = data.runs;
+export function getAggregateStats(
+  window: ReportWindow = config.reportWindow,
+  now: Date = new Date()
+): AggregateStats {
+  return aggregateRuns(loadWindowRuns(window, now), describeWindow(window));
+}
 
-  const allIssueToComment = runs.flatMap((r) => r.issueToFirstCommentMs);
-  const allPRToMerge = runs.flatMap((r) => r.prOpenToMergeMs);
+/** Aggregate statistics over `runs`; `window` describes how they were chosen. */
+export function aggregateRuns(runs: RunRecord[], window: string): AggregateStats {
+  const durations = DURATION_SERIES.map(({ key, label, values }) => ({
+    key,
+    label,
+    stats: describeDistribution(runs.flatMap(values)),
+  }));
+  const mean = (key: DurationSeriesStats["key"]) =>
+    durations.find((d) => d.key === key)?.stats.mean ?? 0;
+  const allRetried = runs.flatMap((r) => r.retriedCalls ?? []);
+  const checks = aggregateChecks(runs.flatMap((r) => r.checks));
+  const webhooks = aggregateWebhooks(runs.flatMap((r) => r.webhookDeliveries));
+  const apiRoutes = aggregateApiRoutes(runs);
 
   return {
+    window,
     totalRuns: runs.length,
+    incompleteRuns: runs.filter((r) => r.incomplete).length,
     totalIssuesCreated: sum(runs.map((r) => r.issuesCreated)),
     totalIssuesClosed: sum(runs.map((r) => r.issuesClosed)),
     totalPRsOpened: sum(runs.map((r) => r.prsOpened)),
@@ -250,18 +537,83 @@ export function getAggregateStats(): AggregateStats {
     totalYoloMerges: sum(runs.map((r) => r.yoloMerges)),
     totalComments: sum(runs.map((r) => r.commentsPosted)),
     totalCoAuthoredCommits: sum(runs.map((r) => r.coAuthoredCommits)),
-    avgIssueToCommentMs: avg(allIssueToComment),
-    avgPRToMergeMs: avg(allPRToMerge),
+    avgIssueToCommentMs: mean("issueToFirstComment"),
+    avgPRToMergeMs: mean("prOpenToMerge"),
+    durations,
+    totalRetriedCalls: allRetried.length,
+    totalApiRetries: sum(allRetried.map((c) => c.retries)),
+    totalChecks: sum(checks.map((c) => c.count)),
+    totalFailedChecks: sum(checks.map((c) => c.failed)),
+    checks,
+    totalWebhookDeliveries: sum(webhooks.map((w) => w.count)),
+    webhooks,
+    totalApiRequests: sum(apiRoutes.map((r) => r.requests)),
+    totalApiErrors: sum(apiRoutes.map((r) => r.errors)),
+    apiRoutes,
   };
 }
 
+function aggregateApiRoutes(runs: RunRecord[]): ApiRouteStats[] {
+  const measured = runs.filter((r) => r.apiRoutes.length > 0).length;
+  const byRoute = new Map<string, ApiRouteRecord[]>();
+  for (const record of runs.flatMap((r) => r.apiRoutes)) {
+    byRoute.set(record.route, [...(byRoute.get(record.route) ?? []), record]);
+  }
+  return [...byRoute]
+    .map(([route, records]) => {
+      const requests = sum(records.map((r) => r.requests));
+      return {
+        route,
+        requests,
+        requestsPerRun: requests / measured,
+        errors: sum(records.map((r) => r.errors)),
+        retries: sum(records.map((r) => r.retries)),
+        latency: describeDistribution(records.flatMap((r) => r.latenciesMs)),
+      };
+    })
+    .sort((a, b) => b.requests - a.requests || a.route.localeCompare(b.route));
+}
+
+function aggregateWebhooks(records: WebhookRecord[]): WebhookStats[] {
+  const byEvent = new Map<string, WebhookRecord[]>();
+  for (const record of records) byEvent.set(record.event, [...(byEvent.get(record.event) ?? []), record]);
+  return [...byEvent]
+    .map(([event, received]) => {
+      const latencies = received.flatMap((d) => (d.latencyMs === null ? [] : [d.latencyMs]));
+      return {
+        event,
+        count: received.length,
+        matched: latencies.length,
+        latency: describeDistribution(latencies),
+      };
+    })
+    .sort((a, b) => a.event.localeCompare(b.event));
+}
+
+function aggregateChecks(records: CheckRecord[]): CheckStats[] {
+  const byName = new Map<string, CheckRecord[]>();
+  for (const record of records) byName.set(record.name, [...(byName.get(record.name) ?? []), record]);
+  return [...byName]
+    .map(([name, observed]) => ({
+      name,
+      count: observed.length,
+      failed: observed.filter((c) => c.conclusion !== null && !isPassingConclusion(c.conclusion)).length,
+      pending: observed.filter((c) => c.conclusion === null).length,
+      durations: describeDistribution(
+        observed.flatMap((c) => (c.durationMs === null ? [] : [c.durationMs]))
+      ),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
 /** Print a human-readable summary to the console. */
 export function printConsoleSummary(): void {
   const stats = getAggregateStats();
   console.log("\n========================================");
   console.log("  GitHub Activity Orchestrator — Stats  ");
   console.log("========================================");
-  console.log(`  Total runs .............. ${stats.totalRuns}`);
+  console.log(`  Window .................. ${stats.window}`);
+  console.log(`  Total runs .............. ${formatRuns(stats)}`);
   console.log(`  Issues created .......... ${stats.totalIssuesCreated}`);
   console.log(`  Issues closed ........... ${stats.totalIssuesClosed}`);
   console.log(`  PRs opened .............. ${stats.totalPRsOpened}`);
@@ -270,11 +622,42 @@ export function printConsoleSummary(): void {
   console.log(`  Comments posted ......... ${stats.totalComments}`);
   console.log(`  Co-authored commits ..... ${stats.totalCoAuthoredCommits}`);
   console.log(
-    `  Avg issue→comment ....... ${formatMs(stats.avgIssueToCommentMs)}`
-  );
-  console.log(
-    `  Avg PR→merge ............ ${formatMs(stats.avgPRToMergeMs)}`
+    `  API retries ............. ${stats.totalApiRetries} (${stats.totalRetriedCalls} calls)`
   );
+  console.log(`  API requests ............ ${stats.totalApiRequests} (${stats.totalApiErrors} errors)`);
+  printDistributions(stats.durations);
+  if (stats.checks.length > 0) {
+    console.log("----------------------------------------");
+    console.log(`  CI checks (${stats.totalFailedChecks} of ${stats.totalChecks} failed)`);
+    for (const check of stats.checks) {
+      console.log(
+        `    ${check.name.padEnd(24)} ${formatCheckOutcomes(check)} · ` +
+          `p50 ${formatMs(check.durations.percentiles.p50)} · p90 ${formatMs(check.durations.percentiles.p90)}`
+      );
+    }
+  }
+  if (stats.webhooks.length > 0) {
+    console.log("----------------------------------------");
+    console.log(`  Webhook deliveries (${stats.totalWebhookDeliveries})`);
+    for (const hook of stats.webhooks) {
+      const latency =
+        hook.matched > 0
+          ? ` · p50 ${formatMs(hook.latency.percentiles.p50)} · p90 ${formatMs(hook.latency.percentiles.p90)}`
+          : "";
+      console.log(`    ${hook.event.padEnd(28)} ${hook.count} (${hook.matched} matched)${latency}`);
+    }
+  }
+  if (stats.apiRoutes.length > 0) {
+    console.log("----------------------------------------");
+    console.log(`  API requests by route (${stats.totalApiRequests})`);
+    for (const route of stats.apiRoutes) {
+      console.log(
+        `    ${route.route.padEnd(58)} ${formatPerRun(route.requestsPerRun)}/run · ${route.errors} errors · ` +
+          `${route.retries} retries · p50 ${formatMs(route.latency.percentiles.p50)} · ` +
+          `p95 ${formatMs(route.latency.percentiles.p95)}`
+      );
+    }
+  }
   console.log("========================================\n");
 }
 
@@ -285,14 +668,14 @@ export function generateMarkdownReport(): string {
   const stats = getAggregateStats();
   const now = new Date().toISOString();
 
-  return [
+  const lines = [
     "## 📊 Orchestrator Analytics",
     "",
-    `_Last updated: ${now}_`,
+    `_Last updated: ${now} · window: ${stats.window}_`,
     "",
     "| Metric | Value |",
     "| --- | ---: |",
-    `| Total runs | ${stats.totalRuns} |`,
+    `| Total runs | ${formatRuns(stats)} |`,
     `| Issues created | ${stats.totalIssuesCreated} |`,
     `| Issues closed | ${stats.totalIssuesClosed} |`,
     `| PRs opened | ${stats.totalPRsOpened} |`,
@@ -300,23 +683,136 @@ export function generateMarkdownReport(): string {
     `| YOLO merges | ${stats.totalYoloMerges} |`,
     `| Comments posted | ${stats.totalComments} |`,
     `| Co-authored commits | ${stats.totalCoAuthoredCommits} |`,
-    `| Avg issue → first comment | ${formatMs(stats.avgIssueToCommentMs)} |`,
-    `| Avg PR open → merge | ${formatMs(stats.avgPRToMergeMs)} |`,
+    `| API retries (calls retried) | ${stats.totalApiRetries} (${stats.totalRetriedCalls}) |`,
+    `| API requests (errors) | ${stats.totalApiRequests} (${stats.totalApiErrors}) |`,
     "",
-  ].join("\n");
+    "### Latency distributions",
+    "",
+    ...markdownDistributions(stats.durations),
+  ];
+
+  if (stats.checks.length > 0) {
+    lines.push(
+      "### CI checks",
+      "",
+      "| Check | Runs | Failed | Pending | p50 | p90 | max |",
+      "| --- | ---: | ---: | ---: | ---: | ---: | ---: |",
+      ...stats.checks.map(
+        (c) =>
+          `| ${c.name} | ${c.count} | ${c.failed} | ${c.pending} | ${formatMs(c.durations.percentiles.p50)} | ` +
+          `${formatMs(c.durations.percentiles.p90)} | ${formatMs(c.durations.max)} |`
+      ),
+      ""
+    );
+  }
+
+  if (stats.webhooks.length > 0) {
+    lines.push(
+      "### Webhook delivery latency",
+      "",
+      "| Event | Deliveries | Matched | p50 | p90 | p99 | max |",
+      "| --- | ---: | ---: | ---: | ---: | ---: | ---: |",
+      ...stats.webhooks.map(
+        (w) =>
+          `| ${w.event} | ${w.count} | ${w.matched} | ${formatMs(w.latency.percentiles.p50)} | ` +
+          `${formatMs(w.latency.percentiles.p90)} | ${formatMs(w.latency.percentiles.p99)} | ${formatMs(w.latency.max)} |`
+      ),
+      ""
+    );
+  }
+
+  if (stats.apiRoutes.length > 0) {
+    lines.push(
+      "### API requests by route",
+      "",
+      "| Route | Requests | Per run | Errors | Retries | p50 | p95 | p99 | max |",
+      "| --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: |",
+      ...stats.apiRoutes.map(
+        (r) =>
+          `| \`${r.route}\` | ${r.requests} | ${formatPerRun(r.requestsPerRun)} | ${r.errors} | ${r.retries} | ` +
+          `${formatMs(r.latency.percentiles.p50)} | ${formatMs(r.latency.percentiles.p95)} | ` +
+          `${formatMs(r.latency.percentiles.p99)} | ${formatMs(r.latency.max)} |`
+      ),
+      ""
+    );
+  }
+
+  return lines.join("\n");
 }
 
 /**
- * Write (overwrite) the Markdown report to a local file.
+ * Write (overwrite) the Markdown report to a local file; by default
+ * analytics.md in the working directory, wherever the build lives.
  */
 export function writeMarkdownReport(
-  filePath: string = path.resolve(__dirname, "..", "analytics.md")
+  filePath: string = path.resolve("analytics.md")
 ): void {
   const content = generateMarkdownReport();
   fs.writeFileSync(filePath, content, "utf-8");
   log.info(`Markdown analytics report written to ${filePath}`);
 }
 
+// ---------------------------------------------------------------------------
+// Distribution rendering (shared with repoAnalysis.ts)
+// ---------------------------------------------------------------------------
+
+/** A labelled series summary, as rendered in reports. */
+export interface LabelledDistribution {
+  label: string;
+  stats: DistributionStats;
+}
+
+/** Console block per series: spread, percentiles and histogram. */
+export function printDistributions(series: LabelledDistribution[]): void {
+  for (const { label, stats: dist } of series) {
+    console.log("----------------------------------------");
+    console.log(`  ${label} (n=${dist.count})`);
+    if (dist.count === 0) continue;
+    console.log(
+      `    mean ${formatMs(dist.mean)} · sd ${formatMs(dist.stdDev)} · ` +
+        `min ${formatMs(dist.min)} · max ${formatMs(dist.max)}`
+    );
+    console.log(
+      `    p50 ${formatMs(dist.percentiles.p50)} · p90 ${formatMs(dist.percentiles.p90)} · ` +
+        `p95 ${formatMs(dist.percentiles.p95)} · p99 ${formatMs(dist.percentiles.p99)}`
+    );
+    for (const bucket of trimHistogram(dist.histogram)) {
+      console.log(
+        `    ${bucketLabel(bucket).padEnd(9)} ${histogramBar(bucket.count, dist.count).padEnd(20)} ${bucket.count}`
+      );
+    }
+  }
+}
+
+/** Markdown percentile table, then a histogram table per non-empty series. */
+export function markdownDistributions(series: LabelledDistribution[]): string[] {
+  const lines = [
+    "| Series | n | mean | sd | min | p50 | p90 | p95 | p99 | max |",
+    "| --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: |",
+    ...series.map(({ label, stats: d }) =>
+      `| ${label} | ${d.count} | ${formatMs(d.mean)} | ${formatMs(d.stdDev)} | ` +
+        `${formatMs(d.min)} | ${formatMs(d.percentiles.p50)} | ${formatMs(d.percentiles.p90)} | ` +
+        `${formatMs(d.percentiles.p95)} | ${formatMs(d.percentiles.p99)} | ${formatMs(d.max)} |`
+    ),
+    "",
+  ];
+
+  for (const { label, stats: d } of series) {
+    if (d.count === 0) continue;
+    lines.push(
+      `#### ${label}`,
+      "",
+      "| Bucket | Count | |",
+      "| --- | ---: | --- |",
+      ...trimHistogram(d.histogram).map(
+        (b) => `| ${bucketLabel(b)} | ${b.count} | ${b.count ? `\`${histogramBar(b.count, d.count)}\`` : ""} |`
+      ),
+      ""
+    );
+  }
+  return lines;
+}
+
 // ---------------------------------------------------------------------------
 // Internal math helpers
 // ---------------------------------------------------------------------------
@@ -325,15 +821,62 @@ function sum(nums: number[]): number {
   return nums.reduce((a, b) => a + b, 0);
 }
 
-function avg(nums: number[]): number {
-  return nums.length === 0 ? 0 : sum(nums) / nums.length;
+/** "12" or "12 (1 incomplete)". */
+function formatRuns(stats: AggregateStats): string {
+  return stats.incompleteRuns > 0
+    ? `${stats.totalRuns} (${stats.incompleteRuns} incomplete)`
+    : String(stats.totalRuns);
+}
+
+/** "3", "2.5". */
+export function formatPerRun(value: number): string {
+  return String(Math.round(value * 10) / 10);
 }
 
-function formatMs(ms: number): string {
-  if (ms === 0) return "n/a";
+/** "5 runs, 1 failed, 1 pending". */
+function formatCheckOutcomes(check: CheckStats): string {
+  const parts = [`${check.count} ${check.count === 1 ? "run" : "runs"}`];
+  if (check.failed > 0) parts.push(`${check.failed} failed`);
+  if (check.pending > 0) parts.push(`${check.pending} pending`);
+  return parts.join(", ");
+}
+
+/** "420ms", "12s", "3m 5s", "4h 10m", "2d 6h"; "n/a" for null. */
+export function formatMs(ms: number | null): string {
+  if (ms === null) return "n/a";
+  if (Math.round(ms) < 1000) return `${Math.round(ms)}ms`;
   const seconds = Math.round(ms / 1000);
   if (seconds < 60) return `${seconds}s`;
   const minutes = Math.floor(seconds / 60);
-  const remaining = seconds % 60;
-  return `${minutes}m ${remaining}s`;
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+/** "<1s", "5s–15s", "≥1h", "1d–3d". */
+export function bucketLabel(bucket: HistogramBucket): string {
+  const short = (ms: number) =>
+    ms >= 86_400_000
+      ? `${ms / 86_400_000}d`
+      : ms >= 3_600_000
+        ? `${ms / 3_600_000}h`
+        : ms >= 60_000
+          ? `${ms / 60_000}m`
+          : `${ms / 1000}s`;
+  if (bucket.fromMs === 0 && bucket.toMs !== null) return `<${short(bucket.toMs)}`;
+  if (bucket.toMs === null) return `≥${short(bucket.fromMs)}`;
+  return `${short(bucket.fromMs)}–${short(bucket.toMs)}`;
+}
+
+/** Drop empty buckets before the first and after the last non-empty one. */
+function trimHistogram(buckets: HistogramBucket[]): HistogramBucket[] {
+  const first = buckets.findIndex((b) => b.count > 0);
+  if (first === -1) return [];
+  const last = buckets.length - 1 - [...buckets].reverse().findIndex((b) => b.count > 0);
+  return buckets.slice(first, last + 1);
+}
+
+function histogramBar(count: number, total: number, width = 20): string {
+  return "█".repeat(total === 0 ? 0 : Math.round((count / total) * width));
 }
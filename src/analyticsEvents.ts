@@ -0,0 +1,389 @@
+/**
+ * analyticsEvents.ts — The analytics event stream and its projections.
+ *
+ * Analytics are event-sourced: every interesting thing that happens
+ * during a run (issue opened, comment posted, PR merged, API call
+ * retried, …) is appended to a typed, append-only stream carrying the
+ * run ID, iteration, workflow, GitHub object number, URL, timestamps and
+ * outcome.  Per-run records and aggregate statistics are projections
+ * computed from that stream, so a new metric can be derived from old
+ * runs simply by adding it to a projection.
+ *
+ * Files written before the event stream existed (version 1, counters
+ * only) are upcast into equivalent synthetic events by the version-1
+ * migration (analyticsSchema.ts).
+ */
+
+import { RetryReason } from "./config";
+import type { ApiRouteRecord, RunRecord } from "./analytics";
+
+// ---------------------------------------------------------------------------
+// Event schema
+// ---------------------------------------------------------------------------
+
+export type EventOutcome = "success" | "failure";
+
+/** Fields every event carries. */
+export interface EventMeta {
+  /** Position in the run's stream, starting at 0. */
+  seq: number;
+  runId: string;
+  /** 1-based iteration; null for run-level events and recovered workflows. */
+  iteration: number | null;
+  /** Journal ID of the workflow the event belongs to, if any. */
+  workflowId: string | null;
+  /** ISO-8601 time the event was recorded. */
+  at: string;
+  outcome: EventOutcome;
+  /** Synthesised from a version-1 record; object numbers are placeholders. */
+  upcast?: true;
+}
+
+/** What happened; one variant per event type. */
+export type EventPayload =
+  | { type: "run-started" }
+  | { type: "run-finished" }
+  | { type: "iteration-started" }
+  | { type: "iteration-finished"; error?: string }
+  | { type: "issue-created"; number: number; url: string | null; createdAt: string }
+  | { type: "issue-closed"; number: number; url: string | null; closedAt: string; via: "merge" }
+  | {
+      type: "comment-posted";
+      target: "issue" | "pr";
+      /** Issue or PR number commented on. */
+      number: number;
+      commentId: number;
+      url: string | null;
+      createdAt: string;
+    }
+  | { type: "commit-pushed"; branch: string; sha: string; path: string; coAuthored: boolean }
+  | {
+      type: "pr-opened";
+      number: number;
+      url: string | null;
+      createdAt: string;
+      closesIssue: number;
+      draft: boolean;
+    }
+  | {
+      type: "pr-merged";
+      number: number;
+      url: string | null;
+      mergedAt: string;
+      mergeSha: string;
+      method: string;
+      yolo: boolean;
+    }
+  | {
+      type: "step-finished";
+      /** Step ID from the workflow definition. */
+      step: string;
+      action: string;
+      durationMs: number;
+      /** The step's condition was not met; it did not run. */
+      skipped: boolean;
+      error?: string;
+    }
+  | {
+      /** One CI check on a PR's head commit, as last seen while waiting. */
+      type: "check-finished";
+      /** PR number. */
+      number: number;
+      sha: string;
+      /** Check run name or commit status context. */
+      name: string;
+      source: "check-run" | "status";
+      /** Check run conclusion or status state; null if still running. */
+      conclusion: string | null;
+      startedAt: string | null;
+      completedAt: string | null;
+    }
+  | {
+      /** The outcome of waiting for a PR head commit's checks. */
+      type: "checks-observed";
+      number: number;
+      sha: string;
+      checks: number;
+      /** When the first check suite, run or status appeared. */
+      firstCheckAt: string | null;
+      /** When the last check completed, if all did. */
+      completedAt: string | null;
+      conclusion: ChecksConclusion;
+    }
+  | {
+      /** A webhook delivery received during the run (webhookReceiver.ts). */
+      type: "webhook-received";
+      /** X-GitHub-Event header, e.g. "pull_request". */
+      event: string;
+      /** The payload's `action`, e.g. "opened"; null for events without one. */
+      action: string | null;
+      /** X-GitHub-Delivery header. */
+      deliveryId: string;
+      /** Issue or PR number the payload is about, if any. */
+      number: number | null;
+      receivedAt: string;
+      /** The recorded event this delivery reports; null if none matched. */
+      cause: WebhookCause | null;
+      /** Cause recorded → delivery received; null without a cause. */
+      latencyMs: number | null;
+    }
+  | { type: "api-retried"; label: string; retries: number; reasons: RetryReason[] }
+  /**
+   * API requests since the previous "api-usage" event, per REST route;
+   * recorded when an iteration finishes and when the run ends.
+   */
+  | { type: "api-usage"; routes: ApiRouteRecord[] }
+  /** Lowest core quota the run saw, recorded once when it ends. */
+  | { type: "rate-limit-observed"; remaining: number };
+
+export type AnalyticsEvent = EventMeta & EventPayload;
+export type AnalyticsEventType = EventPayload["type"];
+
+/**
+ * Overall result of a commit's checks: all passed, any failed, some
+ * still running when waiting timed out, or no checks at all.
+ */
+export type ChecksConclusion = "success" | "failure" | "timed-out" | "none";
+
+/** Events whose webhook deliveries are matched to them for latency. */
+export type WebhookCause = "issue-created" | "comment-posted" | "pr-opened" | "pr-merged";
+
+/** Check run conclusions and status states that count as passing. */
+const PASSING_CONCLUSIONS = new Set(["success", "neutral", "skipped"]);
+
+export function isPassingConclusion(conclusion: string | null): boolean {
+  return conclusion !== null && PASSING_CONCLUSIONS.has(conclusion);
+}
+
+// ---------------------------------------------------------------------------
+// Projections
+// ---------------------------------------------------------------------------
+
+/**
+ * Fold the stream into one record per run, in order of first appearance.
+ *
+ * Latencies pair events by object number across the whole stream and are
+ * attributed to the run that observed the later event, so a workflow
+ * resumed by a later run still contributes its issue → comment and
+ * PR → merge times.  Numbers are reused (dry runs number from 1,000,000
+ * in every process, a restarted fake server from 1), so creating an
+ * issue or PR forgets whatever was paired with its number before.
+ */
+export function projectRuns(events: AnalyticsEvent[]): RunRecord[] {
+  const runs = new Map<string, RunRecord>();
+  const issueCreatedAt = new Map<number, string>();
+  const prCreatedAt = new Map<number, string>();
+  const commentedIssues = new Set<number>();
+  /** Issues and PRs share one number sequence on GitHub. */
+  const forgetNumber = (number: number) => {
+    issueCreatedAt.delete(number);
+    prCreatedAt.delete(number);
+    commentedIssues.delete(number);
+  };
+
+  for (const event of events) {
+    let run = runs.get(event.runId);
+    if (!run) {
+      run = {
+        runId: event.runId,
+        startedAt: event.at,
+        finishedAt: event.at,
+        issuesCreated: 0,
+        issuesClosed: 0,
+        prsOpened: 0,
+        prsMerged: 0,
+        yoloMerges: 0,
+        commentsPosted: 0,
+        coAuthoredCommits: 0,
+        issueToFirstCommentMs: [],
+        prOpenToMergeMs: [],
+        prToFirstCheckMs: [],
+        prToChecksCompleteMs: [],
+        checks: [],
+        webhookDeliveries: [],
+        retriedCalls: [],
+        apiRoutes: [],
+        minRateLimitRemaining: null,
+        incomplete: true,
+      };
+      runs.set(event.runId, run);
+    }
+    // Unfinished runs end at their last event.
+    if (event.type !== "run-started") run.finishedAt = event.at;
+    if (event.outcome !== "success") continue;
+
+    switch (event.type) {
+      case "run-started":
+        run.startedAt = event.at;
+        break;
+      case "run-finished":
+        delete run.incomplete;
+        break;
+      case "issue-created":
+        run.issuesCreated++;
+        forgetNumber(event.number);
+        issueCreatedAt.set(event.number, event.createdAt);
+        break;
+      case "issue-closed":
+        run.issuesClosed++;
+        break;
+      case "comment-posted": {
+        run.commentsPosted++;
+        const openedAt = issueCreatedAt.get(event.number);
+        if (event.target === "issue" && openedAt && !commentedIssues.has(event.number)) {
+          commentedIssues.add(event.number);
+          run.issueToFirstCommentMs.push(elapsedMs(openedAt, event.createdAt));
+        }
+        break;
+      }
+      case "commit-pushed":
+        if (event.coAuthored) run.coAuthoredCommits++;
+        break;
+      case "pr-opened":
+        run.prsOpened++;
+        forgetNumber(event.number);
+        prCreatedAt.set(event.number, event.createdAt);
+        break;
+      case "pr-merged": {
+        run.prsMerged++;
+        if (event.yolo) run.yoloMerges++;
+        const openedAt = prCreatedAt.get(event.number);
+        if (openedAt) run.prOpenToMergeMs.push(elapsedMs(openedAt, event.mergedAt));
+        break;
+      }
+      case "check-finished":
+        run.checks.push({
+          name: event.name,
+          source: event.source,
+          conclusion: event.conclusion,
+          durationMs:
+            event.startedAt && event.completedAt ? elapsedMs(event.startedAt, event.completedAt) : null,
+        });
+        break;
+      case "checks-observed": {
+        const openedAt = prCreatedAt.get(event.number);
+        if (!openedAt) break;
+        if (event.firstCheckAt) run.prToFirstCheckMs.push(elapsedMs(openedAt, event.firstCheckAt));
+        if (event.completedAt) run.prToChecksCompleteMs.push(elapsedMs(openedAt, event.completedAt));
+        break;
+      }
+      case "webhook-received":
+        run.webhookDeliveries.push({
+          event: event.action ? `${event.event}.${event.action}` : event.event,
+          cause: event.cause,
+          latencyMs: event.latencyMs,
+        });
+        break;
+      case "api-retried":
+        run.retriedCalls!.push({ label: event.label, retries: event.retries, reasons: event.reasons });
+        break;
+      case "api-usage":
+        for (const usage of event.routes) {
+          const known = run.apiRoutes.find((r) => r.route === usage.route);
+          if (!known) {
+            run.apiRoutes.push({ ...usage, latenciesMs: [...usage.latenciesMs] });
+            continue;
+          }
+          known.requests += usage.requests;
+          known.errors += usage.errors;
+          known.retries += usage.retries;
+          known.latenciesMs.push(...usage.latenciesMs);
+        }
+        break;
+      case "rate-limit-observed":
+        if (run.minRateLimitRemaining == null || event.remaining < run.minRateLimitRemaining) {
+          run.minRateLimitRemaining = event.remaining;
+        }
+        break;
+    }
+  }
+
+  return [...runs.values()];
+}
+
+// ---------------------------------------------------------------------------
+// Upcasting version-1 files
+// ---------------------------------------------------------------------------
+
+/**
+ * Rebuild the event stream a version-1 run record implies.  Object
+ * numbers are unknown, so each synthetic issue or PR gets a negative
+ * placeholder number; latencies are preserved by timestamping each
+ * object at the run start and its comment or merge that many ms later.
+ */
+export function upcastV1Run(record: RunRecord, index: number, nextNumber: () => number): AnalyticsEvent[] {
+  const runId = record.runId ?? `v1-${index}`;
+  const events: AnalyticsEvent[] = [];
+  const push = (payload: EventPayload, at: string = record.startedAt) =>
+    events.push({
+      seq: events.length,
+      runId,
+      iteration: null,
+      workflowId: null,
+      at,
+      outcome: "success",
+      upcast: true,
+      ...payload,
+    });
+  const offset = (ms: number) => new Date(new Date(record.startedAt).getTime() + ms).toISOString();
+
+  push({ type: "run-started" });
+
+  // Issues: the first ones get the recorded comment latencies.
+  for (let i = 0; i < record.issuesCreated; i++) {
+    const number = nextNumber();
+    push({ type: "issue-created", number, url: null, createdAt: record.startedAt });
+    const latency = record.issueToFirstCommentMs[i];
+    if (latency !== undefined) {
+      push(
+        { type: "comment-posted", target: "issue", number, commentId: 0, url: null, createdAt: offset(latency) },
+        offset(latency)
+      );
+    }
+  }
+  // Comments beyond the paired issue comments were PR comments.
+  const pairedComments = Math.min(record.issuesCreated, record.issueToFirstCommentMs.length);
+  for (let i = pairedComments; i < record.commentsPosted; i++) {
+    push({ type: "comment-posted", target: "pr", number: nextNumber(), commentId: 0, url: null, createdAt: record.startedAt });
+  }
+
+  for (let i = 0; i < record.coAuthoredCommits; i++) {
+    push({ type: "commit-pushed", branch: "", sha: "", path: "", coAuthored: true });
+  }
+
+  // PRs: the first ones merged, with the recorded merge latencies.
+  for (let i = 0; i < Math.max(record.prsOpened, record.prsMerged); i++) {
+    const number = nextNumber();
+    if (i < record.prsOpened) {
+      push({ type: "pr-opened", number, url: null, createdAt: record.startedAt, closesIssue: 0, draft: false });
+    }
+    if (i < record.prsMerged) {
+      const mergedAt = offset(record.prOpenToMergeMs[i] ?? 0);
+      push(
+        { type: "pr-merged", number, url: null, mergedAt, mergeSha: "", method: "squash", yolo: i < record.yoloMerges },
+        mergedAt
+      );
+    }
+  }
+  for (let i = 0; i < record.issuesClosed; i++) {
+    push({ type: "issue-closed", number: nextNumber(), url: null, closedAt: record.startedAt, via: "merge" });
+  }
+
+  for (const call of record.retriedCalls ?? []) {
+    push({ type: "api-retried", label: call.label, retries: call.retries, reasons: call.reasons });
+  }
+  if (record.minRateLimitRemaining != null) {
+    push({ type: "rate-limit-observed", remaining: record.minRateLimitRemaining });
+  }
+
+  push({ type: "run-finished" }, record.finishedAt);
+  return events;
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+function elapsedMs(from: string, to: string): number {
+  return Math.max(new Date(to).getTime() - new Date(from).getTime(), 0);
+}
@@ -0,0 +1,300 @@
+/**
+ * analyticsExport.ts — Machine-readable exports of the analytics history.
+ *
+ * Dashboards cannot consume the Markdown report or the console summary,
+ * so `orchestrator export` renders the stored history as:
+ *
+ *   runs-csv       one row per run (the RunRecord projection)
+ *   events-csv     one row per event; payload fields beyond the common
+ *                  columns go in a JSON `details` column
+ *   runs-jsonl     one RunRecord per line
+ *   events-jsonl   one event per line, exactly as stored
+ *   prometheus     a text-exposition snapshot of the AggregateStats
+ *                  counters and latency histograms, API requests per
+ *                  route included (Prometheus 0.0.4)
+ *   openmetrics    the same snapshot in OpenMetrics 1.0 text format
+ *
+ * Exports cover the runs selected by an ExportFilter (start-time range
+ * and/or run IDs); event exports contain those runs' events.
+ */
+
+import { AnalyticsEvent, isPassingConclusion } from "./analyticsEvents";
+import {
+  AggregateStats,
+  ApiRouteStats,
+  DURATION_SERIES,
+  RunRecord,
+  aggregateRuns,
+  getAnalyticsStore,
+  loadRunsById,
+} from "./analytics";
+import { config } from "./config";
+import { DURATION_BUCKETS_MS } from "./stats";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const EXPORT_FORMATS = [
+  "runs-csv",
+  "events-csv",
+  "runs-jsonl",
+  "events-jsonl",
+  "prometheus",
+  "openmetrics",
+] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** Which runs an export covers; every given criterion must match. */
+export interface ExportFilter {
+  /** Runs started at or after this time. */
+  since?: Date;
+  /** Runs started before this time. */
+  until?: Date;
+  runIds?: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Render the runs matching `filter` in `format`. */
+export function exportAnalytics(format: ExportFormat, filter: ExportFilter = {}): string {
+  const store = getAnalyticsStore();
+  const runIds = store
+    .listRuns()
+    .filter(
+      (r) =>
+        (!filter.runIds || filter.runIds.includes(r.runId)) &&
+        (!filter.since || new Date(r.startedAt) >= filter.since) &&
+        (!filter.until || new Date(r.startedAt) < filter.until)
+    )
+    .map((r) => r.runId);
+
+  switch (format) {
+    case "runs-csv":
+      return toCsv(RUN_COLUMNS, loadRunsById(runIds));
+    case "events-csv":
+      return toCsv(EVENT_COLUMNS, store.readEvents({ runIds }));
+    case "runs-jsonl":
+      return toJsonLines(loadRunsById(runIds));
+    case "events-jsonl":
+      return toJsonLines(store.readEvents({ runIds }));
+    case "prometheus":
+    case "openmetrics":
+      return toExposition(loadRunsById(runIds), describeFilter(filter), format === "openmetrics");
+  }
+}
+
+/** "runs since 2024-05-01T00:00:00.000Z, 2 run IDs" — for AggregateStats.window. */
+function describeFilter(filter: ExportFilter): string {
+  const parts: string[] = [];
+  if (filter.since) parts.push(`since ${filter.since.toISOString()}`);
+  if (filter.until) parts.push(`before ${filter.until.toISOString()}`);
+  if (filter.runIds) parts.push(filter.runIds.length === 1 ? "1 run ID" : `${filter.runIds.length} run IDs`);
+  return parts.length === 0 ? "all runs" : `runs ${parts.join(", ")}`;
+}
+
+// ---------------------------------------------------------------------------
+// CSV and JSON Lines
+// ---------------------------------------------------------------------------
+
+interface Column<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | null | undefined;
+}
+
+/** Lists of durations are joined with ";" so each run stays one row. */
+const RUN_COLUMNS: Column<RunRecord>[] = [
+  { header: "runId", value: (r) => r.runId },
+  { header: "startedAt", value: (r) => r.startedAt },
+  { header: "finishedAt", value: (r) => r.finishedAt },
+  { header: "incomplete", value: (r) => r.incomplete === true },
+  { header: "issuesCreated", value: (r) => r.issuesCreated },
+  { header: "issuesClosed", value: (r) => r.issuesClosed },
+  { header: "prsOpened", value: (r) => r.prsOpened },
+  { header: "prsMerged", value: (r) => r.prsMerged },
+  { header: "yoloMerges", value: (r) => r.yoloMerges },
+  { header: "commentsPosted", value: (r) => r.commentsPosted },
+  { header: "coAuthoredCommits", value: (r) => r.coAuthoredCommits },
+  { header: "issueToFirstCommentMs", value: (r) => r.issueToFirstCommentMs.join(";") },
+  { header: "prOpenToMergeMs", value: (r) => r.prOpenToMergeMs.join(";") },
+  { header: "prToFirstCheckMs", value: (r) => r.prToFirstCheckMs.join(";") },
+  { header: "prToChecksCompleteMs", value: (r) => r.prToChecksCompleteMs.join(";") },
+  { header: "checks", value: (r) => r.checks.length },
+  {
+    header: "failedChecks",
+    value: (r) => r.checks.filter((c) => c.conclusion !== null && !isPassingConclusion(c.conclusion)).length,
+  },
+  { header: "webhookDeliveries", value: (r) => r.webhookDeliveries.length },
+  { header: "retriedCalls", value: (r) => r.retriedCalls?.length ?? 0 },
+  { header: "apiRetries", value: (r) => (r.retriedCalls ?? []).reduce((n, c) => n + c.retries, 0) },
+  { header: "minRateLimitRemaining", value: (r) => r.minRateLimitRemaining },
+  { header: "apiRequests", value: (r) => r.apiRoutes.reduce((n, route) => n + route.requests, 0) },
+  { header: "apiErrors", value: (r) => r.apiRoutes.reduce((n, route) => n + route.errors, 0) },
+];
+
+/** Fields with their own column in the events CSV. */
+const EVENT_COMMON_FIELDS = new Set([
+  "seq", "runId", "iteration", "workflowId", "at", "type", "outcome", "number", "url", "upcast",
+]);
+
+const EVENT_COLUMNS: Column<AnalyticsEvent>[] = [
+  { header: "runId", value: (e) => e.runId },
+  { header: "seq", value: (e) => e.seq },
+  { header: "at", value: (e) => e.at },
+  { header: "type", value: (e) => e.type },
+  { header: "outcome", value: (e) => e.outcome },
+  { header: "iteration", value: (e) => e.iteration },
+  { header: "workflowId", value: (e) => e.workflowId },
+  { header: "number", value: (e) => ("number" in e ? e.number : null) },
+  { header: "url", value: (e) => ("url" in e ? e.url : null) },
+  {
+    header: "details",
+    value: (e) => {
+      const details = Object.fromEntries(Object.entries(e).filter(([key]) => !EVENT_COMMON_FIELDS.has(key)));
+      return Object.keys(details).length > 0 ? JSON.stringify(details) : null;
+    },
+  },
+];
+
+/** RFC 4180 CSV with a header row; null and undefined become empty cells. */
+function toCsv<T>(columns: Column<T>[], rows: T[]): string {
+  const cell = (value: string | number | boolean | null | undefined): string => {
+    const text = value == null ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [columns.map((c) => c.header).join(",")];
+  for (const row of rows) lines.push(columns.map((c) => cell(c.value(row))).join(","));
+  return lines.map((line) => `${line}\r\n`).join("");
+}
+
+function toJsonLines(rows: unknown[]): string {
+  return rows.map((row) => `${JSON.stringify(row)}\n`).join("");
+}
+
+// ---------------------------------------------------------------------------
+// Prometheus / OpenMetrics
+// ---------------------------------------------------------------------------
+
+const METRIC_PREFIX = "orchestrator";
+
+/** AggregateStats counters exported, by metric name (without `_total`). */
+const COUNTERS: { name: string; help: string; value: (s: AggregateStats) => number }[] = [
+  { name: "runs", help: "Runs recorded.", value: (s) => s.totalRuns },
+  { name: "issues_created", help: "Issues created.", value: (s) => s.totalIssuesCreated },
+  { name: "issues_closed", help: "Issues closed.", value: (s) => s.totalIssuesClosed },
+  { name: "prs_opened", help: "Pull requests opened.", value: (s) => s.totalPRsOpened },
+  { name: "prs_merged", help: "Pull requests merged.", value: (s) => s.totalPRsMerged },
+  { name: "yolo_merges", help: "Pull requests merged without review.", value: (s) => s.totalYoloMerges },
+  { name: "comments_posted", help: "Comments posted.", value: (s) => s.totalComments },
+  { name: "coauthored_commits", help: "Co-authored commits pushed.", value: (s) => s.totalCoAuthoredCommits },
+  { name: "api_retried_calls", help: "API calls that needed retries.", value: (s) => s.totalRetriedCalls },
+  { name: "api_retries", help: "API retries across all calls.", value: (s) => s.totalApiRetries },
+  { name: "api_requests", help: "API requests sent.", value: (s) => s.totalApiRequests },
+  { name: "api_request_errors", help: "API requests that failed or got no answer.", value: (s) => s.totalApiErrors },
+  { name: "checks", help: "CI checks observed on pull requests.", value: (s) => s.totalChecks },
+  { name: "checks_failed", help: "CI checks that completed without passing.", value: (s) => s.totalFailedChecks },
+  { name: "webhook_deliveries", help: "Webhook deliveries received.", value: (s) => s.totalWebhookDeliveries },
+];
+
+/** Metric names for the duration series, in seconds. */
+const HISTOGRAM_NAMES: Record<(typeof DURATION_SERIES)[number]["key"], string> = {
+  issueToFirstComment: "issue_to_first_comment_seconds",
+  prOpenToMerge: "pr_open_to_merge_seconds",
+  prToFirstCheck: "pr_to_first_check_seconds",
+  prToChecksComplete: "pr_to_checks_complete_seconds",
+};
+
+/** API requests take milliseconds, not minutes: finer `le` bounds for them. */
+const API_REQUEST_BUCKETS_MS: readonly number[] = [50, 100, 250, 500, 1_000, 2_500, 5_000, 10_000];
+
+/**
+ * The snapshot in text-exposition format.  Every sample carries a
+ * `repository` label so several orchestrators can share a dashboard.
+ */
+function toExposition(runs: RunRecord[], window: string, openMetrics: boolean): string {
+  const stats = aggregateRuns(runs, window);
+  const labels = `repository="${escapeLabel(`${config.owner}/${config.repo}`)}"`;
+  const lines: string[] = [];
+  const family = (name: string, type: string, help: string) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+  };
+
+  for (const counter of COUNTERS) {
+    const name = `${METRIC_PREFIX}_${counter.name}`;
+    // OpenMetrics names the family without the _total suffix its sample carries.
+    family(openMetrics ? name : `${name}_total`, "counter", counter.help);
+    lines.push(`${name}_total{${labels}} ${counter.value(stats)}`);
+  }
+
+  family(`${METRIC_PREFIX}_incomplete_runs`, "gauge", "Runs without a run-finished event.");
+  lines.push(`${METRIC_PREFIX}_incomplete_runs{${labels}} ${stats.incompleteRuns}`);
+
+  // Bucketed from the raw values: `le` bounds are inclusive, unlike the
+  // report histogram's (stats.ts).
+  const histogram = (
+    name: string,
+    sampleLabels: string,
+    series: number[],
+    bounds: readonly number[] = DURATION_BUCKETS_MS
+  ) => {
+    for (const bound of [...bounds, Infinity]) {
+      const le = bound === Infinity ? "+Inf" : formatNumber(bound / 1000);
+      lines.push(`${name}_bucket{${sampleLabels},le="${le}"} ${series.filter((ms) => ms <= bound).length}`);
+    }
+    lines.push(`${name}_sum{${sampleLabels}} ${formatNumber(series.reduce((a, b) => a + b, 0) / 1000)}`);
+    lines.push(`${name}_count{${sampleLabels}} ${series.length}`);
+  };
+
+  for (const { key, label, values } of DURATION_SERIES) {
+    const name = `${METRIC_PREFIX}_${HISTOGRAM_NAMES[key]}`;
+    family(name, "histogram", `${label} latency in seconds.`);
+    if (openMetrics) lines.push(`# UNIT ${name} seconds`);
+    histogram(name, labels, runs.flatMap(values));
+  }
+
+  // One series per webhook event type, of the deliveries matched to a cause.
+  const webhookName = `${METRIC_PREFIX}_webhook_delivery_seconds`;
+  family(webhookName, "histogram", "Webhook delivery latency in seconds, by event.");
+  if (openMetrics) lines.push(`# UNIT ${webhookName} seconds`);
+  for (const { event } of stats.webhooks) {
+    const latencies = runs
+      .flatMap((r) => r.webhookDeliveries)
+      .flatMap((d) => (d.event === event && d.latencyMs !== null ? [d.latencyMs] : []));
+    histogram(webhookName, `${labels},event="${escapeLabel(event)}"`, latencies);
+  }
+
+  // One series per REST route ("GET /repos/{owner}/{repo}/pulls/{pull_number}").
+  const routeLabels = (route: string) => `${labels},route="${escapeLabel(route)}"`;
+  const requestName = `${METRIC_PREFIX}_api_request_seconds`;
+  family(requestName, "histogram", "API request latency in seconds, by route.");
+  if (openMetrics) lines.push(`# UNIT ${requestName} seconds`);
+  for (const { route } of stats.apiRoutes) {
+    const latencies = runs.flatMap((r) => r.apiRoutes).flatMap((u) => (u.route === route ? u.latenciesMs : []));
+    histogram(requestName, routeLabels(route), latencies, API_REQUEST_BUCKETS_MS);
+  }
+  const routeCounters = [
+    { name: "api_route_errors", help: "API request errors, by route.", value: (r: ApiRouteStats) => r.errors },
+    { name: "api_route_retries", help: "API request retries, by route.", value: (r: ApiRouteStats) => r.retries },
+  ];
+  for (const counter of routeCounters) {
+    const name = `${METRIC_PREFIX}_${counter.name}`;
+    family(openMetrics ? name : `${name}_total`, "counter", counter.help);
+    for (const route of stats.apiRoutes) {
+      lines.push(`${name}_total{${routeLabels(route.route)}} ${counter.value(route)}`);
+    }
+  }
+
+  if (openMetrics) lines.push("# EOF");
+  return lines.map((line) => `${line}\n`).join("");
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+/** Plain decimal without float noise ("0.1", not "0.1000000001"). */
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(6)));
+}
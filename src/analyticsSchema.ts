@@ -0,0 +1,307 @@
+/**
+ * analyticsSchema.ts — Versioned analytics file schema and migrations.
+ *
+ * Every version of the analytics file layout has an entry in the schema
+ * registry: a validator for files of that version and, for all but the
+ * current one, the migration that upgrades it to the next version.
+ * Loading a file validates it against the schema of the version it
+ * declares, migrates it one version at a time, and validates the result
+ * against the current schema — so a file is either fully understood or
+ * rejected with every problem listed, never silently replaced.
+ *
+ *   v1  one counter record per run ({ version, runs })
+ *   v2  append-only event stream ({ version, events }; analyticsEvents.ts)
+ *   v3  v2 plus "step-finished" events (a v2 reader would reject them)
+ *   v4  v3 plus "check-finished" and "checks-observed" events
+ *   v5  v4 plus "webhook-received" events
+ *   v6  v5 plus "api-usage" events
+ *
+ * To change the layout: add the new version's validator, a migration
+ * from the previous version, and bump ANALYTICS_SCHEMA_VERSION.
+ */
+
+import type { AnalyticsData, RunRecord } from "./analytics";
+import { AnalyticsEventType, upcastV1Run } from "./analyticsEvents";
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+/** Version written by this build. */
+export const ANALYTICS_SCHEMA_VERSION = 6;
+
+/** The version-1 file layout. */
+export interface AnalyticsDataV1 {
+  version: 1;
+  runs: RunRecord[];
+}
+
+interface SchemaVersion {
+  /** One-line description, shown by `orchestrator migrate`. */
+  description: string;
+  /** Problems with a file of this version ("events[3].runId: …"). */
+  validate: (data: Record<string, unknown>) => string[];
+  /** Upgrade a valid file of this version to the next version. */
+  migrate?: (data: Record<string, unknown>) => Record<string, unknown>;
+}
+
+const SCHEMAS: Record<number, SchemaVersion> = {
+  1: {
+    description: "per-run counters",
+    validate: validateV1,
+    migrate: (data) => {
+      let placeholder = 0;
+      const nextNumber = () => --placeholder;
+      const runs = (data as unknown as AnalyticsDataV1).runs;
+      return {
+        version: 2,
+        events: runs.flatMap((run, i) => upcastV1Run(run, i, nextNumber)),
+      };
+    },
+  },
+  2: {
+    description: "append-only event stream",
+    validate: (data) => validateEvents(data, 2),
+    // Every version-2 event is a valid version-3 event.
+    migrate: (data) => ({ ...data, version: 3 }),
+  },
+  3: {
+    description: "event stream with workflow step outcomes",
+    validate: (data) => validateEvents(data, 3),
+    // Every version-3 event is a valid version-4 event.
+    migrate: (data) => ({ ...data, version: 4 }),
+  },
+  4: {
+    description: "event stream with CI check timings",
+    validate: (data) => validateEvents(data, 4),
+    // Every version-4 event is a valid version-5 event.
+    migrate: (data) => ({ ...data, version: 5 }),
+  },
+  5: {
+    description: "event stream with webhook deliveries",
+    validate: (data) => validateEvents(data, 5),
+    // Every version-5 event is a valid version-6 event.
+    migrate: (data) => ({ ...data, version: 6 }),
+  },
+  6: {
+    description: "event stream with per-route API usage",
+    validate: (data) => validateEvents(data, 6),
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** An analytics file that cannot be read, validated or migrated. */
+export class AnalyticsSchemaError extends Error {
+  constructor(
+    message: string,
+    /** Individual schema violations. */
+    readonly problems: string[] = []
+  ) {
+    super(
+      problems.length > 0
+        ? `${message}\n  - ${problems.slice(0, 10).join("\n  - ")}` +
+            (problems.length > 10 ? `\n  - … and ${problems.length - 10} more` : "")
+        : message
+    );
+    this.name = "AnalyticsSchemaError";
+  }
+}
+
+export interface MigrationResult {
+  data: AnalyticsData;
+  /** Version the file declared. */
+  fromVersion: number;
+  /** Descriptions of the migrations applied, in order ("1 → 2: …"). */
+  applied: string[];
+}
+
+/**
+ * Validate parsed file contents and migrate them to the current version.
+ * Throws AnalyticsSchemaError when the file is invalid at any stage or
+ * comes from a newer build.
+ */
+export function migrateAnalytics(raw: unknown, source = "Analytics file"): MigrationResult {
+  if (!isObject(raw)) throw new AnalyticsSchemaError(`${source} is not a JSON object.`);
+  const fromVersion = raw.version;
+  if (typeof fromVersion !== "number" || !Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw new AnalyticsSchemaError(`${source} has no valid "version" (found ${JSON.stringify(fromVersion)}).`);
+  }
+  if (fromVersion > ANALYTICS_SCHEMA_VERSION) {
+    throw new AnalyticsSchemaError(
+      `${source} is version ${fromVersion}, newer than this build supports ` +
+        `(${ANALYTICS_SCHEMA_VERSION}). Upgrade the orchestrator.`
+    );
+  }
+
+  let data = raw;
+  const applied: string[] = [];
+  for (let version = fromVersion; ; version++) {
+    const schema = SCHEMAS[version];
+    const problems = schema.validate(data);
+    if (problems.length > 0) {
+      throw new AnalyticsSchemaError(
+        version === fromVersion
+          ? `${source} is not a valid version-${version} file:`
+          : `Migrating ${source} to version ${version} produced an invalid file:`,
+        problems
+      );
+    }
+    if (version === ANALYTICS_SCHEMA_VERSION) break;
+
+    data = schema.migrate!(data);
+    applied.push(`${version} → ${version + 1}: ${schema.description} → ${SCHEMAS[version + 1].description}`);
+  }
+
+  return { data: data as unknown as AnalyticsData, fromVersion, applied };
+}
+
+// ---------------------------------------------------------------------------
+// Validators
+// ---------------------------------------------------------------------------
+
+type FieldType = "string" | "number" | "boolean" | "string|null" | "number|null" | "array";
+
+const V1_RUN_FIELDS: Record<string, FieldType> = {
+  startedAt: "string",
+  finishedAt: "string",
+  issuesCreated: "number",
+  issuesClosed: "number",
+  prsOpened: "number",
+  prsMerged: "number",
+  yoloMerges: "number",
+  commentsPosted: "number",
+  coAuthoredCommits: "number",
+  issueToFirstCommentMs: "array",
+  prOpenToMergeMs: "array",
+};
+
+const EVENT_META_FIELDS: Record<string, FieldType> = {
+  seq: "number",
+  runId: "string",
+  iteration: "number|null",
+  workflowId: "string|null",
+  at: "string",
+  type: "string",
+};
+
+/** Required fields per event type, beyond the meta fields. */
+const EVENT_FIELDS: Record<AnalyticsEventType, Record<string, FieldType>> = {
+  "run-started": {},
+  "run-finished": {},
+  "iteration-started": {},
+  "iteration-finished": {},
+  "issue-created": { number: "number", url: "string|null", createdAt: "string" },
+  "issue-closed": { number: "number", url: "string|null", closedAt: "string", via: "string" },
+  "comment-posted": {
+    target: "string",
+    number: "number",
+    commentId: "number",
+    url: "string|null",
+    createdAt: "string",
+  },
+  "commit-pushed": { branch: "string", sha: "string", path: "string", coAuthored: "boolean" },
+  "pr-opened": {
+    number: "number",
+    url: "string|null",
+    createdAt: "string",
+    closesIssue: "number",
+    draft: "boolean",
+  },
+  "pr-merged": {
+    number: "number",
+    url: "string|null",
+    mergedAt: "string",
+    mergeSha: "string",
+    method: "string",
+    yolo: "boolean",
+  },
+  "step-finished": { step: "string", action: "string", durationMs: "number", skipped: "boolean" },
+  "check-finished": {
+    number: "number",
+    sha: "string",
+    name: "string",
+    source: "string",
+    conclusion: "string|null",
+    startedAt: "string|null",
+    completedAt: "string|null",
+  },
+  "checks-observed": {
+    number: "number",
+    sha: "string",
+    checks: "number",
+    firstCheckAt: "string|null",
+    completedAt: "string|null",
+    conclusion: "string",
+  },
+  "webhook-received": {
+    event: "string",
+    action: "string|null",
+    deliveryId: "string",
+    number: "number|null",
+    receivedAt: "string",
+    cause: "string|null",
+    latencyMs: "number|null",
+  },
+  "api-retried": { label: "string", retries: "number", reasons: "array" },
+  "api-usage": { routes: "array" },
+  "rate-limit-observed": { remaining: "number" },
+};
+
+function validateV1(data: Record<string, unknown>): string[] {
+  if (!Array.isArray(data.runs)) return ["runs: expected an array"];
+  return data.runs.flatMap((run, i) =>
+    isObject(run) ? checkFields(run, V1_RUN_FIELDS, `runs[${i}]`) : [`runs[${i}]: expected an object`]
+  );
+}
+
+/** Version that introduced each event type; the others date from version 2. */
+const INTRODUCED_IN: Partial<Record<AnalyticsEventType, number>> = {
+  "step-finished": 3,
+  "check-finished": 4,
+  "checks-observed": 4,
+  "webhook-received": 5,
+  "api-usage": 6,
+};
+
+function validateEvents(data: Record<string, unknown>, version: number): string[] {
+  if (!Array.isArray(data.events)) return ["events: expected an array"];
+  return data.events.flatMap((event, i) => {
+    const at = `events[${i}]`;
+    if (!isObject(event)) return [`${at}: expected an object`];
+    const problems = checkFields(event, EVENT_META_FIELDS, at);
+    if (event.outcome !== "success" && event.outcome !== "failure") {
+      problems.push(`${at}.outcome: expected "success" or "failure"`);
+    }
+    if (typeof event.type === "string") {
+      const type = event.type as AnalyticsEventType;
+      const fields = EVENT_FIELDS[type];
+      if (fields && (INTRODUCED_IN[type] ?? 2) <= version) problems.push(...checkFields(event, fields, at));
+      else problems.push(`${at}.type: unknown event type "${event.type}"`);
+    }
+    return problems;
+  });
+}
+
+function checkFields(
+  value: Record<string, unknown>,
+  fields: Record<string, FieldType>,
+  at: string
+): string[] {
+  const problems: string[] = [];
+  for (const [key, type] of Object.entries(fields)) {
+    const v = value[key];
+    const ok =
+      type === "array"
+        ? Array.isArray(v)
+        : type.split("|").some((t) => (t === "null" ? v === null : typeof v === t));
+    if (!ok) problems.push(`${at}.${key}: expected ${type}`);
+  }
+  return problems;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
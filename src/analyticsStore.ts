@@ -0,0 +1,363 @@
+/**
+ * analyticsStore.ts — Pluggable storage for the analytics event stream.
+ *
+ * The event stream (analyticsEvents.ts) can live in one of three
+ * backends, chosen with ANALYTICS_BACKEND:
+ *
+ *   json    one JSON document ({ version, events }); simple and diffable,
+ *           but every flush rewrites the whole file.
+ *   ndjson  a header line ({ version }) followed by one event per line;
+ *           flushes append, so cost no longer grows with history.
+ *   sqlite  an SQLite database (sqliteStore.ts) with indexed queries by
+ *           run, event type and time, for long histories.
+ *
+ * Every backend validates what it reads against the schema registry
+ * (analyticsSchema.ts), quarantines an invalid store instead of
+ * overwriting it, and writes under the advisory lock of atomicFile.ts.
+ * `convertAnalyticsStore` copies a history from one backend to another.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { AnalyticsBackend, ReportWindow } from "./config";
+import { AnalyticsEvent, AnalyticsEventType } from "./analyticsEvents";
+import {
+  ANALYTICS_SCHEMA_VERSION,
+  AnalyticsSchemaError,
+  MigrationResult,
+  migrateAnalytics,
+} from "./analyticsSchema";
+import { withFileLock, writeFileAtomic } from "./atomicFile";
+import { selectWindow } from "./stats";
+import { loadSqlite, sqliteStore } from "./sqliteStore";
+import { log } from "./utils";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Narrows `readEvents`; every given criterion must match. */
+export interface EventFilter {
+  runIds?: string[];
+  types?: AnalyticsEventType[];
+  /** Inclusive lower bound on the event time (ISO-8601). */
+  since?: string;
+  /** Exclusive upper bound on the event time (ISO-8601). */
+  until?: string;
+}
+
+/** One stored run, without projecting its events. */
+export interface RunSummary {
+  runId: string;
+  startedAt: string;
+  /** Null while the run has no "run-finished" event. */
+  finishedAt: string | null;
+  events: number;
+}
+
+/** Outcome of `AnalyticsStore.migrate`. */
+export interface FileMigration {
+  fromVersion: number;
+  toVersion: number;
+  /** Migrations applied (or, when checking, pending). */
+  applied: string[];
+  /** Copy of the original store; null when nothing was written. */
+  backupPath: string | null;
+}
+
+export interface AnalyticsStore {
+  readonly backend: AnalyticsBackend;
+  /** File the store lives in. */
+  readonly location: string;
+  /**
+   * Stored events matching `filter`, oldest first.  A missing store is an
+   * empty history; an invalid one throws AnalyticsSchemaError.
+   */
+  readEvents(filter?: EventFilter): AnalyticsEvent[];
+  /** Stored runs inside `window`, in start order. */
+  listRuns(window?: ReportWindow, now?: Date): RunSummary[];
+  /**
+   * Durably append events under the store's lock.  An invalid store is
+   * quarantined and a new one started; an older one is upgraded first.
+   */
+  append(events: AnalyticsEvent[]): void;
+  /**
+   * Upgrade the store in place to the current schema version, keeping a
+   * backup of the original.  With `apply` false only reports what would
+   * happen.  Throws AnalyticsSchemaError for invalid stores.
+   */
+  migrate(apply: boolean): FileMigration;
+  /** Replace the store's contents with `events` (used by the converter). */
+  replaceAll(events: AnalyticsEvent[]): void;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Load what the given backends need before they can be opened (the
+ * SQLite engine is WebAssembly and initialises asynchronously).
+ */
+export async function prepareAnalyticsBackends(...backends: AnalyticsBackend[]): Promise<void> {
+  if (backends.includes("sqlite")) await loadSqlite();
+}
+
+/** Open the store for `backend` at `location`; nothing is read yet. */
+export function openAnalyticsStore(backend: AnalyticsBackend, location: string): AnalyticsStore {
+  switch (backend) {
+    case "json":
+      return jsonStore(location);
+    case "ndjson":
+      return ndjsonStore(location);
+    case "sqlite":
+      return sqliteStore(location);
+  }
+}
+
+/**
+ * Copy every event from `source` into `target`, replacing its contents.
+ * Returns the number of events and runs copied.
+ */
+export function convertAnalyticsStore(
+  source: AnalyticsStore,
+  target: AnalyticsStore
+): { events: number; runs: number } {
+  const events = source.readEvents();
+  target.replaceAll(events);
+  return { events: events.length, runs: new Set(events.map((e) => e.runId)).size };
+}
+
+// ---------------------------------------------------------------------------
+// JSON backend
+// ---------------------------------------------------------------------------
+
+function jsonStore(location: string): AnalyticsStore {
+  /** Read, validate and migrate the file (in memory only). */
+  const read = (): MigrationResult => {
+    if (!fs.existsSync(location)) return emptyMigrationResult();
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(location, "utf-8"));
+    } catch (err) {
+      if (!(err instanceof SyntaxError)) throw err;
+      throw new AnalyticsSchemaError(`Could not parse analytics file ${location}: ${err.message}`);
+    }
+    return migrateAnalytics(raw, location);
+  };
+  const write = (events: AnalyticsEvent[]) =>
+    writeFileAtomic(location, JSON.stringify({ version: ANALYTICS_SCHEMA_VERSION, events }, null, 2));
+
+  return {
+    backend: "json",
+    location,
+    readEvents: (filter) => filterEvents(read().data.events, filter),
+    listRuns: (window, now) => summariseRuns(read().data.events, window, now),
+    append: (events) =>
+      withFileLock(location, () => {
+        const result = readOrQuarantine(location, read) ?? emptyMigrationResult();
+        if (result.applied.length > 0) backupBeforeUpgrade(location, result.fromVersion);
+        write([...result.data.events, ...events]);
+      }),
+    migrate: (apply) =>
+      withFileLock(location, () => {
+        const result = read();
+        return migrateWith(location, result, apply, () => write(result.data.events));
+      }),
+    replaceAll: (events) => withFileLock(location, () => write(events)),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// NDJSON backend
+// ---------------------------------------------------------------------------
+
+function ndjsonStore(location: string): AnalyticsStore {
+  const read = (): MigrationResult => {
+    if (!fs.existsSync(location)) return emptyMigrationResult();
+    const text = fs.readFileSync(location, "utf-8");
+    if (text.trim() === "") return emptyMigrationResult();
+
+    const lines = text.split("\n");
+    // A crash mid-append can leave one unterminated line; it is ignored
+    // here and cut off before the next append.
+    const torn = !text.endsWith("\n");
+    if (torn) log.warn(`Ignoring an incomplete last line in ${location}.`);
+    const complete = lines.slice(0, -1);
+
+    const parsed: unknown[] = [];
+    const problems: string[] = [];
+    complete.forEach((line, i) => {
+      if (line.trim() === "") return;
+      try {
+        parsed.push(JSON.parse(line));
+      } catch (err) {
+        problems.push(`line ${i + 1}: ${(err as Error).message}`);
+      }
+    });
+    if (problems.length > 0) {
+      throw new AnalyticsSchemaError(`Could not parse analytics file ${location}:`, problems);
+    }
+
+    const [header, ...events] = parsed;
+    const version = (header as { version?: unknown } | undefined)?.version;
+    return migrateAnalytics({ version, events }, location);
+  };
+  const write = (events: AnalyticsEvent[]) => writeFileAtomic(location, ndjson(events, true));
+
+  return {
+    backend: "ndjson",
+    location,
+    readEvents: (filter) => filterEvents(read().data.events, filter),
+    listRuns: (window, now) => summariseRuns(read().data.events, window, now),
+    append: (events) =>
+      withFileLock(location, () => {
+        const result = readOrQuarantine(location, read) ?? emptyMigrationResult();
+        if (result.applied.length > 0 || !fs.existsSync(location)) {
+          if (result.applied.length > 0) backupBeforeUpgrade(location, result.fromVersion);
+          write([...result.data.events, ...events]);
+          return;
+        }
+        truncateTornLine(location);
+        const fd = fs.openSync(location, "a");
+        try {
+          fs.writeFileSync(fd, ndjson(events, false));
+          fs.fsyncSync(fd);
+        } finally {
+          fs.closeSync(fd);
+        }
+      }),
+    migrate: (apply) =>
+      withFileLock(location, () => {
+        const result = read();
+        return migrateWith(location, result, apply, () => write(result.data.events));
+      }),
+    replaceAll: (events) => withFileLock(location, () => write(events)),
+  };
+}
+
+/** Events as NDJSON lines, optionally preceded by the header line. */
+function ndjson(events: AnalyticsEvent[], header: boolean): string {
+  const lines = events.map((e) => JSON.stringify(e));
+  if (header) lines.unshift(JSON.stringify({ version: ANALYTICS_SCHEMA_VERSION }));
+  return lines.map((line) => `${line}\n`).join("");
+}
+
+/** Drop an unterminated last line left by an interrupted append. */
+function truncateTornLine(location: string): void {
+  const text = fs.readFileSync(location, "utf-8");
+  if (text === "" || text.endsWith("\n")) return;
+  fs.truncateSync(location, Buffer.byteLength(text.slice(0, text.lastIndexOf("\n") + 1)));
+}
+
+// ---------------------------------------------------------------------------
+// Shared by the backends
+// ---------------------------------------------------------------------------
+
+/** What reading a store that does not exist yet returns. */
+export function emptyMigrationResult(): MigrationResult {
+  return {
+    data: { version: ANALYTICS_SCHEMA_VERSION, events: [] },
+    fromVersion: ANALYTICS_SCHEMA_VERSION,
+    applied: [],
+  };
+}
+
+/**
+ * Open the store for an append (callers hold its lock).  One that fails
+ * validation is moved aside as "<name>.corrupt-<time><ext>" rather than
+ * overwritten, and null is returned so the caller starts afresh.
+ */
+export function readOrQuarantine<T>(location: string, read: () => T): T | null {
+  try {
+    return read();
+  } catch (err) {
+    if (!(err instanceof AnalyticsSchemaError)) throw err;
+    const quarantined = siblingPath(location, `corrupt-${timestamp()}`);
+    fs.renameSync(location, quarantined);
+    log.error(`${err.message}\nMoved the file to ${quarantined}; starting a new analytics store.`);
+    return null;
+  }
+}
+
+/** Back up a store that is about to be rewritten in the current version. */
+export function backupBeforeUpgrade(location: string, fromVersion: number): void {
+  const backup = backupAnalyticsFile(location, fromVersion);
+  log.info(`Upgraded ${location} to version ${ANALYTICS_SCHEMA_VERSION}; version ${fromVersion} kept at ${backup}.`);
+}
+
+/** Shared body of `migrate`: report, and when applying back up and `rewrite`. */
+export function migrateWith(
+  location: string,
+  result: MigrationResult,
+  apply: boolean,
+  rewrite: () => void
+): FileMigration {
+  const migration: FileMigration = {
+    fromVersion: result.fromVersion,
+    toVersion: ANALYTICS_SCHEMA_VERSION,
+    applied: result.applied,
+    backupPath: null,
+  };
+  if (apply && result.applied.length > 0) {
+    migration.backupPath = backupAnalyticsFile(location, result.fromVersion);
+    rewrite();
+  }
+  return migration;
+}
+
+/** Copy `location` to "<name>.v<version>.bak<ext>" and return the copy's path. */
+function backupAnalyticsFile(location: string, version: number): string {
+  let backup = siblingPath(location, `v${version}.bak`);
+  if (fs.existsSync(backup)) backup = siblingPath(location, `v${version}.bak-${timestamp()}`);
+  fs.copyFileSync(location, backup);
+  return backup;
+}
+
+/** "data/analytics.json" + ".sqlite" → "data/analytics.sqlite". */
+export function withExtension(filePath: string, ext: string): string {
+  return filePath.slice(0, filePath.length - path.extname(filePath).length) + ext;
+}
+
+/** "data/analytics.json" + "v1.bak" → "data/analytics.v1.bak.json". */
+export function siblingPath(filePath: string, tag: string): string {
+  const ext = path.extname(filePath);
+  return `${filePath.slice(0, filePath.length - ext.length)}.${tag}${ext}`;
+}
+
+function timestamp(): string {
+  return new Date().toISOString().replace(/[-:]|\.\d+/g, "");
+}
+
+/** Apply an EventFilter in memory (the file backends have no index). */
+function filterEvents(events: AnalyticsEvent[], filter: EventFilter = {}): AnalyticsEvent[] {
+  const runIds = filter.runIds && new Set(filter.runIds);
+  const types = filter.types && new Set<string>(filter.types);
+  return events.filter(
+    (e) =>
+      (!runIds || runIds.has(e.runId)) &&
+      (!types || types.has(e.type)) &&
+      (!filter.since || e.at >= filter.since) &&
+      (!filter.until || e.at < filter.until)
+  );
+}
+
+/** One summary per run, in order of first appearance, limited to `window`. */
+function summariseRuns(
+  events: AnalyticsEvent[],
+  window: ReportWindow = { kind: "all" },
+  now?: Date
+): RunSummary[] {
+  const runs = new Map<string, RunSummary>();
+  for (const event of events) {
+    let run = runs.get(event.runId);
+    if (!run) {
+      run = { runId: event.runId, startedAt: event.at, finishedAt: null, events: 0 };
+      runs.set(event.runId, run);
+    }
+    run.events++;
+    if (event.type === "run-started") run.startedAt = event.at;
+    if (event.type === "run-finished") run.finishedAt = event.at;
+  }
+  return selectWindow([...runs.values()], window, now);
+}
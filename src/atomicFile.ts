@@ -0,0 +1,167 @@
+/**
+ * atomicFile.ts — Crash-safe writes and advisory locks for local state.
+ *
+ * `writeFileAtomic` writes to a temporary file next to the target,
+ * fsyncs it and renames it over the target, so readers only ever see
+ * the old or the new contents — never a half-written file.
+ *
+ * `withFileLock` serialises read-modify-write cycles between processes
+ * (e.g. a scheduled and a manually dispatched run) with an advisory
+ * "<file>.lock" created exclusively.  The lock records its owner's PID,
+ * host and time; a lock whose process is gone (same host) or that is
+ * older than LOCK_STALE_MS is considered abandoned and taken over.  An
+ * unreadable lock (empty or cut short by a crash) is judged by its age
+ * alone, and a lock is removed only if it is still the one judged, so
+ * two waiters cannot both take over the same abandoned lock.
+ *
+ * Both are synchronous, matching the fs calls they replace.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { randomBytes } from "crypto";
+import { log } from "./utils";
+
+// ---------------------------------------------------------------------------
+// Atomic writes
+// ---------------------------------------------------------------------------
+
+/** Replace `filePath` with `content` in one atomic step. */
+export function writeFileAtomic(filePath: string, content: string | Uint8Array): void {
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+
+  const tmp = `${filePath}.tmp-${process.pid}-${randomBytes(3).toString("hex")}`;
+  const fd = fs.openSync(tmp, "w");
+  try {
+    fs.writeFileSync(fd, content);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  try {
+    fs.renameSync(tmp, filePath);
+  } catch (err) {
+    fs.rmSync(tmp, { force: true });
+    throw err;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Advisory locks
+// ---------------------------------------------------------------------------
+
+/** Locks held longer than this are assumed abandoned. */
+const LOCK_STALE_MS = 30_000;
+/** How long to wait for another process to release a lock. */
+const LOCK_TIMEOUT_MS = 15_000;
+const LOCK_POLL_MS = 50;
+
+interface LockOwner {
+  pid: number;
+  host: string;
+  acquiredAt: string;
+}
+
+/** A lock that could not be acquired in time. */
+export class FileLockError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FileLockError";
+  }
+}
+
+/** Run `fn` while holding the advisory lock for `filePath`. */
+export function withFileLock<T>(filePath: string, fn: () => T): T {
+  const lockPath = `${filePath}.lock`;
+  acquire(lockPath);
+  try {
+    return fn();
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+function acquire(lockPath: string): void {
+  const dir = path.dirname(lockPath);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+
+  const owner: LockOwner = { pid: process.pid, host: os.hostname(), acquiredAt: new Date().toISOString() };
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      fs.writeFileSync(lockPath, JSON.stringify(owner), { flag: "wx" });
+      return;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+    }
+
+    const stale = staleLock(lockPath);
+    if (stale) {
+      // Another waiter may have replaced it with its own lock meanwhile.
+      if (isSameFile(lockPath, stale.stat)) {
+        log.warn(`Removing stale lock ${lockPath} (${stale.reason}).`);
+        fs.rmSync(lockPath, { force: true });
+      }
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new FileLockError(
+        `Timed out after ${LOCK_TIMEOUT_MS / 1000}s waiting for ${lockPath}; ` +
+          `another run is writing. Delete the lock file if no run is active.`
+      );
+    }
+    sleepSync(LOCK_POLL_MS);
+  }
+}
+
+/** Why the lock at `lockPath` is abandoned and which file it is, or null if it looks live. */
+function staleLock(lockPath: string): { reason: string; stat: fs.Stats } | null {
+  let content: string;
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(lockPath);
+    content = fs.readFileSync(lockPath, "utf-8");
+  } catch {
+    // Released between our attempt and now.
+    return null;
+  }
+
+  let owner: Partial<LockOwner> = {};
+  try {
+    const parsed: unknown = JSON.parse(content);
+    if (typeof parsed === "object" && parsed !== null) owner = parsed as Partial<LockOwner>;
+  } catch {
+    // Still being written, or cut short by a crash: only its age tells.
+  }
+  if (owner.host === os.hostname() && typeof owner.pid === "number" && !isAlive(owner.pid)) {
+    return { reason: `process ${owner.pid} is gone`, stat };
+  }
+  const age = Date.now() - stat.mtimeMs;
+  return age > LOCK_STALE_MS ? { reason: `held for ${Math.round(age / 1000)}s`, stat } : null;
+}
+
+/** Whether `filePath` is still the file `stat` describes. */
+function isSameFile(filePath: string, stat: fs.Stats): boolean {
+  try {
+    const current = fs.statSync(filePath);
+    return current.ino === stat.ino && current.dev === stat.dev && current.mtimeMs === stat.mtimeMs;
+  } catch {
+    return false;
+  }
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: the process exists but belongs to someone else.
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
@@ -0,0 +1,205 @@
+/**
+ * cassette.ts — Record and replay Octokit HTTP traffic.
+ *
+ * In **record** mode every request the orchestrator makes, and the
+ * response (or error) it received, is appended to a JSON "cassette"
+ * file.  Credentials are scrubbed before anything touches disk.
+ *
+ * In **replay** mode no request leaves the process: each call is served
+ * from the cassette, in order, so a recorded real run becomes a
+ * deterministic regression fixture.  Pair it with RANDOM_SEED so the
+ * generated titles, branch names and file paths match the recording.
+ *
+ * Matching is by method + route + parameters against the next unused
+ * interaction; if the parameters drifted, the next interaction with the
+ * same method + route is used and a warning is logged.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { RequestError } from "@octokit/request-error";
+import { config } from "./config";
+import {
+  ApiRequestOptions,
+  ApiResponse,
+  RequestHandler,
+  requestParams,
+  routeKey,
+} from "./requestTypes";
+import { log, nowISO } from "./utils";
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+/** One recorded request/response pair. */
+export interface CassetteInteraction {
+  /** "POST /repos/{owner}/{repo}/issues" */
+  route: string;
+  /** Endpoint parameters that were sent. */
+  params: Record<string, unknown>;
+  /** Fully expanded request URL. */
+  url: string;
+  /** HTTP status (including error statuses). */
+  status: number;
+  /** Response headers, scrubbed. */
+  headers: Record<string, string | number | undefined>;
+  /** Response body. */
+  data: unknown;
+  /** Error message when the request failed. */
+  error?: string;
+}
+
+/** Root structure of a cassette file. */
+export interface Cassette {
+  version: number;
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+}
+
+const REDACTED = "[REDACTED]";
+
+/** Response headers that are never worth keeping in a fixture. */
+const DROPPED_HEADERS = new Set(["set-cookie", "authorization", "date"]);
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+let recording: Cassette | null = null;
+
+/** Perform the request and append the exchange to the cassette. */
+export async function recordRequest<O extends ApiRequestOptions>(
+  request: RequestHandler<O>,
+  options: O
+): Promise<ApiResponse> {
+  try {
+    const response = await request(options);
+    appendInteraction({
+      route: routeKey(options),
+      params: requestParams(options),
+      url: response.url,
+      status: response.status,
+      headers: response.headers,
+      data: response.data,
+    });
+    return response;
+  } catch (err) {
+    if (err instanceof RequestError) {
+      appendInteraction({
+        route: routeKey(options),
+        params: requestParams(options),
+        url: err.request.url,
+        status: err.status,
+        headers: err.response?.headers ?? {},
+        data: err.response?.data,
+        error: err.message,
+      });
+    }
+    throw err;
+  }
+}
+
+function appendInteraction(interaction: CassetteInteraction): void {
+  if (!recording) {
+    recording = { version: 1, recordedAt: nowISO(), interactions: [] };
+  }
+  recording.interactions.push(scrub({
+    ...interaction,
+    headers: keepHeaders(interaction.headers),
+  }));
+
+  // Rewrite after every interaction so an aborted run still leaves a
+  // usable (if shorter) cassette behind.
+  const filePath = config.cassettePath;
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(recording, null, 2), "utf-8");
+}
+
+// ---------------------------------------------------------------------------
+// Replay
+// ---------------------------------------------------------------------------
+
+let replaying: { interactions: CassetteInteraction[]; used: boolean[] } | null =
+  null;
+
+/** Serve a request from the cassette; never touches the network. */
+export async function replayRequest(
+  options: ApiRequestOptions
+): Promise<ApiResponse> {
+  const tape = loadReplayTape();
+  const route = routeKey(options);
+  const params = JSON.stringify(scrub(requestParams(options)));
+
+  let index = tape.interactions.findIndex(
+    (it, i) =>
+      !tape.used[i] && it.route === route && JSON.stringify(it.params) === params
+  );
+  if (index === -1) {
+    index = tape.interactions.findIndex(
+      (it, i) => !tape.used[i] && it.route === route
+    );
+    if (index !== -1) {
+      log.warn(`[cassette] Parameters differ from the recording for ${route}; replaying anyway.`);
+    }
+  }
+  if (index === -1) {
+    throw new Error(
+      `[cassette] No recorded interaction left for ${route} in ${config.cassettePath}.`
+    );
+  }
+
+  tape.used[index] = true;
+  const it = tape.interactions[index];
+  log.debug(`[cassette] Replaying #${index + 1} ${route} → ${it.status}`);
+
+  if (it.error !== undefined) {
+    throw new RequestError(it.error, it.status, {
+      request: { method: options.method as "GET", url: it.url, headers: {} },
+      response: { status: it.status, url: it.url, headers: it.headers, data: it.data },
+    });
+  }
+  return { status: it.status, url: it.url, headers: it.headers, data: it.data };
+}
+
+function loadReplayTape(): NonNullable<typeof replaying> {
+  if (!replaying) {
+    const raw = fs.readFileSync(config.cassettePath, "utf-8");
+    const cassette = JSON.parse(raw) as Cassette;
+    if (!Array.isArray(cassette.interactions)) {
+      throw new Error(`[cassette] ${config.cassettePath} is not a cassette file.`);
+    }
+    replaying = {
+      interactions: cassette.interactions,
+      used: cassette.interactions.map(() => false),
+    };
+    log.info(
+      `[cassette] Replaying ${cassette.interactions.length} interactions from ${config.cassettePath}`
+    );
+  }
+  return replaying;
+}
+
+// ---------------------------------------------------------------------------
+// Scrubbing
+// ---------------------------------------------------------------------------
+
+function keepHeaders(
+  headers: CassetteInteraction["headers"]
+): Record<string, string> {
+  const kept: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined && !DROPPED_HEADERS.has(name.toLowerCase())) {
+      kept[name] = String(value);
+    }
+  }
+  return kept;
+}
+
+/** Replace every occurrence of the configured token with a placeholder. */
+function scrub<T>(value: T): T {
+  const token = config.githubToken;
+  const json = JSON.stringify(value);
+  if (json === undefined || !token) return value;
+  return JSON.parse(json.split(token).join(REDACTED)) as T;
+}
@@ -0,0 +1,235 @@
+/**
+ * checkTracker.ts — Follow CI checks on a pull request's head commit.
+ *
+ * GitHub reports CI results in two ways, and repositories mix them:
+ *
+ *   • check suites and check runs (GitHub Actions and other Apps),
+ *   • commit statuses (older integrations), one per context.
+ *
+ * `waitForChecks()` polls both until every check has completed, none
+ * has appeared by CHECKS_START_TIMEOUT_MS, or CHECKS_TIMEOUT_MS runs
+ * out.  The snapshot it returns feeds the run's analytics (time to the
+ * first check and to all checks completing, per-check durations and
+ * conclusions) and the `checksPassed` merge gate, which only considers
+ * the base branch's required checks when branch protection names any.
+ */
+
+import { config } from "./config";
+import { ChecksConclusion, isPassingConclusion } from "./analyticsEvents";
+import { octokit, owner, repo, withRateLimit } from "./githubClient";
+import { NotFoundError, PermissionError } from "./githubErrors";
+import { tracedSleep } from "./tracing";
+import { log } from "./utils";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** One check run or commit status context, as last seen. */
+export interface CheckResult {
+  /** Check run name or status context. */
+  name: string;
+  source: "check-run" | "status";
+  /**
+   * Check run conclusion ("success", "failure", "neutral", …) or status
+   * state ("success", "failure", "error"); null while still running.
+   */
+  conclusion: string | null;
+  /** ISO-8601 times; null when GitHub has not reported them. */
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+/** The checks on a PR's head commit when waiting stopped. */
+export interface ChecksSnapshot {
+  sha: string;
+  /** Branch the PR merges into, whose protection names required checks. */
+  baseBranch: string;
+  checks: CheckResult[];
+  /** When the first check suite, run or status appeared. */
+  firstSeenAt: string | null;
+  /** When the last check completed, if all did. */
+  completedAt: string | null;
+  /** Overall result (see ChecksConclusion). */
+  conclusion: ChecksConclusion;
+}
+
+/**
+ * Snapshots whose checks all completed (or never started), by commit
+ * SHA, so the merge gate does not wait again after a `wait-checks` step.
+ */
+const settledSnapshots = new Map<string, ChecksSnapshot>();
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Poll the checks on PR `prNumber`'s head commit until they settle or
+ * the configured timeouts pass.  A commit whose checks already settled
+ * is not polled again.  In dry-run mode the checks are read once: a
+ * planned PR never gets any.
+ */
+export async function waitForChecks(prNumber: number): Promise<ChecksSnapshot> {
+  const { data: pull } = await withRateLimit("get-pr-head", () =>
+    octokit.pulls.get({ owner, repo, pull_number: prNumber })
+  );
+  const sha = pull.head.sha;
+  const baseBranch = pull.base.ref;
+  const settledBefore = settledSnapshots.get(sha);
+  if (settledBefore) return settledBefore;
+
+  const { timeoutMs, startTimeoutMs, pollMs } = config.checks;
+  const startedAt = Date.now();
+
+  for (;;) {
+    const { checks, firstSeenAt } = await readChecks(sha);
+    const elapsed = Date.now() - startedAt;
+    const settled = checks.length > 0 && checks.every((c) => c.conclusion !== null);
+    const noneStarted = checks.length === 0 && (elapsed >= startTimeoutMs || config.dryRun);
+    const timedOut = elapsed >= timeoutMs || config.dryRun;
+
+    if (settled || noneStarted || timedOut) {
+      const snapshot = summarise(sha, baseBranch, checks, firstSeenAt);
+      const waited = snapshot.conclusion === "timed-out" ? `, gave up after ${Math.round(elapsed / 1000)}s` : "";
+      log.info(`PR #${prNumber} checks: ${snapshot.conclusion} (${checks.length} on ${sha.slice(0, 7)}${waited}).`);
+      if (snapshot.conclusion !== "timed-out") settledSnapshots.set(sha, snapshot);
+      return snapshot;
+    }
+
+    log.debug(
+      `PR #${prNumber}: ${checks.filter((c) => c.conclusion === null).length} of ` +
+        `${checks.length} checks still running. Waiting…`
+    );
+    await tracedSleep(pollMs, "checks running");
+  }
+}
+
+/**
+ * Check names required by `branch`'s protection, or null when the branch
+ * is unprotected or its protection cannot be read (then every check
+ * counts).
+ */
+export async function getRequiredChecks(branch: string): Promise<string[] | null> {
+  try {
+    const { data } = await withRateLimit("get-required-checks", () =>
+      octokit.repos.getStatusChecksProtection({ owner, repo, branch })
+    );
+    const names = [...(data.contexts ?? []), ...(data.checks ?? []).map((c) => c.context)];
+    return names.length > 0 ? [...new Set(names)] : null;
+  } catch (err) {
+    // 404: no protection; 403: the token may not read it.
+    if (!(err instanceof NotFoundError || err instanceof PermissionError)) throw err;
+    log.debug(`Required checks of ${branch} unavailable (HTTP ${err.status}); gating on every check.`);
+    return null;
+  }
+}
+
+/**
+ * Whether `snapshot` lets the PR merge: every required check (every
+ * check, if `required` is null) completed with a passing conclusion.
+ * A commit without any checks passes.
+ */
+export function checksPassed(
+  snapshot: ChecksSnapshot,
+  required: string[] | null
+): { passed: boolean; reason: string } {
+  const gating = required
+    ? snapshot.checks.filter((c) => required.includes(c.name))
+    : snapshot.checks;
+  const missing = (required ?? []).filter((name) => !gating.some((c) => c.name === name));
+  if (missing.length > 0) {
+    return { passed: false, reason: `required ${plural(missing.length)} never reported: ${missing.join(", ")}` };
+  }
+  const pending = gating.filter((c) => c.conclusion === null);
+  if (pending.length > 0) {
+    return { passed: false, reason: `still running: ${pending.map((c) => c.name).join(", ")}` };
+  }
+  const failed = gating.filter((c) => !isPassingConclusion(c.conclusion));
+  if (failed.length > 0) {
+    return {
+      passed: false,
+      reason: `failed: ${failed.map((c) => `${c.name} (${c.conclusion})`).join(", ")}`,
+    };
+  }
+  return {
+    passed: true,
+    reason: gating.length === 0 ? "no checks" : `${gating.length} ${plural(gating.length)} passed`,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+/** The commit's latest check runs and statuses, and when the first appeared. */
+async function readChecks(sha: string): Promise<{ checks: CheckResult[]; firstSeenAt: string | null }> {
+  const { data: runs } = await withRateLimit("list-check-runs", () =>
+    octokit.checks.listForRef({ owner, repo, ref: sha, filter: "latest", per_page: 100 })
+  );
+  const { data: suites } = await withRateLimit("list-check-suites", () =>
+    octokit.checks.listSuitesForRef({ owner, repo, ref: sha, per_page: 100 })
+  );
+  const { data: combined } = await withRateLimit("get-commit-status", () =>
+    octokit.repos.getCombinedStatusForRef({ owner, repo, ref: sha, per_page: 100 })
+  );
+
+  const checks: CheckResult[] = [
+    ...runs.check_runs.map((run) => ({
+      name: run.name,
+      source: "check-run" as const,
+      conclusion: run.status === "completed" ? run.conclusion ?? "neutral" : null,
+      startedAt: run.started_at ?? null,
+      completedAt: run.status === "completed" ? run.completed_at ?? null : null,
+    })),
+    ...combined.statuses.map((status) => ({
+      name: status.context,
+      source: "status" as const,
+      conclusion: status.state === "pending" ? null : status.state,
+      startedAt: status.created_at,
+      completedAt: status.state === "pending" ? null : status.updated_at,
+    })),
+  ];
+
+  // Apps create an empty suite for every push; only suites with runs count.
+  const appeared = [
+    ...suites.check_suites.filter((s) => (s.latest_check_runs_count ?? 0) > 0).map((s) => s.created_at),
+    ...checks.map((c) => c.startedAt),
+  ].filter((at): at is string => typeof at === "string");
+
+  return { checks, firstSeenAt: earliest(appeared) };
+}
+
+function summarise(
+  sha: string,
+  baseBranch: string,
+  checks: CheckResult[],
+  firstSeenAt: string | null
+): ChecksSnapshot {
+  const complete = checks.every((c) => c.conclusion !== null);
+  const conclusion: ChecksConclusion =
+    checks.length === 0
+      ? "none"
+      : !complete
+        ? "timed-out"
+        : checks.every((c) => isPassingConclusion(c.conclusion))
+          ? "success"
+          : "failure";
+  const completedAt =
+    checks.length > 0 && complete
+      ? latest(checks.map((c) => c.completedAt).filter((at): at is string => at !== null))
+      : null;
+  return { sha, baseBranch, checks, firstSeenAt, completedAt, conclusion };
+}
+
+function earliest(times: string[]): string | null {
+  return times.length === 0 ? null : times.reduce((a, b) => (Date.parse(b) < Date.parse(a) ? b : a));
+}
+
+function latest(times: string[]): string | null {
+  return times.length === 0 ? null : times.reduce((a, b) => (Date.parse(b) > Date.parse(a) ? b : a));
+}
+
+function plural(n: number): string {
+  return n === 1 ? "check" : "checks";
+}
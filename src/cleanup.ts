@@ -0,0 +1,371 @@
+/**
+ * cleanup.ts — Find and remove everything the orchestrator created.
+ *
+ * Builds a plan of:
+ *   • open issues labelled `orchestrator`,
+ *   • open PRs whose head branch starts with `config.branchPrefix`
+ *     (closing one also deletes its branch),
+ *   • stale branches under that prefix with no open PR,
+ *   • generated files under `src/generated/` on the default branch,
+ * then closes, deletes or removes them in bulk.
+ *
+ * Filters narrow the plan by age and by run ID.  Issues and PRs carry
+ * their run ID in a hidden body marker (see `runMarker()`); branches
+ * inherit it from their PR; files are attributed through the merged
+ * orchestrator PRs that added them.  Objects that cannot be attributed
+ * are left alone whenever a filter is active.
+ */
+
+import { config } from "./config";
+import {
+  octokit,
+  owner,
+  repo,
+  withRateLimit,
+  deleteFiles,
+} from "./githubClient";
+import { NotFoundError } from "./githubErrors";
+import { ORCHESTRATOR_LABEL, closeIssue } from "./issueManager";
+import { closePullRequest } from "./prManager";
+import { GENERATED_DIR, log, parseRunMarker } from "./utils";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type CleanupKind = "issues" | "prs" | "branches" | "files";
+
+export const CLEANUP_KINDS: readonly CleanupKind[] = [
+  "issues",
+  "prs",
+  "branches",
+  "files",
+];
+
+/** Narrow what gets cleaned up.  Every set filter must match. */
+export interface CleanupFilters {
+  /** Only objects at least this old. */
+  olderThanMs?: number;
+  /** Only objects created by one of these runs. */
+  runIds?: string[];
+  /** Only these kinds of object (default: all). */
+  kinds?: CleanupKind[];
+}
+
+/** Something the plan would close or delete. */
+export interface CleanupTarget {
+  /** Issue/PR number, branch name or file path. */
+  id: string;
+  /** Human-readable description. */
+  label: string;
+  /** ISO-8601 creation (or last commit) time, when known. */
+  createdAt: string | null;
+  runId: string | null;
+}
+
+export interface CleanupPlan {
+  defaultBranch: string;
+  issues: CleanupTarget[];
+  /** PRs to close; `id` is the PR number, branch in `branch`. */
+  pulls: (CleanupTarget & { branch: string })[];
+  branches: CleanupTarget[];
+  files: CleanupTarget[];
+}
+
+export interface CleanupResult {
+  issuesClosed: number;
+  pullsClosed: number;
+  branchesDeleted: number;
+  filesRemoved: number;
+  failures: number;
+}
+
+/** The fields we read from list endpoints. */
+interface PullSummary {
+  number: number;
+  title: string;
+  state: string;
+  body?: string | null;
+  created_at: string;
+  merged_at: string | null;
+  head: { ref: string };
+}
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+/** Collect everything matching `filters` without changing anything. */
+export async function buildCleanupPlan(
+  filters: CleanupFilters = {},
+  now: number = Date.now()
+): Promise<CleanupPlan> {
+  const kinds = new Set(filters.kinds ?? CLEANUP_KINDS);
+  const filtered = filters.olderThanMs !== undefined || !!filters.runIds?.length;
+
+  const matches = (createdAt: string | null, runId: string | null): boolean =>
+    (filters.olderThanMs === undefined ||
+      (createdAt !== null && now - Date.parse(createdAt) >= filters.olderThanMs)) &&
+    (!filters.runIds?.length || (runId !== null && filters.runIds.includes(runId)));
+
+  const { data: repoData } = await withRateLimit("get-repo", () =>
+    octokit.repos.get({ owner, repo })
+  );
+  const defaultBranch = repoData.default_branch;
+
+  const plan: CleanupPlan = { defaultBranch, issues: [], pulls: [], branches: [], files: [] };
+
+  // ---- Issues ----------------------------------------------------------------
+  if (kinds.has("issues")) {
+    const issues = await withRateLimit("list-issues", () =>
+      octokit.paginate(octokit.issues.listForRepo, {
+        owner,
+        repo,
+        state: "open",
+        labels: ORCHESTRATOR_LABEL,
+        per_page: 100,
+      })
+    );
+    for (const issue of issues) {
+      if (issue.pull_request) continue; // PRs are handled below.
+      const runId = parseRunMarker(issue.body);
+      if (!matches(issue.created_at, runId)) continue;
+      plan.issues.push({
+        id: String(issue.number),
+        label: `#${issue.number} ${issue.title}`,
+        createdAt: issue.created_at,
+        runId,
+      });
+    }
+  }
+
+  // ---- Pull requests ------------------------------------------------------
+  // Closed PRs are only needed to attribute branches and files to runs.
+  const needHistory = filtered && (kinds.has("branches") || kinds.has("files"));
+  const pulls: PullSummary[] = (
+    await withRateLimit("list-pulls", () =>
+      octokit.paginate(octokit.pulls.list, {
+        owner,
+        repo,
+        state: needHistory ? "all" : "open",
+        per_page: 100,
+      })
+    )
+  ).filter((p) => p.head.ref.startsWith(config.branchPrefix));
+
+  const openPullBranches = new Set(
+    pulls.filter((p) => p.state === "open").map((p) => p.head.ref)
+  );
+
+  if (kinds.has("prs")) {
+    for (const pull of pulls) {
+      if (pull.state !== "open") continue;
+      const runId = parseRunMarker(pull.body);
+      if (!matches(pull.created_at, runId)) continue;
+      plan.pulls.push({
+        id: String(pull.number),
+        label: `#${pull.number} ${pull.title}`,
+        createdAt: pull.created_at,
+        runId,
+        branch: pull.head.ref,
+      });
+    }
+  }
+
+  // ---- Stale branches -------------------------------------------------------
+  if (kinds.has("branches")) {
+    const refs = await withRateLimit("list-branches", () =>
+      octokit.paginate(octokit.git.listMatchingRefs, {
+        owner,
+        repo,
+        ref: `heads/${config.branchPrefix}`,
+        per_page: 100,
+      })
+    );
+    for (const ref of refs) {
+      const branch = ref.ref.replace(/^refs\/heads\//, "");
+      if (openPullBranches.has(branch)) continue; // Not stale.
+
+      const pull = pulls.find((p) => p.head.ref === branch);
+      const runId = parseRunMarker(pull?.body);
+      let createdAt: string | null = null;
+      if (filters.olderThanMs !== undefined) {
+        const { data: commit } = await withRateLimit("get-commit", () =>
+          octokit.git.getCommit({ owner, repo, commit_sha: ref.object.sha })
+        );
+        createdAt = commit.committer.date;
+      }
+      if (!matches(createdAt, runId)) continue;
+      plan.branches.push({ id: branch, label: branch, createdAt, runId });
+    }
+  }
+
+  // ---- Generated files ------------------------------------------------------
+  if (kinds.has("files")) {
+    const present = await listGeneratedFiles(defaultBranch);
+
+    if (!filtered) {
+      for (const file of present) {
+        plan.files.push({ id: file, label: file, createdAt: null, runId: null });
+      }
+    } else {
+      for (const pull of pulls) {
+        if (!pull.merged_at) continue;
+        const runId = parseRunMarker(pull.body);
+        if (!matches(pull.merged_at, runId)) continue;
+
+        const files = await withRateLimit("list-pr-files", () =>
+          octokit.paginate(octokit.pulls.listFiles, {
+            owner,
+            repo,
+            pull_number: pull.number,
+            per_page: 100,
+          })
+        );
+        for (const file of files) {
+          if (!present.has(file.filename)) continue;
+          if (plan.files.some((f) => f.id === file.filename)) continue;
+          plan.files.push({
+            id: file.filename,
+            label: `${file.filename} (from #${pull.number})`,
+            createdAt: pull.merged_at,
+            runId,
+          });
+        }
+      }
+    }
+  }
+
+  return plan;
+}
+
+/** Render a plan for the console. */
+export function formatCleanupPlan(plan: CleanupPlan): string {
+  const section = (title: string, targets: CleanupTarget[]): string[] => [
+    `${title} (${targets.length})`,
+    ...(targets.length === 0
+      ? ["  (none)"]
+      : targets.map(
+          (t) =>
+            `  - ${t.label}` +
+            (t.runId ? `  [run ${t.runId}]` : "") +
+            (t.createdAt ? `  ${t.createdAt}` : "")
+        )),
+  ];
+
+  return [
+    `Cleanup plan for ${owner}/${repo}:`,
+    "",
+    ...section("Issues to close", plan.issues),
+    ...section("PRs to close (branch deleted too)", plan.pulls),
+    ...section("Stale branches to delete", plan.branches),
+    ...section(`Files to remove from ${plan.defaultBranch}`, plan.files),
+  ].join("\n");
+}
+
+/** Total number of objects the plan touches. */
+export function planSize(plan: CleanupPlan): number {
+  return (
+    plan.issues.length + plan.pulls.length + plan.branches.length + plan.files.length
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Execution
+// ---------------------------------------------------------------------------
+
+/**
+ * Carry out a plan.  Each object is handled independently: a failure is
+ * logged and counted, and the rest of the plan still runs.
+ */
+export async function executeCleanupPlan(plan: CleanupPlan): Promise<CleanupResult> {
+  const result: CleanupResult = {
+    issuesClosed: 0,
+    pullsClosed: 0,
+    branchesDeleted: 0,
+    filesRemoved: 0,
+    failures: 0,
+  };
+
+  const attempt = async (what: string, fn: () => Promise<void>): Promise<boolean> => {
+    try {
+      await fn();
+      return true;
+    } catch (err) {
+      result.failures++;
+      log.error(`Cleanup: could not ${what}:`, err);
+      return false;
+    }
+  };
+
+  for (const pull of plan.pulls) {
+    if (await attempt(`close PR #${pull.id}`, () => closePullRequest(Number(pull.id)))) {
+      result.pullsClosed++;
+      await attempt(`delete branch ${pull.branch}`, () => removeBranch(pull.branch));
+    }
+  }
+
+  for (const issue of plan.issues) {
+    if (await attempt(`close issue #${issue.id}`, () => closeIssue(Number(issue.id), "not_planned"))) {
+      result.issuesClosed++;
+    }
+  }
+
+  for (const branch of plan.branches) {
+    if (await attempt(`delete branch ${branch.id}`, () => removeBranch(branch.id))) {
+      result.branchesDeleted++;
+    }
+  }
+
+  if (plan.files.length > 0) {
+    const paths = plan.files.map((f) => f.id);
+    const removed = await attempt(`remove ${paths.length} generated file(s)`, async () => {
+      await deleteFiles({
+        branch: plan.defaultBranch,
+        paths,
+        message: `chore: remove ${paths.length} orchestrator-generated file(s)`,
+      });
+    });
+    if (removed) result.filesRemoved = paths.length;
+  }
+
+  log.info(
+    `Cleanup done: ${result.issuesClosed} issues closed, ${result.pullsClosed} PRs closed, ` +
+      `${result.branchesDeleted} branches deleted, ${result.filesRemoved} files removed, ` +
+      `${result.failures} failures.`
+  );
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+/** Delete `branch`; one that is already gone is already clean. */
+async function removeBranch(branch: string): Promise<void> {
+  try {
+    await withRateLimit("delete-branch", () =>
+      octokit.git.deleteRef({ owner, repo, ref: `heads/${branch}` })
+    );
+  } catch (err) {
+    if (!(err instanceof NotFoundError)) throw err;
+  }
+}
+
+/** Paths of generated files currently on `branch` (placeholder excluded). */
+async function listGeneratedFiles(branch: string): Promise<Set<string>> {
+  try {
+    const { data } = await withRateLimit("list-generated", () =>
+      octokit.repos.getContent({ owner, repo, path: GENERATED_DIR, ref: branch })
+    );
+    if (!Array.isArray(data)) return new Set();
+    return new Set(
+      data
+        .filter((entry) => entry.type === "file" && entry.name !== ".gitkeep")
+        .map((entry) => entry.path)
+    );
+  } catch (err) {
+    if (err instanceof NotFoundError) return new Set();
+    throw err;
+  }
+}
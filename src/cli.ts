@@ -0,0 +1,810 @@
+#!/usr/bin/env node
+/**
+ * cli.ts — Command-line entry point: `orchestrator <command> [flags]`.
+ *
+ * Commands:
+ *   run          Run the orchestration loop.
+ *   plan         Same as `run` with DRY_RUN forced on.
+ *   seed         Prepare the repository (labels, generated directory).
+ *   report       Print analytics and rewrite the Markdown and HTML reports.
+ *   migrate      Upgrade the analytics store to the current schema.
+ *   convert      Copy the analytics history into another storage backend.
+ *   export       Write analytics as CSV, JSON Lines or Prometheus metrics.
+ *   analyze      Measure workflow health over the repository's history.
+ *   replay       Re-sign recorded webhook deliveries and POST them to a URL.
+ *   cleanup      Close/delete everything the orchestrator created.
+ *   doctor       Check configuration, access and local state.
+ *   config show  Print the effective configuration (secrets redacted).
+ *
+ * Flags override the environment variables `config.ts` reads, so they
+ * are applied to `process.env` before any module that imports config is
+ * loaded — every other module is therefore imported lazily here.
+ *
+ * Exit codes are listed in exitCodes.ts.
+ */
+
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import * as path from "path";
+import type { CleanupFilters, CleanupKind } from "./cleanup";
+import type { AnalyticsBackend } from "./config";
+import type { ExportFilter, ExportFormat } from "./analyticsExport";
+import type { DoctorCheck } from "./doctor";
+import { ExitCode, exitCodeForRun } from "./exitCodes";
+
+// ---------------------------------------------------------------------------
+// Command and flag definitions
+// ---------------------------------------------------------------------------
+
+interface FlagSpec {
+  name: string;
+  /** Environment variable the flag overrides, if any. */
+  env?: string;
+  kind: "string" | "int" | "bool" | "list";
+  /** Allowed values for string flags. */
+  choices?: readonly string[];
+  /** Placeholder shown in help, e.g. <n>. */
+  value?: string;
+  description: string;
+}
+
+interface ParsedArgs {
+  positionals: string[];
+  flags: Map<string, string | boolean | string[]>;
+}
+
+interface CommandSpec {
+  name: string;
+  summary: string;
+  usage?: string;
+  flags: FlagSpec[];
+  /** Environment the command always runs with, regardless of flags. */
+  env?: Record<string, string>;
+  run: (args: ParsedArgs) => Promise<ExitCode>;
+}
+
+/** Thrown for bad command lines; reported with usage and exit code 2. */
+class UsageError extends Error {}
+
+const GLOBAL_FLAGS: FlagSpec[] = [
+  { name: "owner", env: "GITHUB_OWNER", kind: "string", value: "<owner>", description: "Repository owner (user or org)." },
+  { name: "repo", env: "GITHUB_REPO", kind: "string", value: "<name>", description: "Repository name." },
+  { name: "api-url", env: "GITHUB_API_URL", kind: "string", value: "<url>", description: "REST API base URL." },
+  { name: "log-level", env: "LOG_LEVEL", kind: "string", choices: ["debug", "info", "warn", "error"], value: "<level>", description: "Logging verbosity." },
+  { name: "log-format", env: "LOG_FORMAT", kind: "string", choices: ["pretty", "json"], value: "<format>", description: "Console log lines: pretty or JSON." },
+  { name: "log-file", env: "LOG_FILE", kind: "string", value: "<file>", description: "Also write JSON log lines to this file (rotated by size)." },
+  { name: "analytics-backend", env: "ANALYTICS_BACKEND", kind: "string", choices: ["json", "ndjson", "sqlite"], value: "<backend>", description: "Analytics storage backend." },
+  { name: "analytics-path", env: "ANALYTICS_PATH", kind: "string", value: "<file>", description: "Analytics store file." },
+  { name: "env-file", kind: "string", value: "<file>", description: "Load variables from this file (before .env)." },
+  { name: "help", kind: "bool", description: "Show help." },
+];
+
+const DRY_RUN_FLAG: FlagSpec = {
+  name: "dry-run", env: "DRY_RUN", kind: "bool", description: "Plan writes instead of sending them.",
+};
+
+const ALLOW_PUBLIC_FLAG: FlagSpec = {
+  name: "allow-public", env: "ALLOW_PUBLIC", kind: "bool", description: "Permit a public target repository.",
+};
+
+const RUN_FLAGS: FlagSpec[] = [
+  { name: "max-issues", env: "MAX_ISSUES_PER_RUN", kind: "int", value: "<n>", description: "Issues to create this run." },
+  { name: "max-prs", env: "MAX_PRS_PER_RUN", kind: "int", value: "<n>", description: "PRs to open this run." },
+  { name: "auto-merge", env: "AUTO_MERGE", kind: "bool", description: "Merge PRs after opening them (--no-auto-merge to skip)." },
+  { name: "yolo", env: "YOLO_MODE", kind: "bool", description: "Merge without a review comment." },
+  { name: "branch-prefix", env: "BRANCH_PREFIX", kind: "string", value: "<prefix>", description: "Prefix for created branches." },
+  { name: "co-author-name", env: "CO_AUTHOR_NAME", kind: "string", value: "<name>", description: "Co-author for commits." },
+  { name: "co-author-email", env: "CO_AUTHOR_EMAIL", kind: "string", value: "<email>", description: "Co-author email." },
+  { name: "resume-policy", env: "RESUME_POLICY", kind: "string", choices: ["resume", "rollback", "ignore"], value: "<policy>", description: "Handling of unfinished workflows." },
+  { name: "seed", env: "RANDOM_SEED", kind: "string", value: "<seed>", description: "Seed for generated content." },
+  { name: "workflow", env: "WORKFLOW_FILE", kind: "string", value: "<file>", description: "Workflow definition (JSON)." },
+  { name: "track-checks", env: "TRACK_CHECKS", kind: "bool", description: "Wait for the PR's CI checks and record their timings." },
+  { name: "require-checks", env: "REQUIRE_CHECKS", kind: "bool", description: "Merge only once the required CI checks have passed." },
+  { name: "webhook-port", env: "WEBHOOK_PORT", kind: "int", value: "<port>", description: "Receive webhook deliveries and time them (needs WEBHOOK_SECRET)." },
+  { name: "trace-file", env: "TRACE_FILE", kind: "string", value: "<file>", description: "Append the run's trace (OTLP/JSON) to this file." },
+  { name: "otlp-endpoint", env: "OTEL_EXPORTER_OTLP_ENDPOINT", kind: "string", value: "<url>", description: "Export the run's trace to this OTLP/HTTP collector." },
+  ALLOW_PUBLIC_FLAG,
+];
+
+const COMMANDS: CommandSpec[] = [
+  {
+    name: "run",
+    summary: "Run the orchestration loop.",
+    flags: [...RUN_FLAGS, DRY_RUN_FLAG],
+    run: runCommand,
+  },
+  {
+    name: "plan",
+    summary: "Preview a run: every write is planned, nothing is sent.",
+    flags: RUN_FLAGS,
+    env: { DRY_RUN: "true" },
+    run: runCommand,
+  },
+  {
+    name: "seed",
+    summary: "Prepare the repository (labels, generated directory).",
+    flags: [ALLOW_PUBLIC_FLAG, DRY_RUN_FLAG],
+    run: seedCommand,
+  },
+  {
+    name: "report",
+    summary: "Print aggregate analytics and rewrite the Markdown and HTML reports.",
+    flags: [
+      { name: "output", kind: "string", value: "<file>", description: "Markdown report path (default: analytics.md)." },
+      { name: "html", kind: "string", value: "<file>", description: "HTML report path (default: analytics.html)." },
+      { name: "window", env: "REPORT_WINDOW", kind: "string", value: "<window>", description: 'Runs to cover: "all", "runs:<N>" or a span like "7d".' },
+      DRY_RUN_FLAG,
+    ],
+    run: reportCommand,
+  },
+  {
+    name: "migrate",
+    summary: "Upgrade the analytics store to the current schema version (keeps a backup).",
+    flags: [
+      { name: "check", kind: "bool", description: "Only report; exit 1 if a migration is pending." },
+      DRY_RUN_FLAG,
+    ],
+    run: migrateCommand,
+  },
+  {
+    name: "convert",
+    summary: "Copy the analytics history into another storage backend.",
+    flags: [
+      { name: "to", kind: "string", choices: ["json", "ndjson", "sqlite"], value: "<backend>", description: "Target backend (required)." },
+      { name: "output", kind: "string", value: "<file>", description: "Target file (default: the analytics path with the backend's extension)." },
+      { name: "force", kind: "bool", description: "Replace a target that already holds events." },
+      DRY_RUN_FLAG,
+    ],
+    run: convertCommand,
+  },
+  {
+    name: "export",
+    summary: "Write analytics as CSV, JSON Lines or a Prometheus/OpenMetrics snapshot.",
+    flags: [
+      { name: "format", kind: "string", choices: ["runs-csv", "events-csv", "runs-jsonl", "events-jsonl", "prometheus", "openmetrics"], value: "<format>", description: "Output format (required)." },
+      { name: "output", kind: "string", value: "<file>", description: "Write to this file (default: stdout)." },
+      { name: "since", kind: "string", value: "<time>", description: "Only runs started at or after this time (ISO date or a span like 7d)." },
+      { name: "until", kind: "string", value: "<time>", description: "Only runs started before this time (ISO date or a span like 1d)." },
+      { name: "run", kind: "list", value: "<runId>", description: "Only this run (repeatable)." },
+      DRY_RUN_FLAG,
+    ],
+    run: exportCommand,
+  },
+  {
+    name: "analyze",
+    summary: "Measure response, review and merge times over the repository's issue and PR history.",
+    flags: [
+      { name: "since", kind: "string", value: "<time>", description: 'Only items created at or after this time (ISO date, a span like 90d, or "all"; default 90d).' },
+      { name: "stale-after", kind: "string", value: "<duration>", description: "Open items without updates for this long are stale (default 30d)." },
+      { name: "output", kind: "string", value: "<file>", description: "Markdown report path (default: analysis.md)." },
+      ALLOW_PUBLIC_FLAG,
+    ],
+    run: analyzeCommand,
+  },
+  {
+    name: "replay",
+    summary: "Re-sign recorded webhook deliveries and POST them to a consumer, in order.",
+    flags: [
+      { name: "target", kind: "string", value: "<url>", description: "Consumer URL to POST the deliveries to (required)." },
+      { name: "corpus", env: "WEBHOOK_CORPUS_DIR", kind: "string", value: "<dir>", description: "Directory of recorded deliveries." },
+      { name: "secret", env: "WEBHOOK_REPLAY_SECRET", kind: "string", value: "<secret>", description: "Secret to sign with (default: WEBHOOK_SECRET)." },
+      { name: "speed", kind: "string", value: "<factor>", description: "Divide the recorded gaps by this; 0 sends back to back (default 1)." },
+      { name: "event", kind: "list", value: "<type>", description: 'Only this event, e.g. "issues" or "pull_request.closed" (repeatable).' },
+      { name: "run", kind: "list", value: "<runId>", description: "Only deliveries recorded during this run (repeatable)." },
+      { name: "keep-going", kind: "bool", description: "Continue after a failed delivery instead of stopping." },
+      DRY_RUN_FLAG,
+    ],
+    run: replayCommand,
+  },
+  {
+    name: "cleanup",
+    summary: "Close/delete the issues, PRs, branches and files the orchestrator created.",
+    flags: [
+      { name: "older-than", kind: "string", value: "<duration>", description: "Only objects at least this old (30m, 12h, 7d, 2w)." },
+      { name: "run", kind: "list", value: "<runId>", description: "Only objects from this run (repeatable)." },
+      { name: "only", kind: "string", value: "<kinds>", description: "Comma-separated subset of issues,prs,branches,files." },
+      { name: "yes", kind: "bool", description: "Skip the confirmation prompt." },
+      ALLOW_PUBLIC_FLAG,
+      DRY_RUN_FLAG,
+    ],
+    run: cleanupCommand,
+  },
+  {
+    name: "doctor",
+    summary: "Check configuration, repository access and local state.",
+    flags: [ALLOW_PUBLIC_FLAG, { name: "workflow", env: "WORKFLOW_FILE", kind: "string", value: "<file>", description: "Workflow definition to validate." }],
+    run: doctorCommand,
+  },
+  {
+    name: "config",
+    usage: "config show [--json]",
+    summary: "Print the effective configuration (secrets redacted).",
+    flags: [{ name: "json", kind: "bool", description: "Print as JSON." }],
+    run: configCommand,
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Commands
+// ---------------------------------------------------------------------------
+
+async function runCommand(): Promise<ExitCode> {
+  const { main } = await import("./index");
+  return exitCodeForRun(await main());
+}
+
+async function seedCommand(): Promise<ExitCode> {
+  const { seedRepository } = await import("./seed");
+  await seedRepository();
+  return ExitCode.OK;
+}
+
+async function reportCommand(args: ParsedArgs): Promise<ExitCode> {
+  const { config, dryRunPath } = await import("./config");
+  const { prepareAnalytics, printConsoleSummary, writeMarkdownReport } = await import("./analytics");
+  const { writeHtmlReport } = await import("./htmlReport");
+
+  await prepareAnalytics();
+  printConsoleSummary();
+  const reportPath = (flag: string, name: string) => {
+    const output = args.flags.get(flag) as string | undefined;
+    const defaultPath = path.resolve(name);
+    return output ? path.resolve(output) : config.dryRun ? dryRunPath(defaultPath) : defaultPath;
+  };
+  writeMarkdownReport(reportPath("output", "analytics.md"));
+  writeHtmlReport(reportPath("html", "analytics.html"));
+  return ExitCode.OK;
+}
+
+async function migrateCommand(args: ParsedArgs): Promise<ExitCode> {
+  const { getAnalyticsStore, prepareAnalytics } = await import("./analytics");
+
+  await prepareAnalytics();
+  const store = getAnalyticsStore();
+  const filePath = store.location;
+  if (!fs.existsSync(filePath)) {
+    console.log(`${filePath} does not exist; nothing to migrate.`);
+    return ExitCode.OK;
+  }
+
+  const check = args.flags.get("check") === true;
+  const result = store.migrate(!check);
+  if (result.applied.length === 0) {
+    console.log(`${filePath} is already at version ${result.toVersion}.`);
+    return ExitCode.OK;
+  }
+  for (const step of result.applied) console.log(`  ${step}`);
+  if (check) {
+    console.log(`${filePath} is version ${result.fromVersion}; run "orchestrator migrate" to upgrade it.`);
+    return ExitCode.ERROR;
+  }
+  console.log(
+    `Migrated ${filePath} from version ${result.fromVersion} to ${result.toVersion}; ` +
+      `original kept at ${result.backupPath}.`
+  );
+  return ExitCode.OK;
+}
+
+async function convertCommand(args: ParsedArgs): Promise<ExitCode> {
+  const to = args.flags.get("to") as AnalyticsBackend | undefined;
+  if (!to) throw new UsageError("convert needs --to <backend>.");
+  const { config } = await import("./config");
+  const { getAnalyticsStore } = await import("./analytics");
+  const analyticsStore = await import("./analyticsStore");
+
+  await analyticsStore.prepareAnalyticsBackends(config.analyticsBackend, to);
+  const source = getAnalyticsStore();
+  const output = args.flags.get("output") as string | undefined;
+  const targetPath = path.resolve(output ?? analyticsStore.withExtension(source.location, `.${to}`));
+  const target = analyticsStore.openAnalyticsStore(to, targetPath);
+
+  if (path.resolve(source.location) === target.location) {
+    console.error(`${target.location} is the configured store; choose another --output.`);
+    return ExitCode.ERROR;
+  }
+  if (args.flags.get("force") !== true && target.listRuns().length > 0) {
+    console.error(`${target.location} already holds analytics events; pass --force to replace them.`);
+    return ExitCode.ERROR;
+  }
+
+  const copied = analyticsStore.convertAnalyticsStore(source, target);
+  console.log(
+    `Copied ${copied.events} events (${copied.runs} runs) from ${source.backend} ${source.location} ` +
+      `to ${target.backend} ${target.location}.`
+  );
+  console.log(`To use it, set ANALYTICS_BACKEND=${to} and ANALYTICS_PATH=${target.location}.`);
+  return ExitCode.OK;
+}
+
+async function exportCommand(args: ParsedArgs): Promise<ExitCode> {
+  const format = args.flags.get("format") as ExportFormat | undefined;
+  if (!format) throw new UsageError("export needs --format <format>.");
+  const { prepareAnalytics } = await import("./analytics");
+  const { exportAnalytics } = await import("./analyticsExport");
+
+  const filter: ExportFilter = {
+    since: await parseTime(args, "since"),
+    until: await parseTime(args, "until"),
+    runIds: args.flags.get("run") as string[] | undefined,
+  };
+
+  await prepareAnalytics();
+  const content = exportAnalytics(format, filter);
+  const output = args.flags.get("output") as string | undefined;
+  if (output === undefined || output === "-") {
+    process.stdout.write(content);
+  } else {
+    fs.writeFileSync(path.resolve(output), content, "utf-8");
+    console.error(`Wrote ${format} export to ${path.resolve(output)}.`);
+  }
+  return ExitCode.OK;
+}
+
+async function analyzeCommand(args: ParsedArgs): Promise<ExitCode> {
+  const { log, parseDuration } = await import("./utils");
+  const { assertRepoScope } = await import("./repoScope");
+  const analysis = await import("./repoAnalysis");
+
+  const since = args.flags.get("since") === "all" ? undefined : await parseTime(args, "since", "90d");
+  const staleAfter = (args.flags.get("stale-after") as string | undefined) ?? "30d";
+  const staleAfterMs = parseDuration(staleAfter);
+  if (staleAfterMs === null) {
+    throw new UsageError(`Invalid duration for --stale-after: "${staleAfter}" (e.g. 12h, 7d, 2w).`);
+  }
+
+  log.info("=== Analyze ===");
+  // The preflight also learns the repository ID that pagination links use.
+  await assertRepoScope();
+  const result = await analysis.analyzeRepository({ since, staleAfterMs });
+  analysis.printAnalysisSummary(result);
+  const output = args.flags.get("output") as string | undefined;
+  analysis.writeAnalysisReport(result, output ? path.resolve(output) : undefined);
+  return ExitCode.OK;
+}
+
+async function replayCommand(args: ParsedArgs): Promise<ExitCode> {
+  const target = args.flags.get("target") as string | undefined;
+  if (!target) throw new UsageError("replay needs --target <url>.");
+  if (!/^https?:\/\//.test(target)) throw new UsageError(`--target must be an http(s) URL, got "${target}".`);
+  const rawSpeed = (args.flags.get("speed") as string | undefined) ?? "1";
+  const speed = Number(rawSpeed);
+  if (!Number.isFinite(speed) || speed < 0) {
+    throw new UsageError(`--speed expects a non-negative number, got "${rawSpeed}".`);
+  }
+  const { config } = await import("./config");
+  const { log } = await import("./utils");
+  const corpus = await import("./webhookCorpus");
+  const { corpusDir, replaySecret } = config.webhook;
+  if (!corpusDir) throw new UsageError("replay needs --corpus <dir> (or WEBHOOK_CORPUS_DIR).");
+  if (!replaySecret) throw new UsageError("replay needs --secret <secret> (or WEBHOOK_REPLAY_SECRET).");
+
+  const deliveries = corpus.selectDeliveries(corpus.loadCorpus(path.resolve(corpusDir)), {
+    events: (args.flags.get("event") as string[] | undefined) ?? null,
+    runIds: (args.flags.get("run") as string[] | undefined) ?? null,
+  });
+  log.info("=== Replay ===");
+  const count = `${deliveries.length} ${deliveries.length === 1 ? "delivery" : "deliveries"}`;
+  log.info(`${count} from ${path.resolve(corpusDir)} → ${target}`);
+
+  if (config.dryRun) {
+    for (const d of deliveries) {
+      log.info(`Would replay ${d.event}${d.action ? `.${d.action}` : ""} ${d.id} (received ${d.receivedAt}).`);
+    }
+    return ExitCode.OK;
+  }
+
+  const result = await corpus.replayCorpus(deliveries, {
+    target,
+    secret: replaySecret,
+    speed,
+    keepGoing: args.flags.get("keep-going") === true,
+  });
+  log.info(
+    `Replayed ${result.sent} of ${count}` +
+      (result.failed > 0 ? `; ${result.failed} failed` : "") +
+      (result.skipped > 0 ? `; stopped before the remaining ${result.skipped}` : "") +
+      "."
+  );
+  return result.failed > 0 ? ExitCode.ERROR : ExitCode.OK;
+}
+
+async function cleanupCommand(args: ParsedArgs): Promise<ExitCode> {
+  const { config } = await import("./config");
+  const { log, parseDuration } = await import("./utils");
+  const { assertRepoScope } = await import("./repoScope");
+  const { printPlanSummary } = await import("./dryRun");
+  const cleanup = await import("./cleanup");
+
+  const filters: CleanupFilters = {};
+  const olderThan = args.flags.get("older-than") as string | undefined;
+  if (olderThan !== undefined) {
+    const ms = parseDuration(olderThan);
+    if (ms === null) {
+      throw new UsageError(`Invalid duration for --older-than: "${olderThan}" (e.g. 30m, 12h, 7d, 2w).`);
+    }
+    filters.olderThanMs = ms;
+  }
+  const runIds = args.flags.get("run") as string[] | undefined;
+  if (runIds) filters.runIds = runIds;
+  const only = args.flags.get("only") as string | undefined;
+  if (only !== undefined) {
+    const kinds = only.split(",").map((k) => k.trim()).filter(Boolean);
+    const invalid = kinds.filter((k) => !cleanup.CLEANUP_KINDS.includes(k as CleanupKind));
+    if (invalid.length > 0) {
+      throw new UsageError(
+        `Unknown kind(s) for --only: ${invalid.join(", ")} (expected ${cleanup.CLEANUP_KINDS.join(", ")}).`
+      );
+    }
+    filters.kinds = kinds as CleanupKind[];
+  }
+
+  log.info("=== Cleanup ===");
+  await assertRepoScope();
+  log.info("Collecting orchestrator-created objects…");
+  const plan = await cleanup.buildCleanupPlan(filters);
+
+  console.log("");
+  console.log(cleanup.formatCleanupPlan(plan));
+  console.log("");
+
+  const size = cleanup.planSize(plan);
+  if (size === 0) {
+    log.info("Nothing to clean up.");
+    return ExitCode.OK;
+  }
+
+  if (args.flags.get("yes") !== true && !config.dryRun) {
+    if (!process.stdin.isTTY) {
+      log.error("Refusing to clean up without confirmation; pass --yes.");
+      return ExitCode.USAGE;
+    }
+    if (!(await confirm(`Proceed with ${size} change(s)? [y/N] `))) {
+      log.info("Aborted; nothing was changed.");
+      return ExitCode.OK;
+    }
+  }
+
+  const result = await cleanup.executeCleanupPlan(plan);
+  if (config.dryRun) printPlanSummary();
+  if (result.failures === 0) return ExitCode.OK;
+  return result.failures >= size ? ExitCode.FAILED : ExitCode.PARTIAL;
+}
+
+async function doctorCommand(): Promise<ExitCode> {
+  const nodeMajor = Number(process.versions.node.split(".")[0]);
+  const checks: DoctorCheck[] = [
+    {
+      name: "Node.js",
+      status: nodeMajor >= 18 ? "ok" : "fail",
+      detail: `${process.version}${nodeMajor >= 18 ? "" : " (18 or newer required)"}`,
+    },
+  ];
+
+  // Config is validated at import time, so check it before loading the
+  // modules that depend on it.
+  const configError = await tryLoadConfig();
+  checks.push({
+    name: "Configuration",
+    status: configError ? "fail" : "ok",
+    detail: configError ?? "loaded",
+  });
+  if (!configError) {
+    const { runDoctor } = await import("./doctor");
+    checks.push(...(await runDoctor()));
+  }
+
+  const icon = { ok: "✔", warn: "!", fail: "✘" } as const;
+  const width = Math.max(...checks.map((c) => c.name.length));
+  for (const c of checks) console.log(`  ${icon[c.status]} ${c.name.padEnd(width)}  ${c.detail}`);
+
+  const failed = new Set(checks.filter((c) => c.status === "fail").map((c) => c.name));
+  if (failed.size === 0) return ExitCode.OK;
+  if (failed.has("Configuration")) return ExitCode.CONFIG;
+  if (failed.has("Repository scope")) return ExitCode.PREFLIGHT;
+  return ExitCode.ERROR;
+}
+
+async function configCommand(args: ParsedArgs): Promise<ExitCode> {
+  if (args.positionals[0] !== "show") {
+    throw new UsageError(`Unknown config subcommand "${args.positionals[0] ?? ""}". Try "config show".`);
+  }
+  const { config } = await import("./config");
+  const { webhook, tracing } = config;
+  const shown = {
+    ...config,
+    githubToken: redact(config.githubToken),
+    tracing: {
+      ...tracing,
+      otlpHeaders: Object.fromEntries(Object.entries(tracing.otlpHeaders).map(([key, value]) => [key, redact(value)])),
+    },
+    webhook: {
+      ...webhook,
+      secret: webhook.secret && redact(webhook.secret),
+      replaySecret: webhook.replaySecret && redact(webhook.replaySecret),
+    },
+  };
+
+  if (args.flags.get("json") === true) {
+    console.log(JSON.stringify(shown, null, 2));
+    return ExitCode.OK;
+  }
+  const lines = flatten(shown);
+  const width = Math.max(...lines.map(([key]) => key.length));
+  for (const [key, value] of lines) console.log(`${key.padEnd(width)}  ${value}`);
+  return ExitCode.OK;
+}
+
+// ---------------------------------------------------------------------------
+// Argument parsing
+// ---------------------------------------------------------------------------
+
+/** Parse argv for `command`, validating flags against its spec. */
+function parseArgs(argv: string[], specs: readonly FlagSpec[]): ParsedArgs {
+  const parsed: ParsedArgs = { positionals: [], flags: new Map() };
+  const byName = new Map(specs.map((s) => [s.name, s]));
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "-h") {
+      parsed.flags.set("help", true);
+      continue;
+    }
+    if (!arg.startsWith("--")) {
+      parsed.positionals.push(arg);
+      continue;
+    }
+
+    let [name, inline] = splitOnce(arg.slice(2), "=");
+    let spec = byName.get(name);
+    let negated = false;
+    if (!spec && name.startsWith("no-")) {
+      spec = byName.get(name.slice(3));
+      negated = spec?.kind === "bool";
+      if (negated) name = name.slice(3);
+      else spec = undefined;
+    }
+    if (!spec) throw new UsageError(`Unknown option --${name}.`);
+
+    if (spec.kind === "bool") {
+      if (negated && inline !== undefined) {
+        throw new UsageError(`--no-${name} does not take a value.`);
+      }
+      const value = negated ? false : inline === undefined ? true : parseBool(name, inline);
+      parsed.flags.set(name, value);
+      continue;
+    }
+
+    if (inline === undefined) {
+      inline = argv[++i];
+      if (inline === undefined) throw new UsageError(`--${name} needs a value.`);
+    }
+    if (spec.kind === "int" && !/^[1-9]\d*$/.test(inline)) {
+      throw new UsageError(`--${name} expects a positive integer, got "${inline}".`);
+    }
+    if (spec.choices && !spec.choices.includes(inline)) {
+      throw new UsageError(`--${name} must be one of ${spec.choices.join(", ")}.`);
+    }
+    if (spec.kind === "list") {
+      const list = (parsed.flags.get(name) as string[] | undefined) ?? [];
+      parsed.flags.set(name, [...list, inline]);
+    } else {
+      parsed.flags.set(name, inline);
+    }
+  }
+  return parsed;
+}
+
+/** Copy flag values onto the environment variables they override. */
+function applyEnvOverrides(args: ParsedArgs, specs: readonly FlagSpec[]): void {
+  for (const spec of specs) {
+    const value = args.flags.get(spec.name);
+    if (spec.env && value !== undefined) process.env[spec.env] = String(value);
+  }
+}
+
+function parseBool(name: string, raw: string): boolean {
+  if (/^(true|1|yes)$/i.test(raw)) return true;
+  if (/^(false|0|no)$/i.test(raw)) return false;
+  throw new UsageError(`--${name} expects true or false, got "${raw}".`);
+}
+
+function splitOnce(text: string, sep: string): [string, string | undefined] {
+  const at = text.indexOf(sep);
+  return at === -1 ? [text, undefined] : [text.slice(0, at), text.slice(at + 1)];
+}
+
+// ---------------------------------------------------------------------------
+// Help
+// ---------------------------------------------------------------------------
+
+function formatFlags(specs: readonly FlagSpec[]): string[] {
+  const rows = specs.map((s) => {
+    const left = `--${s.name}${s.value ? ` ${s.value}` : ""}`;
+    const env = s.env ? ` [${s.env}]` : "";
+    const choices = s.choices ? ` (${s.choices.join("|")})` : "";
+    return [left, `${s.description}${choices}${env}`];
+  });
+  const width = Math.max(...rows.map(([left]) => left.length));
+  return rows.map(([left, right]) => `  ${left.padEnd(width)}  ${right}`);
+}
+
+function generalHelp(): string {
+  const width = Math.max(...COMMANDS.map((c) => (c.usage ?? c.name).length));
+  return [
+    "Usage: orchestrator <command> [flags]",
+    "",
+    "Commands:",
+    ...COMMANDS.map((c) => `  ${(c.usage ?? c.name).padEnd(width)}  ${c.summary}`),
+    "",
+    "Global flags:",
+    ...formatFlags(GLOBAL_FLAGS),
+    "",
+    'Run "orchestrator <command> --help" for command flags.',
+    "Flags override the matching environment variable shown in brackets.",
+  ].join("\n");
+}
+
+function commandHelp(command: CommandSpec): string {
+  return [
+    `Usage: orchestrator ${command.usage ?? `${command.name} [flags]`}`,
+    "",
+    command.summary,
+    "",
+    "Flags:",
+    ...formatFlags(command.flags),
+    "",
+    "Global flags:",
+    ...formatFlags(GLOBAL_FLAGS),
+  ].join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * The time given with `--<flag>` (or `fallback`): an ISO-8601 date/time,
+ * or a span meaning that long ago.
+ */
+async function parseTime(args: ParsedArgs, flag: string, fallback?: string): Promise<Date | undefined> {
+  const { parseDuration } = await import("./utils");
+  const text = (args.flags.get(flag) as string | undefined) ?? fallback;
+  if (text === undefined) return undefined;
+  const span = parseDuration(text);
+  const time = span !== null ? new Date(Date.now() - span) : new Date(text);
+  if (Number.isNaN(time.getTime())) {
+    throw new UsageError(`Invalid time for --${flag}: "${text}" (e.g. 2024-05-01, 2024-05-01T12:00Z or 7d).`);
+  }
+  return time;
+}
+
+/** Import config, returning its validation message on failure. */
+async function tryLoadConfig(): Promise<string | null> {
+  try {
+    await import("./config");
+    return null;
+  } catch (err) {
+    return (err as Error).message ?? String(err);
+  }
+}
+
+async function confirm(question: string): Promise<boolean> {
+  const readline = await import("readline");
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await new Promise<string>((resolve) => rl.question(question, resolve));
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    rl.close();
+  }
+}
+
+function redact(secret: string): string {
+  return secret.length <= 8 ? "****" : `${secret.slice(0, 4)}…${secret.slice(-4)}`;
+}
+
+/** `{ a: { b: 1 } }` → [["a.b", "1"]]. */
+function flatten(value: Record<string, unknown>, prefix = ""): [string, string][] {
+  return Object.entries(value).flatMap(([key, v]): [string, string][] =>
+    v !== null && typeof v === "object" && !Array.isArray(v)
+      ? flatten(v as Record<string, unknown>, `${prefix}${key}.`)
+      : [[`${prefix}${key}`, Array.isArray(v) ? v.join(",") : String(v)]]
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+/** Run the CLI with `argv` (without node and script) and return the exit code. */
+export async function runCli(argv: string[]): Promise<ExitCode> {
+  const first = argv[0];
+  if (first === undefined || first === "--help" || first === "-h" || first === "help") {
+    console.log(generalHelp());
+    return first === undefined ? ExitCode.USAGE : ExitCode.OK;
+  }
+
+  const command = COMMANDS.find((c) => c.name === first);
+  if (!command) {
+    console.error(`Unknown command "${first}".\n\n${generalHelp()}`);
+    return ExitCode.USAGE;
+  }
+
+  const specs = [...GLOBAL_FLAGS, ...command.flags];
+  let args: ParsedArgs;
+  try {
+    args = parseArgs(argv.slice(1), specs);
+  } catch (err) {
+    if (!(err instanceof UsageError)) throw err;
+    console.error(`${err.message}\n\n${commandHelp(command)}`);
+    return ExitCode.USAGE;
+  }
+
+  if (args.flags.get("help") === true) {
+    console.log(commandHelp(command));
+    return ExitCode.OK;
+  }
+  if (command.name !== "config" && args.positionals.length > 0) {
+    console.error(`Unexpected argument "${args.positionals[0]}".\n\n${commandHelp(command)}`);
+    return ExitCode.USAGE;
+  }
+
+  // Flags first, then --env-file, then .env (dotenv never overrides).
+  applyEnvOverrides(args, specs);
+  Object.assign(process.env, command.env);
+  const envFile = args.flags.get("env-file") as string | undefined;
+  if (envFile) dotenv.config({ path: path.resolve(envFile) });
+
+  if (command.name !== "doctor") {
+    const configError = await tryLoadConfig();
+    if (configError) {
+      console.error(`Configuration error: ${configError}`);
+      return ExitCode.CONFIG;
+    }
+  }
+
+  try {
+    return await command.run(args);
+  } catch (err) {
+    if (err instanceof UsageError) {
+      console.error(`${err.message}\n\n${commandHelp(command)}`);
+      return ExitCode.USAGE;
+    }
+    const { log } = await import("./utils");
+    const { PreflightError, RepoScopeError } = await import("./repoScope");
+    const { WorkflowDefinitionError } = await import("./workflowDefinition");
+    const { AnalyticsSchemaError } = await import("./analyticsSchema");
+    const { FileLockError } = await import("./atomicFile");
+    const { CorpusError } = await import("./webhookCorpus");
+    const { GitHubApiError } = await import("./githubErrors");
+    if (err instanceof AnalyticsSchemaError || err instanceof FileLockError || err instanceof CorpusError) {
+      log.error(`${command.name} failed: ${err.message}`);
+      return ExitCode.ERROR;
+    }
+    if (err instanceof WorkflowDefinitionError) {
+      log.error(err.message);
+      return ExitCode.CONFIG;
+    }
+    if (err instanceof PreflightError || err instanceof RepoScopeError) {
+      log.error(`${command.name} refused: ${err.message}`);
+      return ExitCode.PREFLIGHT;
+    }
+    if (err instanceof GitHubApiError) {
+      log.error(`${command.name} failed: ${err.message}`);
+      log.error(`  ${err.hint}`);
+      return ExitCode.ERROR;
+    }
+    log.error(`${command.name} failed:`, err);
+    return ExitCode.ERROR;
+  }
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(
+    (code) => process.exit(code),
+    (err) => {
+      console.error("Fatal error:", err);
+      process.exit(ExitCode.ERROR);
+    }
+  );
+}
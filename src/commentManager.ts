@@ -32,6 +32,8 @@ export interface PostedComment {
   isPR: boolean;
   /** ISO-8601 creation timestamp. */
   createdAt: string;
+  /** The HTML URL for human consumption. */
+  htmlUrl: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -64,6 +66,7 @@ export async function commentOnIssue(
     targetNumber: issueNumber,
     isPR: false,
     createdAt: data.created_at ?? nowISO(),
+    htmlUrl: data.html_url,
   };
 
   log.info(`Commented on issue #${issueNumber} (comment ${data.id})`);
@@ -97,6 +100,7 @@ export async function commentOnPR(
     targetNumber: prNumber,
     isPR: true,
     createdAt: data.created_at ?? nowISO(),
+    htmlUrl: data.html_url,
   };
 
   log.info(`Commented on PR #${prNumber} (comment ${data.id})`);
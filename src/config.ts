@@ -37,10 +37,81 @@ function envInt(key: string, fallback: number): number {
   return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
 }
 
+/** "data/analytics.json" → "data/analytics.dry-run.json". */
+export function dryRunPath(filePath: string): string {
+  const ext = path.extname(filePath);
+  return `${filePath.slice(0, filePath.length - ext.length)}.dry-run${ext}`;
+}
+
 // ---------------------------------------------------------------------------
 // Exported configuration object
 // ---------------------------------------------------------------------------
 
+/** Families of API failure that the retry policy may retry. */
+export type RetryReason =
+  | "primary-rate-limit"
+  | "secondary-rate-limit"
+  | "server-error"
+  | "network";
+
+const RETRY_REASONS: readonly RetryReason[] = [
+  "primary-rate-limit",
+  "secondary-rate-limit",
+  "server-error",
+  "network",
+];
+
+/** How failed API calls are retried (see retryPolicy.ts). */
+export interface RetryPolicy {
+  /** Total attempts per call, including the first. */
+  maxAttempts: number;
+  /** Back-off before the first retry; doubles on each attempt. */
+  baseDelayMs: number;
+  /** Upper bound for exponential back-off. */
+  maxDelayMs: number;
+  /** Randomise back-off so concurrent runs do not retry in lock-step. */
+  jitter: boolean;
+  /** Failure families that are retried at all. */
+  retryOn: RetryReason[];
+  /** Longest rate-limit wait to sit out before giving up instead. */
+  maxRateLimitWaitMs: number;
+}
+
+/** Where analytics events are stored (see analyticsStore.ts). */
+export type AnalyticsBackend = "json" | "ndjson" | "sqlite";
+
+export const ANALYTICS_BACKENDS: readonly AnalyticsBackend[] = ["json", "ndjson", "sqlite"];
+
+/**
+ * Which runs the analytics report covers: everything, the last N runs,
+ * or runs started within a trailing time span.
+ */
+export type ReportWindow =
+  | { kind: "all" }
+  | { kind: "runs"; count: number }
+  | { kind: "since"; ms: number; spec: string };
+
+const WINDOW_UNITS_MS: Record<string, number> = {
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/** Parse REPORT_WINDOW: "all", "runs:<N>", or "<N>h" / "<N>d" / "<N>w". */
+export function parseReportWindow(spec: string): ReportWindow {
+  const text = spec.trim().toLowerCase();
+  if (text === "all") return { kind: "all" };
+  const runs = /^runs:(\d+)$/.exec(text);
+  if (runs && parseInt(runs[1], 10) > 0) return { kind: "runs", count: parseInt(runs[1], 10) };
+  const span = /^(\d+)([hdw])$/.exec(text);
+  if (span && parseInt(span[1], 10) > 0) {
+    return { kind: "since", ms: parseInt(span[1], 10) * WINDOW_UNITS_MS[span[2]], spec: text };
+  }
+  throw new Error(
+    `Invalid REPORT_WINDOW "${spec}". Expected "all", "runs:<N>" or a span such as "7d".`
+  );
+}
+
 export interface OrchestratorConfig {
   /** GitHub Personal Access Token (or GITHUB_TOKEN in Actions). */
   githubToken: string;
@@ -48,6 +119,12 @@ export interface OrchestratorConfig {
   owner: string;
   /** Repository name. */
   repo: string;
+  /** REST API base URL (override to target GHES or a local fake). */
+  apiBaseUrl: string;
+  /** `owner/repo` names API requests may target (see repoScope.ts). */
+  allowedRepos: string[];
+  /** Allow running against a public repository. */
+  allowPublic: boolean;
 
   /** Co-author name for Pair Extraordinaire commits. */
   coAuthorName: string;
@@ -64,11 +141,100 @@ export interface OrchestratorConfig {
   autoMerge: boolean;
   /** Merge without prior review (YOLO achievement). */
   yoloMode: boolean;
+  /** Plan every write instead of sending it to GitHub. */
+  dryRun: boolean;
+  /** Workflow definition file; empty → built-in default workflow. */
+  workflowFile: string;
+
+  /** CI checks on opened PRs (see checkTracker.ts). */
+  checks: {
+    /** Wait for each PR's checks and record their timings. */
+    track: boolean;
+    /** Merge only once every required check has passed. */
+    requireForMerge: boolean;
+    /** Stop waiting for checks to finish after this long. */
+    timeoutMs: number;
+    /** Stop waiting when no check has appeared after this long (no CI). */
+    startTimeoutMs: number;
+    /** Interval between polls while waiting. */
+    pollMs: number;
+  };
 
+  /** Run tracing (see tracing.ts); off unless a destination is set. */
+  tracing: {
+    /** JSON-lines file each run's trace is appended to; "" → none. */
+    file: string;
+    /** OTLP/HTTP traces URL, e.g. "http://localhost:4318/v1/traces"; "" → none. */
+    otlpEndpoint: string;
+    /** Extra headers for the collector, e.g. an API key. */
+    otlpHeaders: Record<string, string>;
+    /** `service.name` resource attribute. */
+    serviceName: string;
+  };
+
+  /** Webhook delivery receiver (see webhookReceiver.ts). */
+  webhook: {
+    /** Port to listen on during runs; 0 → no receiver. */
+    port: number;
+    /** Interface to bind. */
+    host: string;
+    /** URL path deliveries are POSTed to. */
+    path: string;
+    /** Secret for verifying X-Hub-Signature-256. */
+    secret: string;
+    /** How long a run waits at the end for outstanding deliveries. */
+    graceMs: number;
+    /** Directory every received delivery is recorded in; "" → none. */
+    corpusDir: string;
+    /** Secret `orchestrator replay` signs deliveries with. */
+    replaySecret: string;
+  };
+
+  /** HTTP cassette mode: pass through, record to, or replay from a file. */
+  cassetteMode: "off" | "record" | "replay";
+  /** Filesystem path of the HTTP cassette. */
+  cassettePath: string;
+  /** Seed for content/branch randomness; empty → Math.random. */
+  randomSeed: string;
+
+  /** Retry policy for GitHub API calls. */
+  retry: RetryPolicy;
+
+  /** Proactive pacing against GitHub's rate limits (see rateBudget.ts). */
+  rateBudget: {
+    /** Core requests to keep in reserve; pacing starts below this. */
+    reserve: number;
+    /** Content-creating requests allowed per minute. */
+    contentPerMinute: number;
+    /** Content-creating requests allowed per hour. */
+    contentPerHour: number;
+    /** Minimum spacing between content-creating requests. */
+    minWriteIntervalMs: number;
+  };
+
+  /** Storage backend for analytics events. */
+  analyticsBackend: AnalyticsBackend;
   /** Filesystem path for analytics persistence. */
   analyticsPath: string;
+  /** Runs covered by the analytics report and console summary. */
+  reportWindow: ReportWindow;
+  /** Filesystem path of the workflow step journal. */
+  journalPath: string;
+  /** What to do with workflows an earlier run left unfinished. */
+  resumePolicy: "resume" | "rollback" | "ignore";
   /** Logging verbosity. */
   logLevel: "debug" | "info" | "warn" | "error";
+  /** Console log lines: "pretty" for people, "json" for log collectors. */
+  logFormat: "pretty" | "json";
+  /** JSON-lines log file (see logger.ts). */
+  logFile: {
+    /** "" → none. */
+    path: string;
+    /** Size the file is rotated at. */
+    maxBytes: number;
+    /** Rotated files kept (LOG_FILE.1 … LOG_FILE.<n>). */
+    maxFiles: number;
+  };
 }
 
 /** Build the config, validating that required vars are present. */
@@ -88,15 +254,104 @@ function loadConfig(): OrchestratorConfig {
     );
   }
 
+  const allowedRepos = env("ALLOWED_REPOS", `${owner}/${repo}`)
+    .split(",")
+    .map((r) => r.trim())
+    .filter((r) => r.length > 0);
+  const malformedRepo = allowedRepos.find((r) => !/^[^/\s]+\/[^/\s]+$/.test(r));
+  if (malformedRepo) {
+    throw new Error(`Invalid ALLOWED_REPOS entry "${malformedRepo}". Expected owner/repo.`);
+  }
+  const target = `${owner}/${repo}`.toLowerCase();
+  if (!allowedRepos.some((r) => r.toLowerCase() === target)) {
+    throw new Error(
+      `GITHUB_OWNER/GITHUB_REPO (${owner}/${repo}) is not listed in ALLOWED_REPOS.`
+    );
+  }
+
   const logLevel = env("LOG_LEVEL", "info") as OrchestratorConfig["logLevel"];
   if (!["debug", "info", "warn", "error"].includes(logLevel)) {
     throw new Error(`Invalid LOG_LEVEL "${logLevel}".`);
   }
+  const logFormat = env("LOG_FORMAT", "pretty") as OrchestratorConfig["logFormat"];
+  if (!["pretty", "json"].includes(logFormat)) {
+    throw new Error(`Invalid LOG_FORMAT "${logFormat}".`);
+  }
+
+  const cassetteMode = env("HTTP_CASSETTE_MODE", "off") as OrchestratorConfig["cassetteMode"];
+  if (!["off", "record", "replay"].includes(cassetteMode)) {
+    throw new Error(`Invalid HTTP_CASSETTE_MODE "${cassetteMode}".`);
+  }
+
+  const retryOn = env("RETRY_ON", RETRY_REASONS.join(","))
+    .split(",")
+    .map((r) => r.trim())
+    .filter((r) => r.length > 0);
+  const unknownReason = retryOn.find(
+    (r) => !RETRY_REASONS.includes(r as RetryReason)
+  );
+  if (unknownReason) {
+    throw new Error(
+      `Invalid RETRY_ON entry "${unknownReason}". Expected any of: ${RETRY_REASONS.join(", ")}.`
+    );
+  }
+
+  const resumePolicy = env("RESUME_POLICY", "resume") as OrchestratorConfig["resumePolicy"];
+  if (!["resume", "rollback", "ignore"].includes(resumePolicy)) {
+    throw new Error(`Invalid RESUME_POLICY "${resumePolicy}".`);
+  }
+
+  const analyticsBackend = env("ANALYTICS_BACKEND", "json") as AnalyticsBackend;
+  if (!ANALYTICS_BACKENDS.includes(analyticsBackend)) {
+    throw new Error(
+      `Invalid ANALYTICS_BACKEND "${analyticsBackend}". Expected any of: ${ANALYTICS_BACKENDS.join(", ")}.`
+    );
+  }
+
+  const webhookPort = envInt("WEBHOOK_PORT", 0);
+  const webhookSecret = env("WEBHOOK_SECRET");
+  if (webhookPort > 65_535) {
+    throw new Error(`Invalid WEBHOOK_PORT "${webhookPort}".`);
+  }
+  if (webhookPort && !webhookSecret) {
+    throw new Error("WEBHOOK_SECRET is required when WEBHOOK_PORT is set.");
+  }
+
+  // Standard OpenTelemetry variables: the signal-specific URL is used as
+  // is, the general endpoint gets the traces path appended.
+  const otlpEndpoint =
+    env("OTEL_EXPORTER_OTLP_TRACES_ENDPOINT") ||
+    (env("OTEL_EXPORTER_OTLP_ENDPOINT") && `${env("OTEL_EXPORTER_OTLP_ENDPOINT").replace(/\/+$/, "")}/v1/traces`);
+  if (otlpEndpoint && !/^https?:\/\//.test(otlpEndpoint)) {
+    throw new Error(`Invalid OTLP endpoint "${otlpEndpoint}". Expected an http(s) URL.`);
+  }
+  const otlpHeaders: Record<string, string> = {};
+  for (const pair of env("OTEL_EXPORTER_OTLP_HEADERS").split(",").filter((p) => p.trim() !== "")) {
+    const eq = pair.indexOf("=");
+    if (eq <= 0) {
+      throw new Error(`Invalid OTEL_EXPORTER_OTLP_HEADERS entry "${pair.trim()}". Expected key=value.`);
+    }
+    otlpHeaders[pair.slice(0, eq).trim()] = decodeURIComponent(pair.slice(eq + 1).trim());
+  }
+
+  const dryRun = envBool("DRY_RUN", false);
+  const analyticsPath = env(
+    "ANALYTICS_PATH",
+    path.resolve(__dirname, "..", "data", `analytics.${analyticsBackend}`)
+  );
+  const journalPath = env(
+    "JOURNAL_PATH",
+    path.join(path.dirname(analyticsPath), "journal.json")
+  );
+  const traceFile = env("TRACE_FILE");
 
   return {
     githubToken,
     owner,
     repo,
+    apiBaseUrl: env("GITHUB_API_URL", "https://api.github.com"),
+    allowedRepos,
+    allowPublic: envBool("ALLOW_PUBLIC", false),
     coAuthorName: env("CO_AUTHOR_NAME"),
     coAuthorEmail: env("CO_AUTHOR_EMAIL"),
     branchPrefix: env("BRANCH_PREFIX", "orchestrator/"),
@@ -104,11 +359,63 @@ function loadConfig(): OrchestratorConfig {
     maxPrsPerRun: envInt("MAX_PRS_PER_RUN", 1),
     autoMerge: envBool("AUTO_MERGE", true),
     yoloMode: envBool("YOLO_MODE", false),
-    analyticsPath: env(
-      "ANALYTICS_PATH",
-      path.resolve(__dirname, "..", "data", "analytics.json")
+    dryRun,
+    workflowFile: env("WORKFLOW_FILE"),
+    checks: {
+      track: envBool("TRACK_CHECKS", false),
+      requireForMerge: envBool("REQUIRE_CHECKS", false),
+      timeoutMs: envInt("CHECKS_TIMEOUT_MS", 30 * 60_000),
+      startTimeoutMs: envInt("CHECKS_START_TIMEOUT_MS", 2 * 60_000),
+      pollMs: envInt("CHECKS_POLL_MS", 10_000),
+    },
+    tracing: {
+      file: traceFile && dryRun ? dryRunPath(traceFile) : traceFile,
+      otlpEndpoint,
+      otlpHeaders,
+      serviceName: env("OTEL_SERVICE_NAME", "github-activity-orchestrator"),
+    },
+    webhook: {
+      port: webhookPort,
+      host: env("WEBHOOK_HOST", "127.0.0.1"),
+      path: env("WEBHOOK_PATH", "/webhook"),
+      secret: webhookSecret,
+      graceMs: envInt("WEBHOOK_GRACE_MS", 30_000),
+      corpusDir: env("WEBHOOK_CORPUS_DIR"),
+      replaySecret: env("WEBHOOK_REPLAY_SECRET", webhookSecret),
+    },
+    cassetteMode,
+    cassettePath: env(
+      "HTTP_CASSETTE_PATH",
+      path.resolve(__dirname, "..", "data", "cassette.json")
     ),
+    randomSeed: env("RANDOM_SEED"),
+    retry: {
+      maxAttempts: envInt("RETRY_MAX_ATTEMPTS", 4),
+      baseDelayMs: envInt("RETRY_BASE_DELAY_MS", 1_000),
+      maxDelayMs: envInt("RETRY_MAX_DELAY_MS", 30_000),
+      jitter: envBool("RETRY_JITTER", true),
+      retryOn: retryOn as RetryReason[],
+      maxRateLimitWaitMs: envInt("RATE_LIMIT_MAX_WAIT_MS", 15 * 60_000),
+    },
+    rateBudget: {
+      reserve: envInt("RATE_BUDGET_RESERVE", 100),
+      contentPerMinute: envInt("CONTENT_LIMIT_PER_MINUTE", 80),
+      contentPerHour: envInt("CONTENT_LIMIT_PER_HOUR", 500),
+      minWriteIntervalMs: envInt("MIN_WRITE_INTERVAL_MS", 1_000),
+    },
+    analyticsBackend,
+    // Dry runs keep their own analytics so they never mix with real history.
+    analyticsPath: dryRun ? dryRunPath(analyticsPath) : analyticsPath,
+    journalPath: dryRun ? dryRunPath(journalPath) : journalPath,
+    reportWindow: parseReportWindow(env("REPORT_WINDOW", "all")),
+    resumePolicy,
     logLevel,
+    logFormat,
+    logFile: {
+      path: env("LOG_FILE"),
+      maxBytes: envInt("LOG_FILE_MAX_BYTES", 10 * 1024 * 1024),
+      maxFiles: envInt("LOG_FILE_MAX_FILES", 5),
+    },
   };
 }
 
@@ -0,0 +1,172 @@
+/**
+ * doctor.ts — Diagnose the environment before a real run.
+ *
+ * Each check reports ok / warn / fail with a one-line explanation:
+ *
+ *   • repository scope — allow-list, admin rights, visibility (the same
+ *     preflight every command runs),
+ *   • rate-limit budget left after that call,
+ *   • orchestrator labels and the generated-files directory (both are
+ *     created by `seed`, so missing ones only warn),
+ *   • the workflow definition (WORKFLOW_FILE) against its schema,
+ *   • local state: analytics store (schema version and validity), journal,
+ *     HTTP cassette.
+ *
+ * Node.js and the configuration itself are checked by the CLI before
+ * this module is loaded, since importing it requires a valid config.
+ */
+
+import * as fs from "fs";
+import { getAnalyticsStore, prepareAnalytics } from "./analytics";
+import { AnalyticsSchemaError } from "./analyticsSchema";
+import { config } from "./config";
+import { octokit, owner, repo, withRateLimit } from "./githubClient";
+import { GitHubApiError, NotFoundError } from "./githubErrors";
+import { missingLabels } from "./issueManager";
+import { JournalEntry, JournalError, findIncompleteWorkflows } from "./journal";
+import { getBudget } from "./rateBudget";
+import { assertRepoScope } from "./repoScope";
+import { GENERATED_DIR } from "./utils";
+import { loadWorkflow } from "./workflowDefinition";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type CheckStatus = "ok" | "warn" | "fail";
+
+export interface DoctorCheck {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Run every check and return the results in order.  Checks that need
+ * the repository are skipped when the scope preflight fails.
+ */
+export async function runDoctor(): Promise<DoctorCheck[]> {
+  const checks: DoctorCheck[] = [];
+  const check = async (
+    name: string,
+    fn: () => Promise<Omit<DoctorCheck, "name">>
+  ): Promise<DoctorCheck> => {
+    let result: DoctorCheck;
+    try {
+      result = { name, ...(await fn()) };
+    } catch (err) {
+      const detail = err instanceof GitHubApiError ? `${err.message}. ${err.hint}` : (err as Error).message ?? String(err);
+      result = { name, status: "fail", detail };
+    }
+    checks.push(result);
+    return result;
+  };
+
+  const scope = await check("Repository scope", async () => {
+    await assertRepoScope();
+    return {
+      status: "ok",
+      detail: `${owner}/${repo} is allow-listed and administered by the token`,
+    };
+  });
+
+  if (scope.status === "ok") {
+    await check("Rate limit", async () => {
+      const { core } = getBudget();
+      if (core.remaining === null) {
+        return { status: "warn", detail: "no rate-limit headers seen" };
+      }
+      const low = core.remaining <= config.rateBudget.reserve;
+      return {
+        status: low ? "warn" : "ok",
+        detail: `${core.remaining}/${core.limit ?? "?"} core requests left` +
+          (low ? ` (at or below the reserve of ${config.rateBudget.reserve})` : ""),
+      };
+    });
+
+    await check("Labels", async () => {
+      const missing = await missingLabels();
+      return missing.length === 0
+        ? { status: "ok", detail: "all orchestrator labels exist" }
+        : { status: "warn", detail: `missing ${missing.join(", ")} (created on first run, or run seed)` };
+    });
+
+    await check("Generated directory", async () => {
+      try {
+        await withRateLimit("get-content", () =>
+          octokit.repos.getContent({ owner, repo, path: GENERATED_DIR })
+        );
+        return { status: "ok", detail: `${GENERATED_DIR}/ exists` };
+      } catch (err) {
+        if (!(err instanceof NotFoundError)) throw err;
+        return { status: "warn", detail: `${GENERATED_DIR}/ not found (run seed)` };
+      }
+    });
+  }
+
+  await check("Workflow", async () => {
+    const workflow = loadWorkflow(config.workflowFile);
+    return {
+      status: "ok",
+      detail: `"${workflow.name}" (${workflow.steps.length} steps` +
+        (config.workflowFile ? `, ${config.workflowFile})` : ", built-in)"),
+    };
+  });
+
+  await check("Analytics store", async () => {
+    await prepareAnalytics();
+    const store = getAnalyticsStore();
+    const where = `${store.location} (${store.backend})`;
+    if (!fs.existsSync(store.location)) {
+      return { status: "ok", detail: `${where}, not created yet` };
+    }
+    try {
+      const { fromVersion, applied } = store.migrate(false);
+      if (applied.length > 0) {
+        return {
+          status: "warn",
+          detail: `${where} is version ${fromVersion} (run migrate, or the next run upgrades it)`,
+        };
+      }
+      const runs = store.listRuns();
+      const events = runs.reduce((n, r) => n + r.events, 0);
+      return { status: "ok", detail: `${where}, ${runs.length} runs, ${events} events` };
+    } catch (err) {
+      if (!(err instanceof AnalyticsSchemaError)) throw err;
+      return {
+        status: "fail",
+        detail: `${where} is invalid (run migrate --check for details; the next run quarantines it)`,
+      };
+    }
+  });
+
+  await check("Journal", async () => {
+    let pending: JournalEntry[];
+    try {
+      pending = findIncompleteWorkflows();
+    } catch (err) {
+      if (!(err instanceof JournalError)) throw err;
+      return { status: "fail", detail: `${err.message} (the next run moves it aside)` };
+    }
+    return pending.length === 0
+      ? { status: "ok", detail: "no unfinished workflows" }
+      : {
+          status: "warn",
+          detail: `${pending.length} unfinished workflow(s); next run will ${config.resumePolicy} them`,
+        };
+  });
+
+  if (config.cassetteMode === "replay") {
+    await check("Cassette", async () =>
+      fs.existsSync(config.cassettePath)
+        ? { status: "ok", detail: `replaying ${config.cassettePath}` }
+        : { status: "fail", detail: `${config.cassettePath} does not exist` }
+    );
+  }
+
+  return checks;
+}
@@ -0,0 +1,251 @@
+/**
+ * dryRun.ts — Plan the workflow without writing anything to GitHub.
+ *
+ * When `config.dryRun` is enabled, githubClient routes every request
+ * through `interceptRequest()`.  Writes (POST/PUT/PATCH/DELETE) are
+ * never sent: they are logged as planned actions with their full
+ * payload and answered with a synthetic response shaped like the real
+ * one, so the managers, the orchestrator loop and analytics run end to
+ * end.
+ *
+ * Reads still hit the API (they are harmless and validate credentials),
+ * except reads of objects that only exist in the plan — e.g. polling the
+ * mergeable state or CI checks of a PR that was never really opened.
+ */
+
+import { randomBytes } from "crypto";
+import { config } from "./config";
+import {
+  ApiRequestOptions,
+  ApiResponse,
+  requestParams,
+  routeKey,
+} from "./requestTypes";
+import { log, nowISO } from "./utils";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A write the orchestrator would have performed. */
+export interface PlannedAction {
+  /** 1-based position in the plan. */
+  sequence: number;
+  /** HTTP method, e.g. "POST". */
+  method: string;
+  /** Unexpanded route template, e.g. "/repos/{owner}/{repo}/issues". */
+  route: string;
+  /** Every endpoint parameter that would have been sent. */
+  payload: Record<string, unknown>;
+  /** ISO-8601 time the action was planned. */
+  plannedAt: string;
+}
+
+// ---------------------------------------------------------------------------
+// Plan state
+// ---------------------------------------------------------------------------
+
+/**
+ * Synthetic issue/PR numbers start well above anything a real
+ * repository is likely to have, so they are easy to spot in logs.
+ */
+const SYNTHETIC_NUMBER_BASE = 1_000_000;
+
+const planned: PlannedAction[] = [];
+let nextNumber = SYNTHETIC_NUMBER_BASE;
+let nextId = SYNTHETIC_NUMBER_BASE;
+
+/** Pull requests that exist only in the plan, keyed by number. */
+const plannedPulls = new Map<number, Record<string, unknown>>();
+
+/** Head commits of planned pull requests, which no CI will ever see. */
+const plannedShas = new Set<string>();
+
+// ---------------------------------------------------------------------------
+// Request interception
+// ---------------------------------------------------------------------------
+
+/**
+ * Answer a request from the plan, or return `null` to let it through.
+ */
+export function interceptRequest(
+  options: ApiRequestOptions
+): ApiResponse | null {
+  const method = options.method.toUpperCase();
+
+  if (method === "GET") {
+    return answerPlannedRead(options);
+  }
+
+  const action: PlannedAction = {
+    sequence: planned.length + 1,
+    method,
+    route: options.url,
+    payload: requestParams(options),
+    plannedAt: nowISO(),
+  };
+  planned.push(action);
+
+  log.info(
+    `[dry-run] #${action.sequence} ${routeKey(options)}\n` +
+      JSON.stringify(action.payload, null, 2)
+  );
+
+  return synthesize(options, action.payload);
+}
+
+/** Log every planned action as a compact, numbered list. */
+export function printPlanSummary(): void {
+  console.log("\n========================================");
+  console.log("  Dry run — planned actions             ");
+  console.log("========================================");
+  if (planned.length === 0) {
+    console.log("  (nothing would have been written)");
+  }
+  for (const action of planned) {
+    console.log(`  ${String(action.sequence).padStart(3)}. ${action.method} ${action.route}`);
+  }
+  console.log("========================================\n");
+}
+
+// ---------------------------------------------------------------------------
+// Synthetic responses
+// ---------------------------------------------------------------------------
+
+/** Serve reads of objects that were only ever planned. */
+function answerPlannedRead(options: ApiRequestOptions): ApiResponse | null {
+  if (options.url === "/repos/{owner}/{repo}/pulls/{pull_number}") {
+    const pull = plannedPulls.get(Number(options.pull_number));
+    if (pull) return respond(options, 200, pull);
+  }
+  if (plannedShas.has(String(options.ref))) {
+    switch (options.url) {
+      case "/repos/{owner}/{repo}/commits/{ref}/check-runs":
+        return respond(options, 200, { total_count: 0, check_runs: [] });
+      case "/repos/{owner}/{repo}/commits/{ref}/check-suites":
+        return respond(options, 200, { total_count: 0, check_suites: [] });
+      case "/repos/{owner}/{repo}/commits/{ref}/status":
+        return respond(options, 200, { state: "pending", sha: options.ref, total_count: 0, statuses: [] });
+    }
+  }
+  return null;
+}
+
+/** Build a response shaped like GitHub's for a planned write. */
+function synthesize(
+  options: ApiRequestOptions,
+  payload: Record<string, unknown>
+): ApiResponse {
+  const now = nowISO();
+  const htmlBase = `https://github.com/${config.owner}/${config.repo}`;
+
+  switch (routeKey(options)) {
+    case "POST /repos/{owner}/{repo}/git/refs":
+      return respond(options, 201, {
+        ref: payload.ref,
+        object: { sha: payload.sha, type: "commit" },
+      });
+
+    case "DELETE /repos/{owner}/{repo}/git/refs/{ref}":
+      return respond(options, 204, undefined);
+
+    case "PUT /repos/{owner}/{repo}/contents/{path}":
+      return respond(options, payload.sha ? 200 : 201, {
+        content: { path: payload.path, sha: syntheticSha() },
+        commit: { sha: syntheticSha(), message: payload.message },
+      });
+
+    case "POST /repos/{owner}/{repo}/labels":
+      return respond(options, 201, {
+        id: nextId++,
+        name: payload.name,
+        color: payload.color,
+        description: payload.description,
+      });
+
+    case "POST /repos/{owner}/{repo}/issues": {
+      const number = nextNumber++;
+      return respond(options, 201, {
+        id: nextId++,
+        number,
+        title: payload.title,
+        body: payload.body,
+        state: "open",
+        labels: ((payload.labels as string[] | undefined) ?? []).map((name) => ({ name })),
+        html_url: `${htmlBase}/issues/${number}`,
+        created_at: now,
+      });
+    }
+
+    case "PATCH /repos/{owner}/{repo}/issues/{issue_number}":
+      return respond(options, 200, {
+        number: Number(payload.issue_number),
+        state: payload.state ?? "open",
+        html_url: `${htmlBase}/issues/${payload.issue_number}`,
+        updated_at: now,
+      });
+
+    case "POST /repos/{owner}/{repo}/issues/{issue_number}/comments": {
+      const id = nextId++;
+      return respond(options, 201, {
+        id,
+        body: payload.body,
+        html_url: `${htmlBase}/issues/${payload.issue_number}#issuecomment-${id}`,
+        created_at: now,
+      });
+    }
+
+    case "POST /repos/{owner}/{repo}/pulls": {
+      const number = nextNumber++;
+      const pull = {
+        id: nextId++,
+        number,
+        title: payload.title,
+        body: payload.body,
+        state: "open",
+        draft: payload.draft ?? false,
+        merged: false,
+        mergeable: true,
+        head: { ref: payload.head, sha: syntheticSha() },
+        base: { ref: payload.base },
+        html_url: `${htmlBase}/pull/${number}`,
+        created_at: now,
+      };
+      plannedPulls.set(number, pull);
+      plannedShas.add(pull.head.sha);
+      return respond(options, 201, pull);
+    }
+
+    case "PUT /repos/{owner}/{repo}/pulls/{pull_number}/merge": {
+      const pull = plannedPulls.get(Number(payload.pull_number));
+      if (pull) Object.assign(pull, { state: "closed", merged: true, merged_at: now });
+      return respond(options, 200, {
+        sha: syntheticSha(),
+        merged: true,
+        message: "Pull Request successfully merged",
+      });
+    }
+
+    default:
+      // Unknown write: an empty success keeps the caller moving.
+      return respond(options, 200, {});
+  }
+}
+
+function respond(
+  options: ApiRequestOptions,
+  status: number,
+  data: unknown
+): ApiResponse {
+  return {
+    status,
+    url: `dry-run:${options.url}`,
+    headers: {},
+    data,
+  };
+}
+
+/** A random 40-hex-char string standing in for a git SHA. */
+function syntheticSha(): string {
+  return randomBytes(20).toString("hex");
+}
@@ -0,0 +1,44 @@
+/**
+ * exitCodes.ts — Process exit codes shared by every entry point.
+ *
+ * Scripts and schedulers can tell "nothing worked" from "some iterations
+ * failed" from "refused to start" without parsing logs.
+ */
+
+export const ExitCode = {
+  /** Everything succeeded. */
+  OK: 0,
+  /** Unexpected error. */
+  ERROR: 1,
+  /** Unknown command or invalid flags. */
+  USAGE: 2,
+  /** Configuration (or the workflow definition) missing or invalid. */
+  CONFIG: 3,
+  /** Repository-scope preflight refused the target. */
+  PREFLIGHT: 4,
+  /** Some iterations (or cleanup items) failed, others succeeded. */
+  PARTIAL: 5,
+  /** Every iteration failed. */
+  FAILED: 6,
+} as const;
+
+export type ExitCode = (typeof ExitCode)[keyof typeof ExitCode];
+
+/** What a finished orchestrator run reports back to its caller. */
+export interface RunOutcome {
+  /** Iterations the run was configured for. */
+  planned: number;
+  /** Iterations started (fewer when the rate-limit budget ran short). */
+  attempted: number;
+  succeeded: number;
+  failed: number;
+  /** Interrupted workflows that could not be resumed or rolled back. */
+  recoveryFailures: number;
+}
+
+/** Map a run outcome to an exit code. */
+export function exitCodeForRun(outcome: RunOutcome): ExitCode {
+  if (outcome.attempted > 0 && outcome.succeeded === 0) return ExitCode.FAILED;
+  if (outcome.failed > 0 || outcome.recoveryFailures > 0) return ExitCode.PARTIAL;
+  return ExitCode.OK;
+}
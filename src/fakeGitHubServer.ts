@@ -0,0 +1,1091 @@
+/**
+ * fakeGitHubServer.ts — In-process stand-in for the GitHub REST API.
+ *
+ * Implements just the endpoints the orchestrator uses, backed by
+ * in-memory state, so the full issue → comment → branch → commit → PR →
+ * merge pipeline can run offline:
+ *
+ *   • repos.get
+ *   • git.getRef / createRef / deleteRef / updateRef / listMatchingRefs
+ *   • git.getCommit / createCommit / createTree
+ *   • repos.getContent (files and directories) / createOrUpdateFileContents
+ *   • issues.create / createComment / update / listForRepo / getLabel / createLabel
+ *   • issues.listComments / listCommentsForRepo
+ *   • pulls.create / get / list / listFiles / listReviews / update / merge
+ *   • checks.listForRef / listSuitesForRef, repos.getCombinedStatusForRef
+ *   • repos.getStatusChecksProtection
+ *
+ * List endpoints paginate with `page`/`per_page` and a Link header, so
+ * `octokit.paginate()` works against the fake too.
+ *
+ * Behaviour mirrors GitHub where the orchestrator depends on it:
+ * `mergeable` is `null` for a configurable number of polls after a PR is
+ * opened, merging copies the head branch's files onto the base branch,
+ * "Closes #N" (or fixes/resolves) in the PR body closes the issue, and
+ * every commit gets the CI checks in `state.checks`, which start and
+ * finish on a clock that runs from the commit's creation.
+ *
+ * With `options.webhook` set, creating an issue, a comment or a PR and
+ * merging a PR also send the matching webhook delivery (issues.opened,
+ * issue_comment.created, pull_request.opened, pull_request.closed),
+ * signed with X-Hub-Signature-256 like GitHub's, to a local receiver.
+ *
+ * Everything created through the API is authored by `options.login`.
+ * Tests that need other participants (human or bot) can add comments
+ * and reviews to `state` directly.
+ *
+ * Point the orchestrator at it with GITHUB_API_URL=<server.url>.
+ */
+
+import * as http from "http";
+import { createHash, createHmac, randomUUID } from "crypto";
+import { AddressInfo } from "net";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface FakeGitHubOptions {
+  /** Owner of the single repository served. */
+  owner: string;
+  /** Name of the single repository served. */
+  repo: string;
+  /** Default branch name (default "main"). */
+  defaultBranch?: string;
+  /** Port to listen on (default 0 → any free port). */
+  port?: number;
+  /** Number of `pulls.get` calls that report `mergeable: null` (default 1). */
+  mergeableWarmupPolls?: number;
+  /** Repository visibility reported by repos.get (default "private"). */
+  visibility?: "public" | "private";
+  /** Permissions reported for the authenticated user. */
+  permissions?: { admin: boolean; push: boolean; pull: boolean };
+  /** Login of the authenticated user (default "fake-user"). */
+  login?: string;
+  /** CI checks reported on every commit (default none). */
+  checks?: FakeCheck[];
+  /** Check names the default branch's protection requires (default: unprotected). */
+  requiredChecks?: string[];
+  /** Send webhook deliveries for created issues, comments and PRs and merges. */
+  webhook?: FakeWebhook;
+}
+
+/** Where and how the fake sends webhook deliveries. */
+export interface FakeWebhook {
+  /** Payload URL, e.g. "http://127.0.0.1:8787/webhook". */
+  url: string;
+  /** Secret the X-Hub-Signature-256 header is computed with. */
+  secret: string;
+  /** Milliseconds between the triggering request and the delivery (default 0). */
+  delayMs?: number;
+}
+
+/** A webhook delivery the fake attempted. */
+export interface FakeDelivery {
+  id: string;
+  event: string;
+  action: string;
+  /** Receiver's HTTP status; null until it answers or when unreachable. */
+  status: number | null;
+}
+
+/** A CI check the fake runs on every commit. */
+export interface FakeCheck {
+  /** Check run name or status context. */
+  name: string;
+  /** Reported as a check run (default) or a commit status. */
+  kind?: "check-run" | "status";
+  /** Milliseconds from the commit until the check starts (default 0). */
+  delayMs?: number;
+  /** Milliseconds the check runs for. */
+  durationMs: number;
+  /** Check run conclusion or status state once finished (default "success"). */
+  conclusion?: string;
+}
+
+interface FakeFile {
+  sha: string;
+  content: string; // base64, as the Contents API stores it
+}
+
+interface FakeBranch {
+  sha: string;
+  files: Map<string, FakeFile>;
+}
+
+/** A commit: a full snapshot of the tree plus metadata. */
+interface FakeCommit {
+  sha: string;
+  tree: string;
+  message: string;
+  date: string;
+  parents: string[];
+}
+
+export interface FakeComment {
+  id: number;
+  /** Author login; logins ending in "[bot]" are reported as bots. */
+  user: string;
+  body: string;
+  created_at: string;
+}
+
+export interface FakeReview {
+  id: number;
+  user: string;
+  state: "APPROVED" | "CHANGES_REQUESTED" | "COMMENTED" | "PENDING";
+  body: string;
+  /** Head commit the review was submitted against. */
+  commit_id: string;
+  /** Null while the review is pending. */
+  submitted_at: string | null;
+}
+
+export interface FakeIssue {
+  number: number;
+  title: string;
+  body: string;
+  state: "open" | "closed";
+  /** Author login. */
+  user: string;
+  labels: string[];
+  comments: FakeComment[];
+  created_at: string;
+  closed_at: string | null;
+  /** Set when the number belongs to a pull request. */
+  pull?: FakePull;
+}
+
+export interface FakePull {
+  number: number;
+  head: string;
+  base: string;
+  draft: boolean;
+  merged: boolean;
+  merged_at: string | null;
+  merge_commit_sha: string | null;
+  /** Remaining polls that will still report `mergeable: null`. */
+  warmupPollsLeft: number;
+  /** Paths the PR added or changed, frozen at merge time. */
+  files: string[] | null;
+  requested_reviewers: string[];
+  reviews: FakeReview[];
+  merge_method: string | null;
+}
+
+/** Inspectable server state, exposed for assertions in tests. */
+export interface FakeGitHubState {
+  branches: Map<string, FakeBranch>;
+  commits: Map<string, FakeCommit>;
+  /** Tree snapshots by tree SHA. */
+  trees: Map<string, Map<string, FakeFile>>;
+  issues: Map<number, FakeIssue>;
+  labels: Map<string, { name: string; color: string; description: string }>;
+  checks: FakeCheck[];
+  /** Null when the default branch is unprotected. */
+  requiredChecks: string[] | null;
+  /** Every request received, in order: "METHOD /path". */
+  requests: string[];
+  /** Webhook deliveries sent, in order (see FakeGitHubOptions.webhook). */
+  deliveries: FakeDelivery[];
+}
+
+export interface FakeGitHub {
+  /** Base URL to hand to Octokit, e.g. "http://127.0.0.1:53412". */
+  url: string;
+  state: FakeGitHubState;
+  /** Make matching requests fail before reaching their handler. */
+  injectFault(fault: FakeFault): void;
+  close(): Promise<void>;
+}
+
+/** A scripted failure, e.g. a 502 on the next PR creation. */
+export interface FakeFault {
+  method: string;
+  /** Matched against the decoded request path. */
+  path: RegExp;
+  status: number;
+  message?: string;
+  headers?: Record<string, string>;
+  /** How many matching requests fail (default 1). */
+  times?: number;
+}
+
+/** Thrown by route handlers to produce a GitHub-style error response. */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+type Handler = (
+  params: Record<string, string>,
+  body: Record<string, unknown>,
+  query: URLSearchParams
+) => { status: number; data?: unknown; nextPage?: number };
+
+// ---------------------------------------------------------------------------
+// Server
+// ---------------------------------------------------------------------------
+
+/** Start a fake GitHub API server on 127.0.0.1. */
+export async function startFakeGitHub(
+  options: FakeGitHubOptions
+): Promise<FakeGitHub> {
+  const defaultBranch = options.defaultBranch ?? "main";
+  const login = options.login ?? "fake-user";
+  const warmupPolls = options.mergeableWarmupPolls ?? 1;
+  const state: FakeGitHubState = {
+    branches: new Map(),
+    commits: new Map(),
+    trees: new Map(),
+    issues: new Map(),
+    labels: new Map(),
+    checks: options.checks ?? [],
+    requiredChecks: options.requiredChecks ?? null,
+    requests: [],
+    deliveries: [],
+  };
+
+  let nextNumber = 1;
+  let nextId = 1;
+  const faults: (FakeFault & { left: number })[] = [];
+  let rateRemaining = 5000;
+  const rateReset = Math.floor(Date.now() / 1000) + 3600;
+
+  const repoPath = `/repos/${options.owner}/${options.repo}`;
+  const htmlBase = `https://github.com/${options.owner}/${options.repo}`;
+
+  // ---- Helpers -------------------------------------------------------------
+
+  /** Snapshot `files` as a tree and commit it; returns the commit SHA. */
+  const commitTree = (
+    files: Map<string, FakeFile>,
+    message: string,
+    parents: string[]
+  ): string => {
+    const tree = fakeSha(
+      [...files].map(([p, f]) => `${p}:${f.sha}`).sort().join("\n")
+    );
+    state.trees.set(tree, new Map(files));
+    const sha = fakeSha(`${tree}:${parents.join(",")}:${message}:${state.commits.size}`);
+    state.commits.set(sha, { sha, tree, message, date: new Date().toISOString(), parents });
+    return sha;
+  };
+
+  /** Point a branch at a commit, syncing its working file map. */
+  const moveBranch = (name: string, sha: string): FakeBranch => {
+    const commit = state.commits.get(sha);
+    if (!commit) throw new HttpError(422, "Object does not exist");
+    const branch = { sha, files: new Map(state.trees.get(commit.tree)) };
+    state.branches.set(name, branch);
+    return branch;
+  };
+
+  moveBranch(defaultBranch, commitTree(new Map(), "Initial commit", []));
+
+  const branchOr404 = (name: string): FakeBranch => {
+    const branch = state.branches.get(name);
+    if (!branch) throw new HttpError(404, "Branch not found");
+    return branch;
+  };
+
+  const issueOr404 = (raw: string): FakeIssue => {
+    const issue = state.issues.get(Number(raw));
+    if (!issue) throw new HttpError(404, "Not Found");
+    return issue;
+  };
+
+  const pullOr404 = (raw: string): FakePull => {
+    const pull = state.issues.get(Number(raw))?.pull;
+    if (!pull) throw new HttpError(404, "Not Found");
+    return pull;
+  };
+
+  /** GraphQL node ID of a PR (opaque to clients, like GitHub's). */
+  const pullNodeId = (number: number) => `PR_fake${number}`;
+
+  const userJson = (user: string) => ({
+    login: user,
+    type: user.endsWith("[bot]") ? "Bot" : "User",
+  });
+
+  /** Latest activity on an issue or PR, as GitHub reports in `updated_at`. */
+  const updatedAt = (issue: FakeIssue): string =>
+    [
+      issue.created_at,
+      issue.closed_at,
+      ...issue.comments.map((c) => c.created_at),
+      ...(issue.pull?.reviews ?? []).map((r) => r.submitted_at),
+    ]
+      .filter((t): t is string => t !== null)
+      .reduce((a, b) => (a > b ? a : b));
+
+  const issueJson = (issue: FakeIssue) => ({
+    id: issue.number,
+    number: issue.number,
+    title: issue.title,
+    body: issue.body,
+    state: issue.state,
+    user: userJson(issue.user),
+    labels: issue.labels.map((name) => ({ name })),
+    comments: issue.comments.length,
+    html_url: `${htmlBase}/issues/${issue.number}`,
+    created_at: issue.created_at,
+    updated_at: updatedAt(issue),
+    closed_at: issue.closed_at,
+  });
+
+  const commentJson = (issue: FakeIssue, comment: FakeComment) => ({
+    ...comment,
+    user: userJson(comment.user),
+    html_url: `${htmlBase}/issues/${issue.number}#issuecomment-${comment.id}`,
+    issue_url: `https://api.github.com${repoPath}/issues/${issue.number}`,
+  });
+
+  const commitJson = (commit: FakeCommit) => ({
+    sha: commit.sha,
+    message: commit.message,
+    tree: { sha: commit.tree },
+    parents: commit.parents.map((sha) => ({ sha })),
+    author: { name: "fake", email: "fake@example.com", date: commit.date },
+    committer: { name: "fake", email: "fake@example.com", date: commit.date },
+  });
+
+  /** A commit SHA or branch name resolved to its commit. */
+  const commitOr422 = (ref: string): FakeCommit => {
+    const commit = state.commits.get(ref) ?? state.commits.get(state.branches.get(ref)?.sha ?? "");
+    if (!commit) throw new HttpError(422, `No commit found for SHA: ${ref}`);
+    return commit;
+  };
+
+  /** The checks of `kind` that have started on `commit`, as of now. */
+  const startedChecks = (commit: FakeCommit, kind: "check-run" | "status") => {
+    const now = Date.now();
+    return state.checks.flatMap((check, i) => {
+      if ((check.kind ?? "check-run") !== kind) return [];
+      const startedAt = Date.parse(commit.date) + (check.delayMs ?? 0);
+      const completedAt = startedAt + check.durationMs;
+      if (now < startedAt) return [];
+      const done = now >= completedAt;
+      return [
+        {
+          id: i + 1,
+          name: check.name,
+          startedAt: new Date(startedAt).toISOString(),
+          completedAt: done ? new Date(completedAt).toISOString() : null,
+          conclusion: done ? check.conclusion ?? "success" : null,
+        },
+      ];
+    });
+  };
+
+  /** Slice a list per `page`/`per_page`, noting whether more remain. */
+  const paged = (items: unknown[], query: URLSearchParams) => {
+    const perPage = Math.min(Number(query.get("per_page") ?? 30) || 30, 100);
+    const page = Math.max(Number(query.get("page") ?? 1) || 1, 1);
+    const data = items.slice((page - 1) * perPage, page * perPage);
+    return {
+      status: 200,
+      data,
+      nextPage: page * perPage < items.length ? page + 1 : undefined,
+    };
+  };
+
+  const pullJson = (issue: FakeIssue, pull: FakePull) => ({
+    id: issue.number,
+    node_id: pullNodeId(pull.number),
+    number: pull.number,
+    title: issue.title,
+    body: issue.body,
+    state: issue.state,
+    user: userJson(issue.user),
+    labels: issue.labels.map((name) => ({ name })),
+    draft: pull.draft,
+    merged: pull.merged,
+    merged_at: pull.merged_at,
+    merge_commit_sha: pull.merge_commit_sha,
+    requested_reviewers: pull.requested_reviewers.map((login) => ({ login })),
+    head: { ref: pull.head, sha: state.branches.get(pull.head)?.sha ?? null },
+    base: { ref: pull.base, sha: state.branches.get(pull.base)?.sha ?? null },
+    html_url: `${htmlBase}/pull/${pull.number}`,
+    created_at: issue.created_at,
+    updated_at: updatedAt(issue),
+    closed_at: issue.closed_at,
+  });
+
+  const repositoryJson = () => ({
+    id: 1,
+    name: options.repo,
+    full_name: `${options.owner}/${options.repo}`,
+    owner: { login: options.owner },
+    default_branch: defaultBranch,
+    private: (options.visibility ?? "private") === "private",
+    visibility: options.visibility ?? "private",
+    html_url: htmlBase,
+  });
+
+  /** POST a signed webhook delivery, if a receiver is configured. */
+  const deliver = (event: string, payload: Record<string, unknown>) => {
+    const hook = options.webhook;
+    if (!hook) return;
+    const body = JSON.stringify({ ...payload, repository: repositoryJson(), sender: userJson(login) });
+    const delivery: FakeDelivery = {
+      id: randomUUID(),
+      event,
+      action: String(payload.action),
+      status: null,
+    };
+    state.deliveries.push(delivery);
+    setTimeout(() => {
+      const req = http.request(hook.url, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "content-length": Buffer.byteLength(body),
+          "user-agent": "GitHub-Hookshot/fake",
+          "x-github-event": event,
+          "x-github-delivery": delivery.id,
+          "x-hub-signature-256": `sha256=${createHmac("sha256", hook.secret).update(body).digest("hex")}`,
+        },
+      });
+      req.on("response", (res) => {
+        delivery.status = res.statusCode ?? null;
+        res.resume();
+      });
+      // Like GitHub, a delivery nobody receives is simply lost.
+      req.on("error", () => undefined);
+      req.end(body);
+    }, hook.delayMs ?? 0);
+  };
+
+  // ---- Routes --------------------------------------------------------------
+
+  const routes: { method: string; pattern: RegExp; handler: Handler }[] = [];
+  /** Register a handler for `template` below the repo (or, with `root`, the API root). */
+  const route = (method: string, template: string, handler: Handler, root = false) => {
+    const pattern = new RegExp(
+      "^" +
+        ((root ? "" : repoPath) + template).replace(/\{(\w+)\*?\}/g, (m, name: string) =>
+          m.endsWith("*}") ? `(?<${name}>.+)` : `(?<${name}>[^/]+)`
+        ) +
+        "$"
+    );
+    routes.push({ method, pattern, handler });
+  };
+
+  route("GET", "", () => ({
+    status: 200,
+    data: {
+      ...repositoryJson(),
+      permissions: options.permissions ?? { admin: true, push: true, pull: true },
+    },
+  }));
+
+  // ---- git refs --------------------------------------------------------------
+
+  route("GET", "/git/ref/heads/{branch*}", ({ branch }) => {
+    const b = state.branches.get(branch);
+    if (!b) throw new HttpError(404, "Not Found");
+    return {
+      status: 200,
+      data: { ref: `refs/heads/${branch}`, object: { sha: b.sha, type: "commit" } },
+    };
+  });
+
+  route("POST", "/git/refs", (_, body) => {
+    const ref = String(body.ref ?? "");
+    const sha = String(body.sha ?? "");
+    if (!ref.startsWith("refs/heads/")) {
+      throw new HttpError(422, "Reference name must start with 'refs/heads/'");
+    }
+    const name = ref.slice("refs/heads/".length);
+    if (state.branches.has(name)) throw new HttpError(422, "Reference already exists");
+
+    moveBranch(name, sha);
+    return { status: 201, data: { ref, object: { sha, type: "commit" } } };
+  });
+
+  route("DELETE", "/git/refs/heads/{branch*}", ({ branch }) => {
+    if (!state.branches.delete(branch)) {
+      throw new HttpError(422, "Reference does not exist");
+    }
+    return { status: 204 };
+  });
+
+  route("GET", "/git/matching-refs/heads/{prefix*}", ({ prefix }, _, query) => {
+    const refs = [...state.branches]
+      .filter(([name]) => name.startsWith(prefix))
+      .map(([name, b]) => ({ ref: `refs/heads/${name}`, object: { sha: b.sha, type: "commit" } }));
+    return paged(refs, query);
+  });
+
+  route("PATCH", "/git/refs/heads/{branch*}", ({ branch }, body) => {
+    branchOr404(branch);
+    const sha = String(body.sha ?? "");
+    moveBranch(branch, sha);
+    return { status: 200, data: { ref: `refs/heads/${branch}`, object: { sha, type: "commit" } } };
+  });
+
+  route("GET", "/git/commits/{sha}", ({ sha }) => {
+    const commit = state.commits.get(sha);
+    if (!commit) throw new HttpError(404, "Not Found");
+    return { status: 200, data: commitJson(commit) };
+  });
+
+  route("POST", "/git/commits", (_, body) => {
+    const tree = String(body.tree ?? "");
+    const files = state.trees.get(tree);
+    if (!files) throw new HttpError(422, "Tree SHA does not exist");
+    const parents = ((body.parents as string[] | undefined) ?? []).map(String);
+    const sha = commitTree(files, String(body.message ?? ""), parents);
+    return { status: 201, data: commitJson(state.commits.get(sha)!) };
+  });
+
+  route("POST", "/git/trees", (_, body) => {
+    const baseTree = body.base_tree ? state.trees.get(String(body.base_tree)) : new Map<string, FakeFile>();
+    if (!baseTree) throw new HttpError(422, "base_tree does not exist");
+    const files = new Map(baseTree);
+    for (const entry of (body.tree as Record<string, unknown>[] | undefined) ?? []) {
+      const entryPath = String(entry.path);
+      if (entry.sha === null) {
+        files.delete(entryPath);
+      } else if (typeof entry.content === "string") {
+        const content = Buffer.from(entry.content, "utf-8").toString("base64");
+        files.set(entryPath, { sha: fakeSha(content), content });
+      } else {
+        throw new HttpError(422, "Only inline content or deletions are supported");
+      }
+    }
+    const sha = fakeSha([...files].map(([p, f]) => `${p}:${f.sha}`).sort().join("\n"));
+    state.trees.set(sha, files);
+    return { status: 201, data: { sha, truncated: false } };
+  });
+
+  // ---- contents --------------------------------------------------------------
+
+  route("GET", "/contents/{path*}", ({ path }, _, query) => {
+    const branch = branchOr404(query.get("ref") ?? defaultBranch);
+    const file = branch.files.get(path);
+    if (file) {
+      return {
+        status: 200,
+        data: { type: "file", path, name: path.split("/").pop(), sha: file.sha, content: file.content, encoding: "base64" },
+      };
+    }
+
+    // Directory listing: direct children only, like the real API.
+    const prefix = `${path.replace(/\/+$/, "")}/`;
+    const children = new Map<string, { type: string; path: string; name: string; sha: string }>();
+    for (const [filePath, f] of branch.files) {
+      if (!filePath.startsWith(prefix)) continue;
+      const [name, ...rest] = filePath.slice(prefix.length).split("/");
+      children.set(name, rest.length
+        ? { type: "dir", path: prefix + name, name, sha: fakeSha(prefix + name) }
+        : { type: "file", path: filePath, name, sha: f.sha });
+    }
+    if (children.size === 0) throw new HttpError(404, "Not Found");
+    return { status: 200, data: [...children.values()] };
+  });
+
+  route("PUT", "/contents/{path*}", ({ path }, body) => {
+    const branch = branchOr404(String(body.branch ?? defaultBranch));
+    const existing = branch.files.get(path);
+    if (existing && !body.sha) {
+      throw new HttpError(422, 'Invalid request.\n\n"sha" wasn\'t supplied.');
+    }
+    if (existing && body.sha !== existing.sha) {
+      throw new HttpError(409, `${path} does not match ${String(body.sha)}`);
+    }
+
+    const content = String(body.content ?? "");
+    const fileSha = fakeSha(content);
+    branch.files.set(path, { sha: fileSha, content });
+    branch.sha = commitTree(branch.files, String(body.message ?? ""), [branch.sha]);
+
+    return {
+      status: existing ? 200 : 201,
+      data: {
+        content: { path, sha: fileSha },
+        commit: { sha: branch.sha, message: body.message },
+      },
+    };
+  });
+
+  // ---- labels ----------------------------------------------------------------
+
+  route("GET", "/labels/{name}", ({ name }) => {
+    const label = state.labels.get(name);
+    if (!label) throw new HttpError(404, "Not Found");
+    return { status: 200, data: label };
+  });
+
+  route("POST", "/labels", (_, body) => {
+    const name = String(body.name ?? "");
+    if (state.labels.has(name)) throw new HttpError(422, "Validation Failed");
+    const label = {
+      name,
+      color: String(body.color ?? "ededed"),
+      description: String(body.description ?? ""),
+    };
+    state.labels.set(name, label);
+    return { status: 201, data: label };
+  });
+
+  // ---- issues & comments -----------------------------------------------------
+
+  route("GET", "/issues", (_, __, query) => {
+    const wanted = query.get("state") ?? "open";
+    const labels = (query.get("labels") ?? "").split(",").filter(Boolean);
+    const since = query.get("since");
+    const issues = [...state.issues.values()]
+      .filter((i) => wanted === "all" || i.state === wanted)
+      .filter((i) => labels.every((l) => i.labels.includes(l)))
+      .filter((i) => !since || updatedAt(i) >= since)
+      .map((i) =>
+        i.pull
+          ? { ...issueJson(i), pull_request: { url: `${htmlBase}/pull/${i.number}` } }
+          : issueJson(i)
+      );
+    return paged(issues, query);
+  });
+
+  route("POST", "/issues", (_, body) => {
+    const issue: FakeIssue = {
+      number: nextNumber++,
+      title: String(body.title ?? ""),
+      body: String(body.body ?? ""),
+      state: "open",
+      user: login,
+      labels: ((body.labels as string[] | undefined) ?? []).map(String),
+      comments: [],
+      created_at: new Date().toISOString(),
+      closed_at: null,
+    };
+    state.issues.set(issue.number, issue);
+    deliver("issues", { action: "opened", issue: issueJson(issue) });
+    return { status: 201, data: issueJson(issue) };
+  });
+
+  route("PATCH", "/issues/{issue_number}", ({ issue_number }, body) => {
+    const issue = issueOr404(issue_number);
+    if (typeof body.title === "string") issue.title = body.title;
+    if (typeof body.body === "string") issue.body = body.body;
+    if (body.state === "closed" && issue.state === "open") {
+      issue.state = "closed";
+      issue.closed_at = new Date().toISOString();
+    } else if (body.state === "open") {
+      issue.state = "open";
+      issue.closed_at = null;
+    }
+    return { status: 200, data: issueJson(issue) };
+  });
+
+  route("POST", "/issues/{issue_number}/comments", ({ issue_number }, body) => {
+    const issue = issueOr404(issue_number);
+    const comment: FakeComment = {
+      id: nextId++,
+      user: login,
+      body: String(body.body ?? ""),
+      created_at: new Date().toISOString(),
+    };
+    issue.comments.push(comment);
+    deliver("issue_comment", {
+      action: "created",
+      // GitHub marks comments on PRs by a `pull_request` key on the issue.
+      issue: issue.pull ? { ...issueJson(issue), pull_request: { url: `${htmlBase}/pull/${issue.number}` } } : issueJson(issue),
+      comment: commentJson(issue, comment),
+    });
+    return { status: 201, data: commentJson(issue, comment) };
+  });
+
+  route("GET", "/issues/{issue_number}/comments", ({ issue_number }, _, query) => {
+    const issue = issueOr404(issue_number);
+    return paged(issue.comments.map((c) => commentJson(issue, c)), query);
+  });
+
+  // Repository-wide, oldest first; `since` filters on update time, which
+  // for these never-edited comments is their creation time.
+  route("GET", "/issues/comments", (_, __, query) => {
+    const since = query.get("since");
+    const comments = [...state.issues.values()]
+      .flatMap((i) => i.comments.map((c) => ({ issue: i, comment: c })))
+      .filter(({ comment }) => !since || comment.created_at >= since)
+      .sort((a, b) => a.comment.created_at.localeCompare(b.comment.created_at) || a.comment.id - b.comment.id)
+      .map(({ issue, comment }) => commentJson(issue, comment));
+    return paged(query.get("direction") === "desc" ? comments.reverse() : comments, query);
+  });
+
+  // ---- pull requests ---------------------------------------------------------
+
+  route("POST", "/pulls", (_, body) => {
+    const head = String(body.head ?? "");
+    const base = String(body.base ?? "");
+    branchOr404(base);
+    if (!state.branches.has(head)) throw new HttpError(422, "Validation Failed");
+
+    const pull: FakePull = {
+      number: nextNumber++,
+      head,
+      base,
+      draft: body.draft === true,
+      merged: false,
+      merged_at: null,
+      merge_commit_sha: null,
+      warmupPollsLeft: warmupPolls,
+      files: null,
+      requested_reviewers: [],
+      reviews: [],
+      merge_method: null,
+    };
+    const issue: FakeIssue = {
+      number: pull.number,
+      title: String(body.title ?? ""),
+      body: String(body.body ?? ""),
+      state: "open",
+      user: login,
+      labels: [],
+      comments: [],
+      created_at: new Date().toISOString(),
+      closed_at: null,
+      pull,
+    };
+    state.issues.set(pull.number, issue);
+    deliver("pull_request", { action: "opened", number: pull.number, pull_request: pullJson(issue, pull) });
+    return { status: 201, data: pullJson(issue, pull) };
+  });
+
+  // Newest first unless direction=asc, like GitHub's default sort.
+  route("GET", "/pulls", (_, __, query) => {
+    const wanted = query.get("state") ?? "open";
+    const pulls = [...state.issues.values()]
+      .filter((i) => i.pull && (wanted === "all" || i.state === wanted))
+      .map((i) => pullJson(i, i.pull!));
+    return paged(query.get("direction") === "asc" ? pulls : pulls.reverse(), query);
+  });
+
+  route("GET", "/pulls/{pull_number}/reviews", ({ pull_number }, _, query) => {
+    const pull = pullOr404(pull_number);
+    return paged(
+      pull.reviews.map((r) => ({
+        ...r,
+        user: userJson(r.user),
+        html_url: `${htmlBase}/pull/${pull.number}#pullrequestreview-${r.id}`,
+      })),
+      query
+    );
+  });
+
+  route("GET", "/pulls/{pull_number}/files", ({ pull_number }, _, query) => {
+    const pull = pullOr404(pull_number);
+    const head = state.branches.get(pull.head);
+    const base = state.branches.get(pull.base);
+    const paths = pull.files ?? (head && base ? changedFiles(head, base) : []);
+    return paged(
+      paths.map((filename) => ({ filename, status: "added" })),
+      query
+    );
+  });
+
+  route("GET", "/pulls/{pull_number}", ({ pull_number }) => {
+    const pull = pullOr404(pull_number);
+    const issue = issueOr404(pull_number);
+
+    let mergeable: boolean | null;
+    if (pull.merged || issue.state === "closed") {
+      mergeable = null;
+    } else if (pull.warmupPollsLeft > 0) {
+      pull.warmupPollsLeft--;
+      mergeable = null;
+    } else {
+      mergeable = state.branches.has(pull.head) && !pull.draft;
+    }
+    return { status: 200, data: { ...pullJson(issue, pull), mergeable } };
+  });
+
+  route("PATCH", "/pulls/{pull_number}", ({ pull_number }, body) => {
+    const pull = pullOr404(pull_number);
+    const issue = issueOr404(pull_number);
+    if (typeof body.title === "string") issue.title = body.title;
+    if (typeof body.body === "string") issue.body = body.body;
+    if (body.state === "closed" && issue.state === "open") {
+      issue.state = "closed";
+      issue.closed_at = new Date().toISOString();
+    } else if (body.state === "open" && !pull.merged) {
+      issue.state = "open";
+      issue.closed_at = null;
+    }
+    return { status: 200, data: pullJson(issue, pull) };
+  });
+
+  route("POST", "/pulls/{pull_number}/requested_reviewers", ({ pull_number }, body) => {
+    const pull = pullOr404(pull_number);
+    const issue = issueOr404(pull_number);
+    const wanted = [
+      ...((body.reviewers as string[] | undefined) ?? []),
+      ...((body.team_reviewers as string[] | undefined) ?? []),
+    ];
+    for (const login of wanted) {
+      if (!pull.requested_reviewers.includes(login)) pull.requested_reviewers.push(login);
+    }
+    return { status: 201, data: pullJson(issue, pull) };
+  });
+
+  // Only the one mutation the orchestrator sends; anything else is a
+  // GraphQL-level error, which GitHub reports with status 200.
+  route(
+    "POST",
+    "/graphql",
+    (_params, body) => {
+      const query = String(body.query ?? "");
+      const variables = (body.variables ?? {}) as Record<string, unknown>;
+      if (!/markPullRequestReadyForReview/.test(query)) {
+        return { status: 200, data: { errors: [{ message: "Unsupported query in fake server" }] } };
+      }
+      const pull = [...state.issues.values()]
+        .map((i) => i.pull)
+        .find((p) => p && pullNodeId(p.number) === variables.id);
+      if (!pull) {
+        return {
+          status: 200,
+          data: { errors: [{ message: `Could not resolve to a node with the global id of '${String(variables.id)}'` }] },
+        };
+      }
+      pull.draft = false;
+      return {
+        status: 200,
+        data: { data: { markPullRequestReadyForReview: { pullRequest: { number: pull.number, isDraft: false } } } },
+      };
+    },
+    true
+  );
+
+  route("PUT", "/pulls/{pull_number}/merge", ({ pull_number }, body) => {
+    const pull = pullOr404(pull_number);
+    const issue = issueOr404(pull_number);
+    if (pull.merged) throw new HttpError(405, "Pull Request is already merged");
+    if (issue.state === "closed" || pull.draft || !state.branches.has(pull.head)) {
+      throw new HttpError(405, "Pull Request is not mergeable");
+    }
+
+    const head = branchOr404(pull.head);
+    const base = branchOr404(pull.base);
+    pull.files = changedFiles(head, base);
+    for (const [filePath, file] of head.files) base.files.set(filePath, file);
+    base.sha = commitTree(
+      base.files,
+      String(body.commit_title ?? `Merge pull request #${pull.number}`),
+      [base.sha, head.sha]
+    );
+
+    const now = new Date().toISOString();
+    pull.merged = true;
+    pull.merged_at = now;
+    pull.merge_method = String(body.merge_method ?? "merge");
+    pull.merge_commit_sha = base.sha;
+    issue.state = "closed";
+    issue.closed_at = now;
+
+    // GitHub closes issues referenced with closing keywords on merge.
+    for (const match of issue.body.matchAll(/\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\s+#(\d+)/gi)) {
+      const linked = state.issues.get(Number(match[1]));
+      if (linked && linked.state === "open" && !linked.pull) {
+        linked.state = "closed";
+        linked.closed_at = now;
+      }
+    }
+    deliver("pull_request", { action: "closed", number: pull.number, pull_request: pullJson(issue, pull) });
+
+    return {
+      status: 200,
+      data: {
+        sha: base.sha,
+        merged: true,
+        message: "Pull Request successfully merged",
+        commit_title: body.commit_title,
+      },
+    };
+  });
+
+  // ---- CI checks ---------------------------------------------------------------
+
+  route("GET", "/commits/{ref*}/check-runs", ({ ref }, _, query) => {
+    const commit = commitOr422(ref);
+    const runs = startedChecks(commit, "check-run").map((run) => ({
+      id: run.id,
+      name: run.name,
+      head_sha: commit.sha,
+      status: run.conclusion === null ? "in_progress" : "completed",
+      conclusion: run.conclusion,
+      started_at: run.startedAt,
+      completed_at: run.completedAt,
+      check_suite: { id: 1 },
+    }));
+    const { data, nextPage } = paged(runs, query);
+    return { status: 200, data: { total_count: runs.length, check_runs: data }, nextPage };
+  });
+
+  // One suite per commit, from a single fake App.
+  route("GET", "/commits/{ref*}/check-suites", ({ ref }) => {
+    const commit = commitOr422(ref);
+    const runs = startedChecks(commit, "check-run");
+    const suites =
+      runs.length === 0
+        ? []
+        : [
+            {
+              id: 1,
+              head_sha: commit.sha,
+              status: runs.every((r) => r.conclusion !== null) ? "completed" : "in_progress",
+              conclusion: null,
+              latest_check_runs_count: runs.length,
+              created_at: runs.map((r) => r.startedAt).reduce((a, b) => (a < b ? a : b)),
+            },
+          ];
+    return { status: 200, data: { total_count: suites.length, check_suites: suites } };
+  });
+
+  route("GET", "/commits/{ref*}/status", ({ ref }) => {
+    const commit = commitOr422(ref);
+    const statuses = startedChecks(commit, "status").map((s) => ({
+      id: s.id,
+      context: s.name,
+      state: s.conclusion ?? "pending",
+      description: null,
+      created_at: s.startedAt,
+      updated_at: s.completedAt ?? s.startedAt,
+    }));
+    const combined = statuses.some((s) => s.state === "failure" || s.state === "error")
+      ? "failure"
+      : statuses.length === 0 || statuses.some((s) => s.state === "pending")
+        ? "pending"
+        : "success";
+    return {
+      status: 200,
+      data: { state: combined, sha: commit.sha, total_count: statuses.length, statuses },
+    };
+  });
+
+  route("GET", "/branches/{branch*}/protection/required_status_checks", ({ branch }) => {
+    branchOr404(branch);
+    if (branch !== defaultBranch || !state.requiredChecks) {
+      throw new HttpError(404, "Branch not protected");
+    }
+    return {
+      status: 200,
+      data: {
+        strict: false,
+        contexts: state.requiredChecks,
+        checks: state.requiredChecks.map((context) => ({ context, app_id: null })),
+      },
+    };
+  });
+
+  // ---- HTTP plumbing ---------------------------------------------------------
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const method = (req.method ?? "GET").toUpperCase();
+      const pathname = decodeURIComponent(url.pathname);
+      state.requests.push(`${method} ${pathname}`);
+
+      rateRemaining = Math.max(rateRemaining - 1, 0);
+      const headers: Record<string, string> = {
+        "content-type": "application/json; charset=utf-8",
+        "x-github-request-id": randomUUID(),
+        "x-ratelimit-limit": "5000",
+        "x-ratelimit-remaining": String(rateRemaining),
+        "x-ratelimit-reset": String(rateReset),
+        "x-ratelimit-resource": "core",
+      };
+
+      const send = (status: number, data?: unknown) => {
+        res.writeHead(status, headers);
+        res.end(data === undefined ? undefined : JSON.stringify(data));
+      };
+
+      if (!req.headers.authorization) {
+        send(401, { message: "Requires authentication" });
+        return;
+      }
+
+      const fault = faults.find(
+        (f) => f.left > 0 && f.method === method && f.path.test(pathname)
+      );
+      if (fault) {
+        fault.left--;
+        Object.assign(headers, fault.headers);
+        send(fault.status, { message: fault.message ?? "Injected fault" });
+        return;
+      }
+
+      try {
+        const body = chunks.length
+          ? (JSON.parse(Buffer.concat(chunks).toString("utf-8")) as Record<string, unknown>)
+          : {};
+        for (const r of routes) {
+          if (r.method !== method) continue;
+          const match = r.pattern.exec(pathname);
+          if (!match) continue;
+          const result = r.handler(match.groups ?? {}, body, url.searchParams);
+          if (result.nextPage !== undefined) {
+            const next = new URL(url.pathname + url.search, `http://${req.headers.host}`);
+            next.searchParams.set("page", String(result.nextPage));
+            headers.link = `<${next.toString()}>; rel="next"`;
+          }
+          send(result.status, result.data);
+          return;
+        }
+        send(404, { message: "Not Found" });
+      } catch (err) {
+        if (err instanceof HttpError) {
+          send(err.status, {
+            message: err.message,
+            documentation_url: "https://docs.github.com/rest",
+          });
+        } else {
+          send(500, { message: String(err) });
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(options.port ?? 0, "127.0.0.1", resolve)
+  );
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    state,
+    injectFault: (fault) => {
+      faults.push({ ...fault, method: fault.method.toUpperCase(), left: fault.times ?? 1 });
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((err) => (err ? reject(err) : resolve()))
+      ),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+/** Paths whose content on `head` differs from (or is absent on) `base`. */
+function changedFiles(head: FakeBranch, base: FakeBranch): string[] {
+  return [...head.files]
+    .filter(([p, f]) => base.files.get(p)?.sha !== f.sha)
+    .map(([p]) => p);
+}
+
+/** Deterministic 40-hex-char SHA derived from arbitrary input. */
+function fakeSha(input: string): string {
+  return createHash("sha1").update(input).digest("hex");
+}
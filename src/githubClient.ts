@@ -6,12 +6,24 @@
  * (issueManager, prManager, etc.).
  *
  * All API calls flow through this module so that authentication,
- * rate-limit handling, and logging are centralised.
+ * retries, rate-limit handling, and logging are centralised — and so
+ * that every request is held to the repository allow-list (repoScope.ts).
+ * Calls that fail for good surface as typed errors (githubErrors.ts).
  */
 
 import { Octokit } from "@octokit/rest";
-import { config } from "./config";
-import { log, sleep } from "./utils";
+import { performance } from "perf_hooks";
+import { recordApiRequest, recordApiRequestRetry, recordApiRetries } from "./analytics";
+import { config, RetryReason } from "./config";
+import { recordRequest, replayRequest } from "./cassette";
+import { interceptRequest } from "./dryRun";
+import { BranchExistsError, NotFoundError, ValidationError, noteFailedRoute, toGitHubError } from "./githubErrors";
+import { budgetedRequest } from "./rateBudget";
+import { RepoScopeError, scopedRequest } from "./repoScope";
+import { routeKey } from "./requestTypes";
+import { decideRetry } from "./retryPolicy";
+import { setSpanAttributes, tracedRequest, tracedSleep, withSpan } from "./tracing";
+import { log } from "./utils";
 
 // ---------------------------------------------------------------------------
 // Octokit singleton
@@ -20,6 +32,7 @@ import { log, sleep } from "./utils";
 /** Authenticated Octokit instance used by all managers. */
 export const octokit = new Octokit({
   auth: config.githubToken,
+  baseUrl: config.apiBaseUrl,
   userAgent: "github-activity-orchestrator/1.0.0",
   log: {
     debug: (msg: string) => log.debug("[octokit]", msg),
@@ -29,67 +42,119 @@ export const octokit = new Octokit({
   },
 });
 
+// Request hooks: the first registered wraps closest to the network.
+
+// Cassette: record real traffic to disk, or serve it back offline.
+if (config.cassetteMode === "record") {
+  octokit.hook.wrap("request", (request, options) =>
+    recordRequest(request, options)
+  );
+} else if (config.cassetteMode === "replay") {
+  octokit.hook.wrap("request", (_request, options) => replayRequest(options));
+}
+
+// Tracing: a client span per request, inside the budget so that pacing
+// waits are not counted as API latency.
+octokit.hook.wrap("request", (request, options) => tracedRequest(request, options));
+
+// Accounting: count and time every request sent, per route, for the
+// run's analytics.  Also inside the budget, for the same reason.
+octokit.hook.wrap("request", async (request, options) => {
+  const started = performance.now();
+  try {
+    const response = await request(options);
+    recordApiRequest(routeKey(options), response.status, performance.now() - started);
+    return response;
+  } catch (err) {
+    const { status, response } = err as { status?: number; response?: unknown };
+    const answered = typeof status === "number" && response !== undefined;
+    recordApiRequest(routeKey(options), answered ? status : null, performance.now() - started);
+    throw err;
+  }
+});
+
+// Rate budget: pace requests before GitHub refuses them.  Pointless when
+// replaying, since the recorded quota headers are stale.
+if (config.cassetteMode !== "replay") {
+  octokit.hook.wrap("request", (request, options) =>
+    budgetedRequest(request, options)
+  );
+}
+
+// Dry run: writes are planned and answered synthetically, never sent.
+if (config.dryRun) {
+  octokit.hook.wrap("request", async (request, options) => {
+    return interceptRequest(options) ?? request(options);
+  });
+}
+
+// Error context: note which route template a failed request used, which
+// the error itself only has expanded.
+octokit.hook.wrap("request", async (request, options) => {
+  try {
+    return await request(options);
+  } catch (err) {
+    noteFailedRoute(err, options.url);
+    throw err;
+  }
+});
+
+// Repository scope: outermost, so nothing out of scope is even planned,
+// recorded or counted.
+octokit.hook.wrap("request", (request, options) =>
+  scopedRequest(request, options)
+);
+
 // Convenience aliases used everywhere.
 export const owner = config.owner;
 export const repo = config.repo;
 
 // ---------------------------------------------------------------------------
-// Rate-limit aware request wrapper
+// Retrying request wrapper
 // ---------------------------------------------------------------------------
 
 /**
- * Execute an async GitHub API call with basic rate-limit awareness.
+ * Execute an async GitHub API call under the configured retry policy.
  *
- * If the call fails with a 403 (secondary rate-limit) or 429, we wait
- * for the amount of time GitHub tells us to and retry once.  All other
- * errors propagate immediately.
+ * Rate limits, transient 5xx responses and network errors are retried
+ * with back-off (see retryPolicy.ts); primary rate limits sleep until the
+ * quota resets.  Calls that needed retries are reported to analytics.
+ * All other errors propagate immediately.  API failures propagate as the
+ * matching GitHubApiError subclass (githubErrors.ts); scope refusals as
+ * RepoScopeError.  Each call is traced as a span named `label`.
  */
 export async function withRateLimit<T>(
   label: string,
   fn: () => Promise<T>
 ): Promise<T> {
-  try {
-    return await fn();
-  } catch (err: unknown) {
-    if (isRateLimited(err)) {
-      const waitMs = retryAfterMs(err);
-      log.warn(
-        `Rate-limited during "${label}". Waiting ${Math.ceil(waitMs / 1000)}s before retry…`
-      );
-      await sleep(waitMs);
-      return fn(); // single retry
-    }
-    throw err;
-  }
-}
-
-// ---------------------------------------------------------------------------
-// Internals
-// ---------------------------------------------------------------------------
-
-/** Check whether an Octokit error is a rate-limit response. */
-function isRateLimited(err: unknown): boolean {
-  if (typeof err !== "object" || err === null) return false;
-  const status = (err as Record<string, unknown>).status;
-  return status === 403 || status === 429;
-}
-
-/** Extract Retry-After (or a sensible default) from a rate-limit error. */
-function retryAfterMs(err: unknown): number {
-  const DEFAULT_WAIT = 60_000; // 60 s
-  if (typeof err !== "object" || err === null) return DEFAULT_WAIT;
+  const reasons: RetryReason[] = [];
 
-  const headers = (err as Record<string, unknown>).response as
-    | Record<string, unknown>
-    | undefined;
-  if (!headers) return DEFAULT_WAIT;
+  return withSpan(label, { "github.operation": label }, async () => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await fn();
+        if (reasons.length > 0) recordApiRetries(label, reasons);
+        return result;
+      } catch (err: unknown) {
+        const { reason, delayMs } = decideRetry(err, attempt, config.retry);
+        if (reason === null) {
+          if (reasons.length > 0) recordApiRetries(label, reasons);
+          // A scope refusal is a 403 RequestError so that it is never retried;
+          // keep it as it is rather than have it typed as a PermissionError.
+          throw err instanceof RepoScopeError ? err : toGitHubError(err, label);
+        }
 
-  const raw = (headers as Record<string, unknown>)["retry-after"];
-  if (typeof raw === "string") {
-    const seconds = parseInt(raw, 10);
-    if (Number.isFinite(seconds)) return seconds * 1000;
-  }
-  return DEFAULT_WAIT;
+        reasons.push(reason);
+        recordApiRequestRetry();
+        setSpanAttributes({ "github.retries": reasons.length });
+        log.warn(
+          `"${label}" failed (${reason}); retry ${attempt}/${config.retry.maxAttempts - 1} ` +
+            `in ${Math.ceil(delayMs / 1000)}s…`
+        );
+        await tracedSleep(delayMs, `retry (${reason})`);
+      }
+    }
+  });
 }
 
 // ---------------------------------------------------------------------------
@@ -119,19 +184,27 @@ export async function getDefaultBranchSha(): Promise<{
 
 /**
  * Create a new branch from a given SHA.
+ * Throws BranchExistsError when the name is already taken.
  */
 export async function createBranch(
   branchName: string,
   sha: string
 ): Promise<void> {
-  await withRateLimit("create-branch", () =>
-    octokit.git.createRef({
-      owner,
-      repo,
-      ref: `refs/heads/${branchName}`,
-      sha,
-    })
-  );
+  try {
+    await withRateLimit("create-branch", () =>
+      octokit.git.createRef({
+        owner,
+        repo,
+        ref: `refs/heads/${branchName}`,
+        sha,
+      })
+    );
+  } catch (err) {
+    if (err instanceof ValidationError && /reference already exists/i.test(err.detail)) {
+      throw new BranchExistsError(branchName, err);
+    }
+    throw err;
+  }
   log.info(`Created branch: ${branchName}`);
 }
 
@@ -149,17 +222,20 @@ export async function commitFile(opts: {
   // Check if file already exists (to get its SHA for an update).
   let existingSha: string | undefined;
   try {
-    const { data } = await octokit.repos.getContent({
-      owner,
-      repo,
-      path: opts.path,
-      ref: opts.branch,
-    });
+    const { data } = await withRateLimit("get-content", () =>
+      octokit.repos.getContent({
+        owner,
+        repo,
+        path: opts.path,
+        ref: opts.branch,
+      })
+    );
     if (!Array.isArray(data) && data.type === "file") {
       existingSha = data.sha;
     }
-  } catch {
+  } catch (err) {
     // 404 → file does not exist yet, which is fine.
+    if (!(err instanceof NotFoundError)) throw err;
   }
 
   const { data } = await withRateLimit("commit-file", () =>
@@ -179,6 +255,58 @@ export async function commitFile(opts: {
   return commitSha;
 }
 
+/**
+ * Remove several files from a branch in a single commit (Git Data API).
+ *
+ * Returns the SHA of the new commit.
+ */
+export async function deleteFiles(opts: {
+  branch: string;
+  paths: readonly string[];
+  message: string;
+}): Promise<string> {
+  const { data: ref } = await withRateLimit("get-ref", () =>
+    octokit.git.getRef({ owner, repo, ref: `heads/${opts.branch}` })
+  );
+  const { data: head } = await withRateLimit("get-commit", () =>
+    octokit.git.getCommit({ owner, repo, commit_sha: ref.object.sha })
+  );
+
+  const { data: tree } = await withRateLimit("create-tree", () =>
+    octokit.git.createTree({
+      owner,
+      repo,
+      base_tree: head.tree.sha,
+      tree: opts.paths.map((p) => ({
+        path: p,
+        mode: "100644" as const,
+        type: "blob" as const,
+        sha: null,
+      })),
+    })
+  );
+  const { data: commit } = await withRateLimit("create-commit", () =>
+    octokit.git.createCommit({
+      owner,
+      repo,
+      message: opts.message,
+      tree: tree.sha,
+      parents: [ref.object.sha],
+    })
+  );
+  await withRateLimit("update-ref", () =>
+    octokit.git.updateRef({
+      owner,
+      repo,
+      ref: `heads/${opts.branch}`,
+      sha: commit.sha,
+    })
+  );
+
+  log.info(`Removed ${opts.paths.length} file(s) from ${opts.branch} (${commit.sha})`);
+  return commit.sha;
+}
+
 /**
  * Delete a branch. Fires-and-forgets; failures are logged but not thrown.
  */
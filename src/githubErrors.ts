@@ -0,0 +1,342 @@
+/**
+ * githubErrors.ts — Typed errors for failed GitHub API calls.
+ *
+ * `withRateLimit()` (githubClient.ts) turns every Octokit failure it
+ * gives up on into one of:
+ *
+ *   NotFoundError     404
+ *   PermissionError   401, or a 403 that is not a rate limit
+ *   ValidationError   422, with GitHub's field errors
+ *   ConflictError     409, or 405 for an object in the wrong state
+ *   RateLimitError    primary or secondary rate limit (403/429), or the
+ *                     rate budget's wait too long (never sent)
+ *   ServerError       5xx
+ *   NetworkError      no response at all
+ *
+ * and plain GitHubApiError for any other status.  Each carries the
+ * operation label, HTTP method, route template, status, the
+ * x-github-request-id to quote to GitHub Support, and a remediation
+ * hint.  Managers narrow expected cases further (BranchExistsError,
+ * NotMergeableError) so callers handle them on purpose rather than by
+ * inspecting statuses.
+ */
+
+import { classifyError } from "./retryPolicy";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Where a failed call went and how GitHub answered. */
+export interface RequestContext {
+  /** withRateLimit() label, e.g. "create-branch". */
+  operation: string;
+  method: string;
+  /** Route template, e.g. "/repos/{owner}/{repo}/git/refs"; the path when unknown. */
+  route: string;
+  /** HTTP status; null when no response arrived. */
+  status: number | null;
+  /** x-github-request-id response header. */
+  requestId: string | null;
+}
+
+/** One entry of a 422 response's `errors` array. */
+export interface FieldError {
+  resource?: string;
+  field?: string;
+  code: string;
+  message?: string;
+}
+
+/** The subset of an Octokit RequestError we read. */
+interface RequestErrorLike {
+  status?: number;
+  message?: string;
+  request?: { method?: string; url?: string };
+  response?: {
+    headers?: Record<string, string | number | undefined>;
+    data?: unknown;
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Error classes
+// ---------------------------------------------------------------------------
+
+/** A GitHub API call that failed for good (after any retries). */
+export class GitHubApiError extends Error {
+  readonly operation: string;
+  readonly method: string;
+  readonly route: string;
+  readonly status: number | null;
+  readonly requestId: string | null;
+
+  constructor(
+    /** GitHub's own explanation, e.g. "Reference already exists". */
+    readonly detail: string,
+    context: RequestContext,
+    /** What the operator can do about it. */
+    readonly hint: string,
+    cause?: unknown
+  ) {
+    super(
+      `${context.operation} failed: ${context.method} ${context.route} → ` +
+        `${context.status ?? "no response"}: ${detail}` +
+        (context.requestId ? ` (request ${context.requestId})` : ""),
+      { cause }
+    );
+    this.name = "GitHubApiError";
+    this.operation = context.operation;
+    this.method = context.method;
+    this.route = context.route;
+    this.status = context.status;
+    this.requestId = context.requestId;
+  }
+
+  /** The context, for re-raising as a narrower error. */
+  get context(): RequestContext {
+    const { operation, method, route, status, requestId } = this;
+    return { operation, method, route, status, requestId };
+  }
+}
+
+export class NotFoundError extends GitHubApiError {
+  constructor(detail: string, context: RequestContext, hint?: string, cause?: unknown) {
+    super(
+      detail,
+      context,
+      hint ??
+        "Check that the object exists. GitHub also answers 404 when the token cannot see a private repository.",
+      cause
+    );
+    this.name = "NotFoundError";
+  }
+}
+
+export class PermissionError extends GitHubApiError {
+  constructor(detail: string, context: RequestContext, hint?: string, cause?: unknown) {
+    super(
+      detail,
+      context,
+      hint ??
+        (context.status === 401
+          ? "GITHUB_TOKEN is invalid or expired; create a new token."
+          : "GITHUB_TOKEN lacks a permission this call needs; see the token permissions in the README."),
+      cause
+    );
+    this.name = "PermissionError";
+  }
+}
+
+export class ValidationError extends GitHubApiError {
+  constructor(
+    detail: string,
+    context: RequestContext,
+    /** GitHub's per-field errors, if it sent any. */
+    readonly errors: FieldError[] = [],
+    hint?: string,
+    cause?: unknown
+  ) {
+    super(detail, context, hint ?? "GitHub rejected the request's parameters; see the field errors.", cause);
+    this.name = "ValidationError";
+  }
+}
+
+export class ConflictError extends GitHubApiError {
+  constructor(detail: string, context: RequestContext, hint?: string, cause?: unknown) {
+    super(
+      detail,
+      context,
+      hint ?? "The object changed or is in the wrong state for this call; re-read it and try again.",
+      cause
+    );
+    this.name = "ConflictError";
+  }
+}
+
+export class RateLimitError extends GitHubApiError {
+  constructor(
+    detail: string,
+    context: RequestContext,
+    /** When the quota resets (primary limit), if GitHub said. */
+    readonly resetAt: Date | null,
+    /** How long GitHub asked to wait (secondary limit), if it said. */
+    readonly retryAfterMs: number | null,
+    hint?: string,
+    cause?: unknown
+  ) {
+    super(
+      detail,
+      context,
+      hint ??
+        (resetAt
+          ? `The rate limit resets at ${resetAt.toISOString()}. Run later, create fewer issues per run, ` +
+              "or raise RATE_LIMIT_MAX_WAIT_MS to wait it out."
+          : "GitHub throttled the requests (secondary rate limit). Space runs out or create fewer issues per run."),
+      cause
+    );
+    this.name = "RateLimitError";
+  }
+}
+
+export class ServerError extends GitHubApiError {
+  constructor(detail: string, context: RequestContext, cause?: unknown) {
+    super(
+      detail,
+      context,
+      "GitHub failed to answer, even after retries. Check https://www.githubstatus.com and try again later.",
+      cause
+    );
+    this.name = "ServerError";
+  }
+}
+
+export class NetworkError extends GitHubApiError {
+  constructor(detail: string, context: RequestContext, cause?: unknown) {
+    super(
+      detail,
+      context,
+      "GitHub could not be reached. Check the network, any proxy, and GITHUB_API_URL.",
+      cause
+    );
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * The rate budget (rateBudget.ts) held a request back because the wait
+ * for its slot exceeds RATE_LIMIT_MAX_WAIT_MS.  The request was never
+ * sent, so there is no status.
+ */
+export class RateBudgetExhaustedError extends RateLimitError {
+  constructor(
+    /** Which limit ran out, e.g. "content-creation limit per hour". */
+    readonly limit: string,
+    waitMs: number,
+    context: RequestContext,
+    resetAt: Date | null
+  ) {
+    super(
+      `Rate-limit budget exhausted (${limit}); next slot in ${Math.ceil(waitMs / 1000)}s ` +
+        "exceeds RATE_LIMIT_MAX_WAIT_MS",
+      context,
+      resetAt,
+      waitMs,
+      "The request was not sent. Run later, create fewer issues per run, or raise RATE_LIMIT_MAX_WAIT_MS to wait it out."
+    );
+    this.name = "RateBudgetExhaustedError";
+  }
+}
+
+/** createRef refused: the branch name is taken (422). */
+export class BranchExistsError extends ValidationError {
+  constructor(
+    readonly branch: string,
+    source: GitHubApiError
+  ) {
+    super(
+      source.detail,
+      source.context,
+      source instanceof ValidationError ? source.errors : [],
+      `Branch "${branch}" already exists; choose another name or delete the old branch.`,
+      source
+    );
+    this.name = "BranchExistsError";
+  }
+}
+
+/** The merge endpoint refused a PR that cannot be merged (405). */
+export class NotMergeableError extends ConflictError {
+  constructor(
+    readonly prNumber: number,
+    source: GitHubApiError
+  ) {
+    super(
+      source.detail,
+      source.context,
+      `PR #${prNumber} cannot be merged as it is (conflicts, a draft, or unmet branch protection); ` +
+        "it was left open.",
+      source
+    );
+    this.name = "NotMergeableError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Translation
+// ---------------------------------------------------------------------------
+
+/** Route templates of failed requests, noted by the request hook. */
+const failedRoutes = new WeakMap<object, string>();
+
+/**
+ * Remember the route template `err` came from; called by the request
+ * hook, where the unexpanded template is still known.
+ */
+export function noteFailedRoute(err: unknown, route: string): void {
+  if (typeof err === "object" && err !== null) failedRoutes.set(err, route);
+}
+
+/**
+ * The typed error for `err`, a failure of operation `operation`.
+ * Errors that did not come from an HTTP call are returned unchanged.
+ */
+export function toGitHubError(err: unknown, operation: string): unknown {
+  if (err instanceof GitHubApiError) return err;
+  if (typeof err !== "object" || err === null || typeof (err as RequestErrorLike).status !== "number") {
+    return err;
+  }
+  const { status, request, response } = err as RequestErrorLike & { status: number };
+  const headers = response?.headers ?? {};
+  const data = (response?.data ?? {}) as { message?: unknown; errors?: unknown };
+
+  const context: RequestContext = {
+    operation,
+    method: (request?.method ?? "GET").toUpperCase(),
+    route: failedRoutes.get(err) ?? routePath(request?.url),
+    status: response ? status : null,
+    requestId: headers["x-github-request-id"] !== undefined ? String(headers["x-github-request-id"]) : null,
+  };
+  const fieldErrors = Array.isArray(data.errors) ? (data.errors as FieldError[]) : [];
+  const detail =
+    (typeof data.message === "string" ? data.message : (err as Error).message ?? "Unknown error") +
+    (fieldErrors.length > 0 ? `: ${fieldErrors.map(describeFieldError).join("; ")}` : "");
+
+  const reason = classifyError(err);
+  if (reason === "network") return new NetworkError(detail, context, err);
+  if (reason === "primary-rate-limit" || reason === "secondary-rate-limit") {
+    const reset = Number(headers["x-ratelimit-reset"]);
+    const retryAfter = Number(headers["retry-after"]);
+    return new RateLimitError(
+      detail,
+      context,
+      reason === "primary-rate-limit" && Number.isFinite(reset) ? new Date(reset * 1000) : null,
+      Number.isFinite(retryAfter) ? retryAfter * 1000 : null,
+      undefined,
+      err
+    );
+  }
+  if (status === 404) return new NotFoundError(detail, context, undefined, err);
+  if (status === 401 || status === 403) return new PermissionError(detail, context, undefined, err);
+  if (status === 422) return new ValidationError(detail, context, fieldErrors, undefined, err);
+  if (status === 405 || status === 409) return new ConflictError(detail, context, undefined, err);
+  if (status >= 500) return new ServerError(detail, context, err);
+  return new GitHubApiError(detail, context, "Unexpected response from GitHub; see the detail.", err);
+}
+
+/** "Reference already exists", or "Issue.title missing_field". */
+function describeFieldError(e: FieldError): string {
+  return e.message ?? [e.resource && e.field ? `${e.resource}.${e.field}` : e.resource ?? e.field, e.code]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/** Path of a request URL, without the API host or query. */
+function routePath(url: string | undefined): string {
+  if (!url) return "(unknown route)";
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+}
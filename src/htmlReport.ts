@@ -0,0 +1,605 @@
+/**
+ * htmlReport.ts — Self-contained HTML analytics report with SVG charts.
+ *
+ * Companion to the Markdown report: one static file whose styles and
+ * charts are inline (hand-built SVG; no scripts, fonts or images), so it
+ * can be archived as a CI artifact or opened offline.  Charts:
+ *
+ *   • runs over time (completed / incomplete per hour, day or week),
+ *   • issue → first comment, PR → merge and PR → CI check latency
+ *     trends (per-run median),
+ *   • latency distributions over the report histogram buckets,
+ *   • succeeded / failed / skipped counts per workflow step,
+ *   • passed / failed / pending counts and durations per CI check,
+ *   • webhook delivery latency per event type,
+ *   • requests, errors, retries and latency per GitHub API route.
+ *
+ * Like the other reports it covers the runs in REPORT_WINDOW.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  AggregateStats,
+  ApiRouteStats,
+  CheckStats,
+  DURATION_SERIES,
+  RunRecord,
+  WebhookStats,
+  aggregateRuns,
+  bucketLabel,
+  formatMs,
+  formatPerRun,
+  getAnalyticsStore,
+  loadWindowRuns,
+} from "./analytics";
+import { AnalyticsEvent } from "./analyticsEvents";
+import { config, ReportWindow } from "./config";
+import { describeWindow, percentile } from "./stats";
+import { log } from "./utils";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** How one workflow step fared across the reported runs. */
+export interface StepStats {
+  step: string;
+  action: string;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  /** Mean duration of the runs that executed (not skipped); null if none. */
+  meanDurationMs: number | null;
+  lastError: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Build the HTML report for the runs in `window`. */
+export function generateHtmlReport(
+  window: ReportWindow = config.reportWindow,
+  now: Date = new Date()
+): string {
+  const runs = loadWindowRuns(window, now);
+  const stats = aggregateRuns(runs, describeWindow(window));
+  const steps = summariseSteps(
+    getAnalyticsStore().readEvents({ runIds: runs.map((r) => r.runId!), types: ["step-finished"] })
+  );
+
+  const title = `Orchestrator analytics — ${config.owner}/${config.repo}`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${esc(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>${esc(title)}</h1>
+<p class="meta">Window: ${esc(stats.window)} · generated ${esc(now.toISOString())}</p>
+${section("Summary", summaryTable(stats))}
+${section("Runs over time", runsOverTime(runs))}
+${section("Latency trends", latencyTrends(runs))}
+${section("Latency distributions", latencyDistributions(stats))}
+${section("Workflow steps", stepOutcomes(steps))}
+${section("CI checks", checkOutcomes(stats.checks))}
+${section("Webhook deliveries", webhookLatency(stats.webhooks))}
+${section("API requests by route", apiRouteUsage(stats.apiRoutes))}
+</body>
+</html>
+`;
+}
+
+/**
+ * Write (overwrite) the HTML report to a local file; by default
+ * analytics.html in the working directory, wherever the build lives.
+ */
+export function writeHtmlReport(
+  filePath: string = path.resolve("analytics.html")
+): void {
+  fs.writeFileSync(filePath, generateHtmlReport(), "utf-8");
+  log.info(`HTML analytics report written to ${filePath}`);
+}
+
+/** Fold step-finished events into per-step outcome counts, in first-seen order. */
+export function summariseSteps(events: AnalyticsEvent[]): StepStats[] {
+  const steps = new Map<string, StepStats & { totalMs: number }>();
+  for (const event of events) {
+    if (event.type !== "step-finished") continue;
+    const key = `${event.step}\u0000${event.action}`;
+    let step = steps.get(key);
+    if (!step) {
+      step = {
+        step: event.step,
+        action: event.action,
+        succeeded: 0,
+        failed: 0,
+        skipped: 0,
+        meanDurationMs: null,
+        lastError: null,
+        totalMs: 0,
+      };
+      steps.set(key, step);
+    }
+    if (event.skipped) {
+      step.skipped++;
+      continue;
+    }
+    if (event.outcome === "success") step.succeeded++;
+    else {
+      step.failed++;
+      step.lastError = event.error ?? step.lastError;
+    }
+    step.totalMs += event.durationMs;
+    step.meanDurationMs = step.totalMs / (step.succeeded + step.failed);
+  }
+  return [...steps.values()].map(({ totalMs: _totalMs, ...step }) => step);
+}
+
+// ---------------------------------------------------------------------------
+// Sections
+// ---------------------------------------------------------------------------
+
+const COLORS = {
+  primary: "#0969da",
+  secondary: "#8250df",
+  tertiary: "#bf3989",
+  quaternary: "#1b7c83",
+  success: "#2da44e",
+  failure: "#cf222e",
+  skipped: "#8c959f",
+  incomplete: "#d4a72c",
+};
+
+function section(heading: string, body: string): string {
+  return `<section>\n<h2>${esc(heading)}</h2>\n${body}\n</section>`;
+}
+
+function summaryTable(stats: AggregateStats): string {
+  const rows: [string, string | number][] = [
+    ["Total runs", stats.incompleteRuns > 0 ? `${stats.totalRuns} (${stats.incompleteRuns} incomplete)` : stats.totalRuns],
+    ["Issues created", stats.totalIssuesCreated],
+    ["Issues closed", stats.totalIssuesClosed],
+    ["PRs opened", stats.totalPRsOpened],
+    ["PRs merged", stats.totalPRsMerged],
+    ["YOLO merges", stats.totalYoloMerges],
+    ["Comments posted", stats.totalComments],
+    ["Co-authored commits", stats.totalCoAuthoredCommits],
+    ["API retries (calls retried)", `${stats.totalApiRetries} (${stats.totalRetriedCalls})`],
+    ["API requests (errors)", `${stats.totalApiRequests} (${stats.totalApiErrors})`],
+  ];
+  return table(["Metric", "Value"], rows.map(([k, v]) => [esc(k), esc(String(v))]), [false, true]);
+}
+
+function runsOverTime(runs: RunRecord[]): string {
+  if (runs.length === 0) return EMPTY;
+  const times = runs.map((r) => Date.parse(r.startedAt));
+  const first = Math.min(...times);
+  const span = Math.max(...times) - first;
+  const unit = span <= 2 * DAY_MS ? HOUR_MS : span <= 120 * DAY_MS ? DAY_MS : 7 * DAY_MS;
+
+  const start = Math.floor(first / unit) * unit;
+  const count = Math.floor((Math.max(...times) - start) / unit) + 1;
+  const completed = new Array<number>(count).fill(0);
+  const incomplete = new Array<number>(count).fill(0);
+  runs.forEach((run, i) => {
+    const bucket = Math.floor((times[i] - start) / unit);
+    (run.incomplete ? incomplete : completed)[bucket]++;
+  });
+  const labels = completed.map((_, i) => {
+    const iso = new Date(start + i * unit).toISOString();
+    return unit === HOUR_MS ? `${iso.slice(5, 10)} ${iso.slice(11, 13)}:00` : iso.slice(0, 10);
+  });
+
+  const per = unit === HOUR_MS ? "hour" : unit === DAY_MS ? "day" : "week";
+  return (
+    legend([
+      ["Completed", COLORS.primary],
+      ["Incomplete", COLORS.incomplete],
+    ]) +
+    barChart(
+      labels,
+      [
+        { name: "completed", color: COLORS.primary, values: completed },
+        { name: "incomplete", color: COLORS.incomplete, values: incomplete },
+      ],
+      countTicks(Math.max(...completed.map((c, i) => c + incomplete[i]))),
+      String,
+      `Runs started per ${per}`
+    )
+  );
+}
+
+function latencyTrends(runs: RunRecord[]): string {
+  const colors = [COLORS.primary, COLORS.secondary, COLORS.tertiary, COLORS.quaternary];
+  const series = DURATION_SERIES.map(({ label, values }, i) => ({
+    name: label,
+    color: colors[i % colors.length],
+    points: runs.flatMap((run) => {
+      const sorted = [...values(run)].sort((a, b) => a - b);
+      if (sorted.length === 0) return [];
+      const median = percentile(sorted, 50);
+      return [
+        {
+          x: Date.parse(run.startedAt),
+          y: median,
+          title: `${run.runId}: median ${formatMs(median)} (n=${sorted.length})`,
+        },
+      ];
+    }),
+  }));
+  if (series.every((s) => s.points.length === 0)) return EMPTY;
+
+  const max = Math.max(...series.flatMap((s) => s.points.map((p) => p.y)));
+  return (
+    legend(series.map((s) => [s.name, s.color])) +
+    lineChart(series, durationTicks(max), formatMs, "Median latency per run")
+  );
+}
+
+function latencyDistributions(stats: AggregateStats): string {
+  const charts = stats.durations.map(({ label, stats: d }) => {
+    if (d.count === 0) return `<h3>${esc(label)}</h3>\n${EMPTY}`;
+    return (
+      `<h3>${esc(label)} <small>(n=${d.count})</small></h3>\n` +
+      barChart(
+        d.histogram.map(bucketLabel),
+        [{ name: "values", color: COLORS.primary, values: d.histogram.map((b) => b.count) }],
+        countTicks(Math.max(...d.histogram.map((b) => b.count))),
+        String,
+        `${label} distribution`
+      )
+    );
+  });
+  const summary = table(
+    ["Series", "n", "mean", "sd", "min", "p50", "p90", "p95", "p99", "max"],
+    stats.durations.map(({ label, stats: d }) => [
+      esc(label),
+      String(d.count),
+      ...[d.mean, d.stdDev, d.min, d.percentiles.p50, d.percentiles.p90, d.percentiles.p95, d.percentiles.p99, d.max].map(
+        formatMs
+      ),
+    ]),
+    [false, true, true, true, true, true, true, true, true, true]
+  );
+  return `${summary}\n${charts.join("\n")}`;
+}
+
+function stepOutcomes(steps: StepStats[]): string {
+  if (steps.length === 0) return EMPTY;
+  const chart = horizontalBars(
+    steps.map((s) => s.step),
+    [
+      { name: "succeeded", color: COLORS.success, values: steps.map((s) => s.succeeded) },
+      { name: "failed", color: COLORS.failure, values: steps.map((s) => s.failed) },
+      { name: "skipped", color: COLORS.skipped, values: steps.map((s) => s.skipped) },
+    ],
+    "Step outcomes"
+  );
+  const rows = steps.map((s) => {
+    const ran = s.succeeded + s.failed;
+    return [
+      esc(s.step),
+      esc(s.action),
+      String(s.succeeded),
+      String(s.failed),
+      String(s.skipped),
+      ran === 0 ? "n/a" : `${((s.succeeded / ran) * 100).toFixed(1)}%`,
+      formatMs(s.meanDurationMs),
+      s.lastError ? esc(s.lastError) : "",
+    ];
+  });
+  return (
+    legend([
+      ["Succeeded", COLORS.success],
+      ["Failed", COLORS.failure],
+      ["Skipped", COLORS.skipped],
+    ]) +
+    chart +
+    "\n" +
+    table(
+      ["Step", "Action", "Succeeded", "Failed", "Skipped", "Success rate", "Mean duration", "Last error"],
+      rows,
+      [false, false, true, true, true, true, true, false]
+    )
+  );
+}
+
+function checkOutcomes(checks: CheckStats[]): string {
+  if (checks.length === 0) return EMPTY;
+  const chart = horizontalBars(
+    checks.map((c) => c.name),
+    [
+      { name: "passed", color: COLORS.success, values: checks.map((c) => c.count - c.failed - c.pending) },
+      { name: "failed", color: COLORS.failure, values: checks.map((c) => c.failed) },
+      { name: "pending", color: COLORS.skipped, values: checks.map((c) => c.pending) },
+    ],
+    "CI check outcomes"
+  );
+  const rows = checks.map((c) => [
+    esc(c.name),
+    String(c.count),
+    String(c.failed),
+    String(c.pending),
+    ...[c.durations.percentiles.p50, c.durations.percentiles.p90, c.durations.max].map(formatMs),
+  ]);
+  return (
+    legend([
+      ["Passed", COLORS.success],
+      ["Failed", COLORS.failure],
+      ["Pending", COLORS.skipped],
+    ]) +
+    chart +
+    "\n" +
+    table(["Check", "Runs", "Failed", "Pending", "p50", "p90", "max"], rows, [false, true, true, true, true, true, true])
+  );
+}
+
+function webhookLatency(webhooks: WebhookStats[]): string {
+  if (webhooks.length === 0) return EMPTY;
+  const rows = webhooks.map((w) => [
+    esc(w.event),
+    String(w.count),
+    String(w.matched),
+    ...[w.latency.mean, w.latency.percentiles.p50, w.latency.percentiles.p90, w.latency.percentiles.p99, w.latency.max].map(
+      formatMs
+    ),
+  ]);
+  return table(
+    ["Event", "Deliveries", "Matched", "mean", "p50", "p90", "p99", "max"],
+    rows,
+    [false, true, true, true, true, true, true, true]
+  );
+}
+
+function apiRouteUsage(routes: ApiRouteStats[]): string {
+  if (routes.length === 0) return EMPTY;
+  const rows = routes.map((r) => [
+    esc(r.route),
+    String(r.requests),
+    formatPerRun(r.requestsPerRun),
+    String(r.errors),
+    String(r.retries),
+    ...[r.latency.mean, r.latency.percentiles.p50, r.latency.percentiles.p95, r.latency.percentiles.p99, r.latency.max].map(
+      formatMs
+    ),
+  ]);
+  return table(
+    ["Route", "Requests", "Per run", "Errors", "Retries", "mean", "p50", "p95", "p99", "max"],
+    rows,
+    [false, true, true, true, true, true, true, true, true, true]
+  );
+}
+
+// ---------------------------------------------------------------------------
+// SVG charts
+// ---------------------------------------------------------------------------
+
+const WIDTH = 720;
+const HEIGHT = 240;
+const MARGIN = { top: 12, right: 16, bottom: 40, left: 64 };
+const PLOT_W = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_H = HEIGHT - MARGIN.top - MARGIN.bottom;
+/** At most this many x-axis labels, so they never overlap. */
+const MAX_X_LABELS = 10;
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+
+const EMPTY = '<p class="empty">No data in this window.</p>';
+
+interface BarSeries {
+  name: string;
+  color: string;
+  values: number[];
+}
+
+interface LineSeries {
+  name: string;
+  color: string;
+  points: { x: number; y: number; title: string }[];
+}
+
+function svg(height: number, label: string, body: string[]): string {
+  return (
+    `<svg viewBox="0 0 ${WIDTH} ${height}" role="img" aria-label="${esc(label)}">` +
+    `\n${body.join("\n")}\n</svg>`
+  );
+}
+
+/** Horizontal gridlines and y-axis labels at `ticks`. */
+function yAxis(ticks: number[], y: (v: number) => number, format: (v: number) => string): string[] {
+  return ticks.map(
+    (t) =>
+      `<line class="grid" x1="${MARGIN.left}" x2="${WIDTH - MARGIN.right}" y1="${px(y(t))}" y2="${px(y(t))}"/>` +
+      `<text class="tick" x="${MARGIN.left - 6}" y="${px(y(t) + 4)}" text-anchor="end">${esc(format(t))}</text>`
+  );
+}
+
+function xLabel(x: number, text: string): string {
+  return `<text class="tick" x="${px(x)}" y="${HEIGHT - MARGIN.bottom + 16}" text-anchor="middle">${esc(text)}</text>`;
+}
+
+/** Vertical bars, one per label, stacking the series. */
+function barChart(
+  labels: string[],
+  series: BarSeries[],
+  ticks: number[],
+  format: (v: number) => string,
+  label: string
+): string {
+  const top = ticks[ticks.length - 1];
+  const y = (v: number) => MARGIN.top + PLOT_H - (v / top) * PLOT_H;
+  const slot = PLOT_W / labels.length;
+  const barW = Math.max(1, Math.min(48, slot * 0.7));
+  const every = Math.ceil(labels.length / MAX_X_LABELS);
+
+  const body = yAxis(ticks, y, format);
+  labels.forEach((name, i) => {
+    const x = MARGIN.left + i * slot + (slot - barW) / 2;
+    let base = 0;
+    for (const s of series) {
+      const v = s.values[i];
+      if (!v) continue;
+      body.push(
+        `<rect x="${px(x)}" y="${px(y(base + v))}" width="${px(barW)}" height="${px(y(base) - y(base + v))}" ` +
+          `fill="${s.color}"><title>${esc(`${name}: ${format(v)} ${s.name}`)}</title></rect>`
+      );
+      base += v;
+    }
+    if (i % every === 0) body.push(xLabel(x + barW / 2, name));
+  });
+  body.push(baseline());
+  return svg(HEIGHT, label, body);
+}
+
+/** One polyline per series over a time x-axis. */
+function lineChart(
+  series: LineSeries[],
+  ticks: number[],
+  format: (v: number) => string,
+  label: string
+): string {
+  const xs = series.flatMap((s) => s.points.map((p) => p.x));
+  const min = Math.min(...xs);
+  const span = Math.max(...xs) - min;
+  const x = (t: number) => MARGIN.left + (span === 0 ? PLOT_W / 2 : ((t - min) / span) * PLOT_W);
+  const top = ticks[ticks.length - 1];
+  const y = (v: number) => MARGIN.top + PLOT_H - (v / top) * PLOT_H;
+
+  const body = yAxis(ticks, y, format);
+  const labelCount = span === 0 ? 1 : Math.min(5, MAX_X_LABELS);
+  for (let i = 0; i < labelCount; i++) {
+    const t = span === 0 ? min : min + (span * i) / (labelCount - 1);
+    const iso = new Date(t).toISOString();
+    body.push(xLabel(x(t), span <= 2 * DAY_MS ? `${iso.slice(5, 10)} ${iso.slice(11, 16)}` : iso.slice(0, 10)));
+  }
+  for (const s of series) {
+    if (s.points.length > 1) {
+      const points = s.points.map((p) => `${px(x(p.x))},${px(y(p.y))}`).join(" ");
+      body.push(`<polyline fill="none" stroke="${s.color}" stroke-width="2" points="${points}"/>`);
+    }
+    for (const p of s.points) {
+      body.push(
+        `<circle cx="${px(x(p.x))}" cy="${px(y(p.y))}" r="3" fill="${s.color}"><title>${esc(p.title)}</title></circle>`
+      );
+    }
+  }
+  body.push(baseline());
+  return svg(HEIGHT, label, body);
+}
+
+/** One stacked horizontal bar per label, scaled to the largest total. */
+function horizontalBars(labels: string[], series: BarSeries[], label: string): string {
+  const ROW = 26;
+  const left = 160;
+  const width = WIDTH - left - MARGIN.right - 48;
+  const totals = labels.map((_, i) => series.reduce((n, s) => n + s.values[i], 0));
+  const max = Math.max(1, ...totals);
+  const height = labels.length * ROW + 8;
+
+  const body: string[] = [];
+  labels.forEach((name, i) => {
+    const y = 4 + i * ROW;
+    body.push(`<text class="label" x="${left - 8}" y="${y + 15}" text-anchor="end">${esc(name)}</text>`);
+    let offset = 0;
+    for (const s of series) {
+      const v = s.values[i];
+      if (!v) continue;
+      const w = (v / max) * width;
+      body.push(
+        `<rect x="${px(left + offset)}" y="${y + 3}" width="${px(w)}" height="${ROW - 8}" fill="${s.color}">` +
+          `<title>${esc(`${name}: ${v} ${s.name}`)}</title></rect>`
+      );
+      offset += w;
+    }
+    body.push(`<text class="tick" x="${px(left + offset + 6)}" y="${y + 15}">${totals[i]}</text>`);
+  });
+  return svg(height, label, body);
+}
+
+function baseline(): string {
+  const y = MARGIN.top + PLOT_H;
+  return `<line class="axis" x1="${MARGIN.left}" x2="${WIDTH - MARGIN.right}" y1="${y}" y2="${y}"/>`;
+}
+
+/** 0 … a round count at or above `max`, in 1-2-5 steps. */
+function countTicks(max: number): number[] {
+  if (max <= 0) return [0, 1];
+  const raw = max / 4;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step = Math.max(1, [1, 2, 5, 10].map((m) => m * magnitude).find((s) => s >= raw)!);
+  return ticksUpTo(max, step);
+}
+
+/** Duration steps that read well once formatted (1s, 30s, 5m, 1h, …). */
+const DURATION_STEPS_MS = [
+  100, 200, 500, 1_000, 2_000, 5_000, 10_000, 15_000, 30_000, 60_000, 2 * 60_000, 5 * 60_000, 10 * 60_000,
+  15 * 60_000, 30 * 60_000, HOUR_MS, 2 * HOUR_MS, 6 * HOUR_MS, 12 * HOUR_MS, DAY_MS,
+];
+
+function durationTicks(maxMs: number): number[] {
+  if (maxMs <= 0) return [0, 1_000];
+  const step = DURATION_STEPS_MS.find((s) => maxMs / s <= 5) ?? Math.ceil(maxMs / 5 / DAY_MS) * DAY_MS;
+  return ticksUpTo(maxMs, step);
+}
+
+function ticksUpTo(max: number, step: number): number[] {
+  const ticks: number[] = [];
+  for (let t = 0; t < max + step && ticks.length <= 12; t += step) ticks.push(t);
+  return ticks;
+}
+
+function px(value: number): string {
+  return String(Math.round(value * 10) / 10);
+}
+
+// ---------------------------------------------------------------------------
+// HTML helpers
+// ---------------------------------------------------------------------------
+
+const STYLE = `
+body { font: 14px/1.5 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2328; max-width: 760px; margin: 2em auto; padding: 0 1em; }
+h1 { font-size: 1.5em; margin-bottom: 0; }
+h2 { font-size: 1.2em; border-bottom: 1px solid #d0d7de; padding-bottom: .3em; margin-top: 2em; }
+h3 { font-size: 1em; margin: 1.5em 0 .5em; }
+.meta, small, .empty { color: #656d76; }
+table { border-collapse: collapse; margin: .5em 0; }
+th, td { border: 1px solid #d0d7de; padding: .25em .6em; }
+th { background: #f6f8fa; }
+td.num { text-align: right; font-variant-numeric: tabular-nums; }
+svg { width: 100%; height: auto; display: block; }
+svg text { font-size: 11px; fill: #656d76; }
+svg text.label { fill: #1f2328; font-size: 12px; }
+svg .grid { stroke: #eaeef2; }
+svg .axis { stroke: #8c959f; }
+.legend span { margin-right: 1.2em; }
+.legend span::before { content: ""; display: inline-block; width: .8em; height: .8em; margin-right: .35em; background: var(--c); vertical-align: -.05em; }
+`;
+
+function legend(entries: [string, string][]): string {
+  const items = entries.map(([name, color]) => `<span style="--c:${color}">${esc(name)}</span>`);
+  return `<p class="legend">${items.join("")}</p>\n`;
+}
+
+/** A table of pre-escaped cells; `numeric` right-aligns columns. */
+function table(headers: string[], rows: string[][], numeric: boolean[]): string {
+  const head = headers.map((h) => `<th>${esc(h)}</th>`).join("");
+  const body = rows
+    .map((row) => `<tr>${row.map((cell, i) => `<td${numeric[i] ? ' class="num"' : ""}>${cell}</td>`).join("")}</tr>`)
+    .join("\n");
+  return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+}
+
+function esc(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
@@ -2,48 +2,85 @@
  * index.ts — Main entry point for the GitHub Activity Orchestrator.
  *
  * Orchestration loop:
- *   For each iteration (bounded by config.maxIssuesPerRun / maxPrsPerRun):
- *     1. Create an issue.
- *     2. Post a quick-response comment on the issue (Quickdraw).
- *     3. Create a branch, commit a file (optionally co-authored), and open a PR.
- *     4. Optionally comment on the PR.
- *     5. Merge the PR (YOLO or reviewed).
- *     6. Record all event timestamps for analytics.
+ *   For each iteration (bounded by config.maxIssuesPerRun / maxPrsPerRun),
+ *   run one workflow definition (workflowDefinition.ts; WORKFLOW_FILE or
+ *   the built-in default).  The default workflow:
+ *     1. Creates an issue.
+ *     2. Posts a quick-response comment on the issue (Quickdraw).
+ *     3. Creates a branch, commits a file (optionally co-authored), and opens a PR.
+ *     4. Comments on the PR.
+ *     5. Merges the PR (YOLO or reviewed) when auto-merge is on.
+ *     6. Deletes the feature branch.
+ *   Each step records its event timestamps for analytics.
+ *
+ * With WEBHOOK_PORT set, webhook deliveries for the run's actions are
+ * received and timed (webhookReceiver.ts).  With TRACE_FILE or an OTLP
+ * endpoint set, the run is traced (tracing.ts).
+ *
+ * Every completed step is journaled (journal.ts).  Workflows an earlier
+ * run left unfinished are resumed or rolled back first, per RESUME_POLICY.
+ *
+ * With DRY_RUN=true every write is planned instead of sent (see dryRun.ts),
+ * so the same loop previews exactly what a real run would do.
  *
  * The orchestrator is designed to be idempotent: running it multiple
  * times will create new issues/PRs without conflicting with previous runs.
  *
- * Exit codes:
- *   0 — success
- *   1 — unrecoverable error
+ * Usually started through the CLI (`orchestrator run`, see cli.ts); running
+ * this file directly behaves the same.  Exit codes are listed in
+ * exitCodes.ts: 0 when every iteration succeeded, 5 when some failed,
+ * 6 when all failed, 4 when the scope preflight refused to start, 3 when
+ * the workflow file is invalid.
  */
 
-import { config } from "./config";
-import { createIssue } from "./issueManager";
-import { createPullRequest } from "./prManager";
-import { quickResponseComment, commentOnPR } from "./commentManager";
-import { mergePullRequest, isMergeable } from "./mergeManager";
+import * as path from "path";
+import { config, dryRunPath } from "./config";
+import { printPlanSummary } from "./dryRun";
 import {
+  JournalEntry,
+  JournalError,
+  adoptWorkflow,
+  beginWorkflow,
+  findIncompleteWorkflows,
+} from "./journal";
+import { rollbackWorkflow } from "./recovery";
+import { PreflightError, assertRepoScope } from "./repoScope";
+import { ExitCode, RunOutcome, exitCodeForRun } from "./exitCodes";
+import {
+  prepareAnalytics,
   startRun,
   endRun,
-  recordIssueCreated,
-  recordIssueClosed,
-  recordPROpened,
-  recordPRMerged,
-  recordCommentPosted,
-  recordCoAuthoredCommit,
-  recordIssueToComment,
-  recordPRToMerge,
+  startIteration,
+  finishIteration,
   printConsoleSummary,
   writeMarkdownReport,
 } from "./analytics";
-import { log, sleep } from "./utils";
+import { writeHtmlReport } from "./htmlReport";
+import { getBudget, hasBudgetFor } from "./rateBudget";
+import {
+  WorkflowDefinition,
+  WorkflowDefinitionError,
+  loadWorkflow,
+} from "./workflowDefinition";
+import { executeWorkflow } from "./workflowRunner";
+import { GitHubApiError, NotMergeableError, PermissionError, RateLimitError } from "./githubErrors";
+import { DeliveryMonitor, startDeliveryMonitor } from "./webhookReceiver";
+import { finishTrace, setSpanAttributes, startTrace, tracedSleep, withSpan } from "./tracing";
+import { log } from "./utils";
+
+/**
+ * Rough API cost of one workflow iteration (label probes, branch and
+ * commit plumbing, mergeable polling…), used to stop before starting an
+ * iteration the rate-limit budget cannot finish.
+ */
+const REQUESTS_PER_ITERATION = 25;
+const WRITES_PER_ITERATION = 10;
 
 // ---------------------------------------------------------------------------
 // Main orchestration
 // ---------------------------------------------------------------------------
 
-async function main(): Promise<void> {
+export async function main(): Promise<RunOutcome> {
   log.info("=== GitHub Activity Orchestrator ===");
   log.info(`Target: ${config.owner}/${config.repo}`);
   log.info(`Max issues/run: ${config.maxIssuesPerRun}`);
@@ -51,114 +88,226 @@ async function main(): Promise<void> {
   log.info(`Auto-merge:     ${config.autoMerge}`);
   log.info(`YOLO mode:      ${config.yoloMode}`);
   log.info(`Co-author:      ${config.coAuthorName || "(none)"}`);
+  log.info(`Dry run:        ${config.dryRun}`);
+
+  // Validate the workflow definition before touching GitHub.
+  const workflow = loadWorkflow(config.workflowFile);
+  log.info(`Workflow:       ${workflow.name} (${workflow.steps.length} steps)`);
   log.info("");
 
+  // Refuse to touch anything but an allow-listed repo we administer.
+  await assertRepoScope();
+
   // Start analytics tracking for this run.
-  startRun();
+  await prepareAnalytics();
+  const runId = startRun();
+  startTrace(runId, { "orchestrator.dry_run": config.dryRun, "orchestrator.workflow": workflow.name });
+
+  // Time webhook deliveries for this run's actions.  Planned actions
+  // trigger none, so a dry run does not listen.
+  let webhooks: DeliveryMonitor | null = null;
+  if (config.webhook.port && config.dryRun) {
+    log.info("Dry run: not listening for webhook deliveries.");
+  } else if (config.webhook.port) {
+    webhooks = await startDeliveryMonitor(runId);
+  }
+
+  // Deal with workflows an earlier run left half-done.
+  const recoveryFailures = await recoverIncompleteWorkflows(runId, workflow);
 
   const iterations = Math.min(config.maxIssuesPerRun, config.maxPrsPerRun);
+  const outcome: RunOutcome = {
+    planned: iterations,
+    attempted: 0,
+    succeeded: 0,
+    failed: 0,
+    recoveryFailures,
+  };
 
   for (let i = 0; i < iterations; i++) {
+    if (!hasBudgetFor(REQUESTS_PER_ITERATION, WRITES_PER_ITERATION)) {
+      const { core } = getBudget();
+      log.warn(
+        `Stopping after ${i} of ${iterations} iterations: rate-limit budget too low ` +
+          `(${core.remaining} core requests left, resets ` +
+          `${core.resetAt ? new Date(core.resetAt).toISOString() : "unknown"}).`
+      );
+      break;
+    }
+
     log.info(`--- Iteration ${i + 1} of ${iterations} ---`);
+    outcome.attempted++;
 
+    const entry = beginWorkflow(runId, workflow.name);
+    startIteration(i + 1, entry.id);
     try {
-      await runSingleWorkflow();
+      await withSpan(
+        `iteration ${i + 1}`,
+        { "orchestrator.iteration": i + 1, "orchestrator.workflow_id": entry.id },
+        () => executeWorkflow(workflow, entry)
+      );
+      finishIteration("success");
+      outcome.succeeded++;
     } catch (err) {
-      log.error(`Iteration ${i + 1} failed:`, err);
-      // Continue with the next iteration rather than aborting the run.
+      // Report before finishing, so the log lines carry the failed step.
+      reportFailure(`Iteration ${i + 1}`, err);
+      finishIteration("failure", err);
+      outcome.failed++;
+      // Later iterations would fail the same way; stop rather than burn them.
+      if (err instanceof RateLimitError || err instanceof PermissionError) {
+        if (i < iterations - 1) {
+          log.warn(`Stopping after iteration ${i + 1} of ${iterations}: a ${err.name} will not clear up mid-run.`);
+        }
+        break;
+      }
+      // Otherwise continue with the next iteration rather than aborting the run.
     }
 
     // Small inter-iteration pause to stay well within rate limits.
     if (i < iterations - 1) {
       log.debug("Pausing between iterations…");
-      await sleep(3_000);
+      await tracedSleep(3_000, "between iterations");
     }
   }
 
-  // Finalise analytics.
+  // Finalise analytics, once the deliveries still owed have arrived.
+  if (webhooks) await webhooks.stop();
   const record = endRun();
+  setSpanAttributes({
+    "orchestrator.iterations_attempted": outcome.attempted,
+    "orchestrator.iterations_failed": outcome.failed,
+  });
+  await finishTrace();
 
   // Console summary.
   printConsoleSummary();
 
-  // Write Markdown analytics report.
+  // Write Markdown and HTML analytics reports (next to, not over, the
+  // real ones when dry-running).
   try {
-    writeMarkdownReport();
+    writeMarkdownReport(
+      config.dryRun
+        ? dryRunPath(path.resolve("analytics.md"))
+        : undefined
+    );
+    writeHtmlReport(
+      config.dryRun
+        ? dryRunPath(path.resolve("analytics.html"))
+        : undefined
+    );
   } catch (err) {
-    log.warn("Could not write Markdown report:", err);
+    log.warn("Could not write analytics reports:", err);
   }
 
+  if (config.dryRun) printPlanSummary();
+
   log.info("=== Orchestrator run complete ===");
   log.info(
     `This run: ${record.issuesCreated} issues, ${record.prsOpened} PRs, ${record.prsMerged} merged.`
   );
+  if (record.minRateLimitRemaining != null) {
+    log.info(`Lowest rate-limit quota seen: ${record.minRateLimitRemaining}.`);
+  }
+  if (outcome.failed > 0) {
+    log.warn(`${outcome.failed} of ${outcome.attempted} iteration(s) failed.`);
+  }
+  return outcome;
+}
+
+/**
+ * Log why `what` (an iteration or a recovery) failed.  API errors get a
+ * one-line summary and remediation hint instead of a stack trace.  The
+ * journal keeps the workflow in progress, so a later run picks it up
+ * again per RESUME_POLICY.
+ */
+function reportFailure(what: string, err: unknown): void {
+  if (err instanceof NotMergeableError) {
+    log.warn(`${what}: PR #${err.prNumber} could not be merged: ${err.detail}`);
+    log.warn(`  ${err.hint}`);
+  } else if (err instanceof GitHubApiError) {
+    log.error(`${what} failed: ${err.message}`);
+    log.error(`  ${err.hint}`);
+  } else {
+    log.error(`${what} failed:`, err);
+  }
 }
 
 // ---------------------------------------------------------------------------
-// Single workflow: Issue → Comment → Branch → Commit → PR → Merge
+// Recovery of interrupted workflows
 // ---------------------------------------------------------------------------
 
-async function runSingleWorkflow(): Promise<void> {
-  // ---- 1. Create issue -----------------------------------------------------
-  const issue = await createIssue();
-  recordIssueCreated();
-
-  // ---- 2. Quick-response comment (Quickdraw) --------------------------------
-  const comment = await quickResponseComment(issue.number);
-  recordCommentPosted();
-  recordIssueToComment(issue.createdAt, comment.createdAt);
-
-  // ---- 3. Create branch + commit + PR --------------------------------------
-  // Small delay so the issue and comment are indexed before we reference them.
-  await sleep(2_000);
-
-  const pr = await createPullRequest(issue.number, issue.title);
-  recordPROpened();
-
-  // Record co-authored commit if configured.
-  if (config.coAuthorName && config.coAuthorEmail) {
-    recordCoAuthoredCommit();
+/**
+ * Resume or roll back (per config.resumePolicy) every workflow the
+ * journal still marks as in progress.  Failures are logged and leave the
+ * entry in the journal for the next run to try again.  An unreadable
+ * journal is reported and skipped; the run's first write moves it aside.
+ *
+ * Returns the number of workflows that could not be recovered.
+ */
+async function recoverIncompleteWorkflows(
+  runId: string,
+  workflow: WorkflowDefinition
+): Promise<number> {
+  let pending: JournalEntry[];
+  try {
+    pending = findIncompleteWorkflows();
+  } catch (err) {
+    if (!(err instanceof JournalError)) throw err;
+    log.error(`${err.message}; unfinished workflows from earlier runs cannot be recovered.`);
+    return 0;
   }
+  if (pending.length === 0) return 0;
 
-  // ---- 4. Optional PR comment -----------------------------------------------
-  // Post a review-style comment on the PR for realism.
-  await sleep(1_500);
-  await commentOnPR(pr.number);
-  recordCommentPosted();
-
-  // ---- 5. Merge (if enabled) ------------------------------------------------
-  if (config.autoMerge) {
-    // Wait for GitHub to compute merge status.
-    await sleep(3_000);
-
-    const canMerge = await isMergeable(pr.number);
-    if (canMerge) {
-      const mergeResult = await mergePullRequest(
-        pr.number,
-        pr.branch,
-        config.yoloMode
-      );
-      recordPRMerged(mergeResult.yolo);
-      recordIssueClosed(); // Closed via "Closes #N" in the PR body.
-      recordPRToMerge(pr.createdAt, mergeResult.mergedAt);
-    } else {
-      log.warn(
-        `PR #${pr.number} is not mergeable — skipping merge. ` +
-          `You can merge it manually.`
+  log.warn(
+    `Found ${pending.length} unfinished workflow(s) from earlier runs ` +
+      `(policy: ${config.resumePolicy}).`
+  );
+  if (config.resumePolicy === "ignore") return 0;
+
+  let failures = 0;
+  for (const entry of pending) {
+    adoptWorkflow(entry, runId);
+    try {
+      await withSpan(
+        `${config.resumePolicy === "rollback" ? "roll back" : "resume"} ${entry.id}`,
+        { "orchestrator.workflow_id": entry.id },
+        async () => {
+          if (config.resumePolicy === "rollback") {
+            await rollbackWorkflow(entry);
+          } else {
+            log.info(
+              `Resuming workflow ${entry.id} after "${entry.steps.at(-1)?.step ?? "start"}"…`
+            );
+            startIteration(null, entry.id);
+            await executeWorkflow(workflow, entry);
+            finishIteration("success");
+          }
+        }
       );
+    } catch (err) {
+      reportFailure(`Recovering workflow ${entry.id}`, err);
+      if (config.resumePolicy === "resume") finishIteration("failure", err);
+      failures++;
     }
-  } else {
-    log.info(`Auto-merge disabled. PR #${pr.number} is open and ready.`);
   }
+  return failures;
 }
 
 // ---------------------------------------------------------------------------
 // Entry point
 // ---------------------------------------------------------------------------
 
-main()
-  .then(() => process.exit(0))
-  .catch((err) => {
-    log.error("Fatal error:", err);
-    process.exit(1);
-  });
+if (require.main === module) {
+  main()
+    .then((outcome) => process.exit(exitCodeForRun(outcome)))
+    .catch((err) => {
+      log.error("Fatal error:", err);
+      process.exit(
+        err instanceof PreflightError
+          ? ExitCode.PREFLIGHT
+          : err instanceof WorkflowDefinitionError
+            ? ExitCode.CONFIG
+            : ExitCode.ERROR
+      );
+    });
+}
@@ -17,11 +17,13 @@ import {
   repo,
   withRateLimit,
 } from "./githubClient";
+import { NotFoundError } from "./githubErrors";
 import {
   log,
   getRandomIssueTitle,
   getRandomIssueBody,
   nowISO,
+  runMarker,
 } from "./utils";
 
 // ---------------------------------------------------------------------------
@@ -44,10 +46,13 @@ export interface CreatedIssue {
 // Label bootstrapping
 // ---------------------------------------------------------------------------
 
+/** Label that marks every issue the orchestrator creates. */
+export const ORCHESTRATOR_LABEL = "orchestrator";
+
 /** Labels the orchestrator applies to issues it creates. */
 const ORCHESTRATOR_LABELS: readonly { name: string; color: string; description: string }[] = [
   {
-    name: "orchestrator",
+    name: ORCHESTRATOR_LABEL,
     color: "6f42c1",
     description: "Created by GitHub Activity Orchestrator",
   },
@@ -88,6 +93,22 @@ export async function ensureLabels(): Promise<void> {
   }
 }
 
+/** Names of orchestrator labels not yet present in the repo. */
+export async function missingLabels(): Promise<string[]> {
+  const missing: string[] = [];
+  for (const label of ORCHESTRATOR_LABELS) {
+    try {
+      await withRateLimit("get-label", () =>
+        octokit.issues.getLabel({ owner, repo, name: label.name })
+      );
+    } catch (err) {
+      if (!(err instanceof NotFoundError)) throw err;
+      missing.push(label.name);
+    }
+  }
+  return missing;
+}
+
 // ---------------------------------------------------------------------------
 // Issue creation
 // ---------------------------------------------------------------------------
@@ -97,13 +118,15 @@ export async function ensureLabels(): Promise<void> {
  *
  * Returns metadata that downstream modules use to create the matching
  * branch, commits, and pull request.
+ *
+ * @param runId - Tags the issue body so cleanup can find it by run.
  */
-export async function createIssue(): Promise<CreatedIssue> {
+export async function createIssue(runId?: string): Promise<CreatedIssue> {
   // Ensure labels are available before we reference them.
   await ensureLabels();
 
   const title = getRandomIssueTitle();
-  const body = getRandomIssueBody();
+  const body = getRandomIssueBody() + (runId ? runMarker(runId) : "");
   const labels = ORCHESTRATOR_LABELS.map((l) => l.name);
 
   const { data } = await withRateLimit("create-issue", () =>
@@ -135,13 +158,17 @@ export async function createIssue(): Promise<CreatedIssue> {
  * Close an issue by number.
  * Primarily used as a fallback if the PR merge did not auto-close it.
  */
-export async function closeIssue(issueNumber: number): Promise<void> {
+export async function closeIssue(
+  issueNumber: number,
+  reason: "completed" | "not_planned" = "completed"
+): Promise<void> {
   await withRateLimit("close-issue", () =>
     octokit.issues.update({
       owner,
       repo,
       issue_number: issueNumber,
       state: "closed",
+      state_reason: reason,
     })
   );
   log.info(`Closed issue #${issueNumber}`);
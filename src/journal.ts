@@ -0,0 +1,276 @@
+/**
+ * journal.ts — Persist each workflow step so interrupted runs can be
+ * resumed or rolled back.
+ *
+ * A workflow creates several GitHub objects in sequence (issue, comment,
+ * branch, commit, PR, merge).  If the process dies or an API call fails
+ * halfway, those objects are left behind with nothing recording where it
+ * stopped.  The journal fixes that: after every successful step the step
+ * name and the data it produced are written to a JSON file next to the
+ * analytics file.
+ *
+ * On the next run, workflows still marked "in-progress" are handed back
+ * to the orchestrator, which resumes or rolls them back according to
+ * `config.resumePolicy`.
+ *
+ * Steps are recorded by their ID in the workflow definition
+ * (workflowDefinition.ts), together with whether they ran or were
+ * skipped by their condition, so a resumed workflow continues at the
+ * same point of the same branch.  Version-1 journals, which used fixed
+ * step names, are upgraded on load.
+ *
+ * Writes replace the file atomically under its advisory lock
+ * (atomicFile.ts), so neither a crash nor an overlapping run leaves it
+ * half-written.  A journal that cannot be read is never overwritten:
+ * readers refuse it with a JournalError, and the next write moves it
+ * aside as "journal.corrupt-<time>.json" before starting a new one.
+ */
+
+import * as fs from "fs";
+import { randomBytes } from "crypto";
+import { config } from "./config";
+import { ChecksConclusion } from "./analyticsEvents";
+import { siblingPath } from "./analyticsStore";
+import { withFileLock, writeFileAtomic } from "./atomicFile";
+import { PostedComment } from "./commentManager";
+import { CreatedIssue } from "./issueManager";
+import { CreatedPR } from "./prManager";
+import { log, nowISO } from "./utils";
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+/** Whether a step ran, or was skipped because its condition was false. */
+export type StepOutcome = "done" | "skipped";
+
+/** One journaled step. */
+export interface JournalStepRecord {
+  /** Step ID from the workflow definition. */
+  step: string;
+  outcome: StepOutcome;
+  at: string;
+}
+
+/** Everything the steps so far have produced. */
+export interface WorkflowState {
+  issue?: CreatedIssue;
+  issueComment?: PostedComment;
+  branch?: string;
+  baseBranch?: string;
+  filePath?: string;
+  commitSha?: string;
+  pr?: CreatedPR;
+  prComment?: PostedComment;
+  followUpCommits?: { path: string; sha: string }[];
+  reviewersRequested?: string[];
+  readyForReview?: boolean;
+  /** Overall result of the PR head commit's CI checks (checkTracker.ts). */
+  checks?: { sha: string; conclusion: ChecksConclusion };
+  merge?: { mergeSha: string; mergedAt: string; yolo: boolean; method?: string };
+  branchDeleted?: boolean;
+}
+
+export type WorkflowStatus = "in-progress" | "completed" | "rolled-back";
+
+/** One workflow's journal entry. */
+export interface JournalEntry {
+  /** Unique workflow ID. */
+  id: string;
+  /** Name of the workflow definition being executed. */
+  workflow: string;
+  /** Run that started the workflow. */
+  runId: string;
+  /** Run that last touched it (differs from runId once resumed). */
+  lastRunId: string;
+  status: WorkflowStatus;
+  startedAt: string;
+  updatedAt: string;
+  /** Executed (or skipped) steps, in order. */
+  steps: JournalStepRecord[];
+  state: WorkflowState;
+}
+
+interface JournalData {
+  version: number;
+  workflows: JournalEntry[];
+}
+
+/** A journal file that is not valid JSON or not a journal. */
+export class JournalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JournalError";
+  }
+}
+
+/** Finished workflows kept for inspection; older ones are pruned. */
+const MAX_FINISHED_ENTRIES = 100;
+
+const JOURNAL_VERSION = 2;
+
+/** Version-1 fixed step names → step IDs of DEFAULT_WORKFLOW. */
+const V1_STEP_IDS: Record<string, string> = {
+  "issue-created": "issue",
+  "issue-commented": "issue-comment",
+  "branch-created": "branch",
+  "file-committed": "commit",
+  "pr-opened": "pr",
+  "pr-commented": "pr-comment",
+  merged: "merge",
+  "branch-deleted": "delete-branch",
+};
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Start journaling a new run of the named workflow definition. */
+export function beginWorkflow(runId: string, workflow: string): JournalEntry {
+  const now = nowISO();
+  const entry: JournalEntry = {
+    id: `wf-${randomBytes(4).toString("hex")}`,
+    workflow,
+    runId,
+    lastRunId: runId,
+    status: "in-progress",
+    startedAt: now,
+    updatedAt: now,
+    steps: [],
+    state: {},
+  };
+  save(entry);
+  return entry;
+}
+
+/** Whether step `stepId` ran (not merely skipped) in this workflow. */
+export function hasStep(entry: JournalEntry, stepId: string): boolean {
+  return entry.steps.some((s) => s.step === stepId && s.outcome === "done");
+}
+
+/** Persist a finished step together with the data it produced. */
+export function recordStep(
+  entry: JournalEntry,
+  stepId: string,
+  patch: Partial<WorkflowState> = {},
+  outcome: StepOutcome = "done"
+): void {
+  Object.assign(entry.state, patch);
+  entry.steps.push({ step: stepId, outcome, at: nowISO() });
+  save(entry);
+  log.debug(`Journal ${entry.id}: ${stepId} (${outcome})`);
+}
+
+/** Mark a workflow as finished (successfully or by rollback). */
+export function finishWorkflow(
+  entry: JournalEntry,
+  status: Exclude<WorkflowStatus, "in-progress">
+): void {
+  entry.status = status;
+  save(entry);
+}
+
+/** Re-attach an interrupted workflow to the current run. */
+export function adoptWorkflow(entry: JournalEntry, runId: string): void {
+  entry.lastRunId = runId;
+  save(entry);
+}
+
+/**
+ * Read a piece of workflow state that an earlier step must have produced.
+ * Throws if the journal is inconsistent (step recorded, data missing).
+ */
+export function requireState<K extends keyof WorkflowState>(
+  entry: JournalEntry,
+  key: K
+): NonNullable<WorkflowState[K]> {
+  const value = entry.state[key];
+  if (value === undefined || value === null) {
+    throw new Error(`Journal ${entry.id} has no "${key}" recorded.`);
+  }
+  return value as NonNullable<WorkflowState[K]>;
+}
+
+/**
+ * Workflows a previous run left unfinished, oldest first.  Throws
+ * JournalError when the journal cannot be read.
+ */
+export function findIncompleteWorkflows(): JournalEntry[] {
+  return load(config.journalPath).workflows.filter((w) => w.status === "in-progress");
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+function load(filePath: string): JournalData {
+  if (!fs.existsSync(filePath)) return { version: JOURNAL_VERSION, workflows: [] };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (err) {
+    throw new JournalError(`Workflow journal ${filePath} is not valid JSON: ${(err as Error).message}`);
+  }
+  if (typeof parsed !== "object" || parsed === null || !Array.isArray((parsed as JournalData).workflows)) {
+    throw new JournalError(`Workflow journal ${filePath} has no "workflows" list`);
+  }
+  return upcast(parsed as JournalData);
+}
+
+/**
+ * Load the journal for a write (callers hold its lock).  One that cannot
+ * be read is moved aside rather than overwritten, and an empty journal
+ * is returned in its place.
+ */
+function loadOrQuarantine(filePath: string): JournalData {
+  try {
+    return load(filePath);
+  } catch (err) {
+    if (!(err instanceof JournalError)) throw err;
+    const stamp = new Date().toISOString().replace(/[-:]|\.\d+/g, "");
+    const quarantined = siblingPath(filePath, `corrupt-${stamp}`);
+    fs.renameSync(filePath, quarantined);
+    log.error(`${err.message}\nMoved the file to ${quarantined}; starting a new journal.`);
+    return { version: JOURNAL_VERSION, workflows: [] };
+  }
+}
+
+/** Bring an older journal up to the current version. */
+function upcast(data: JournalData): JournalData {
+  if (data.version >= JOURNAL_VERSION) return data;
+
+  // v1 → v2: fixed step names become DEFAULT_WORKFLOW step IDs.
+  for (const entry of data.workflows) {
+    const steps = entry.steps as unknown as { step: string; at: string }[];
+    entry.workflow ??= "default";
+    if (steps.some((s) => s.step === "branch-deleted")) entry.state.branchDeleted = true;
+    entry.steps = steps.map((s) => ({
+      step: V1_STEP_IDS[s.step] ?? s.step,
+      outcome: "done",
+      at: s.at,
+    }));
+  }
+  return { version: JOURNAL_VERSION, workflows: data.workflows };
+}
+
+/** Upsert one entry and rewrite the journal. */
+function save(entry: JournalEntry): void {
+  entry.updatedAt = nowISO();
+
+  const filePath = config.journalPath;
+  withFileLock(filePath, () => {
+    const data = loadOrQuarantine(filePath);
+    const index = data.workflows.findIndex((w) => w.id === entry.id);
+    if (index === -1) data.workflows.push(entry);
+    else data.workflows[index] = entry;
+
+    // Keep every unfinished workflow, but only the most recent finished ones.
+    const finished = data.workflows.filter((w) => w.status !== "in-progress");
+    const drop = new Set(
+      finished.slice(0, Math.max(finished.length - MAX_FINISHED_ENTRIES, 0))
+    );
+    data.workflows = data.workflows.filter((w) => !drop.has(w));
+
+    writeFileAtomic(filePath, JSON.stringify(data, null, 2));
+  });
+}
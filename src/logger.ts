@@ -0,0 +1,220 @@
+/**
+ * logger.ts — Structured, redacting logger.
+ *
+ * `log.debug/info/warn/error(...args)` takes console-style arguments and
+ * writes one line per call, tagged with the context of the run in
+ * progress: run ID, iteration (null for a recovered workflow), workflow
+ * ID and workflow step.  analytics.ts sets the run and iteration as they
+ * start and finish, workflowRunner.ts the step.
+ *
+ * The console gets LOG_FORMAT lines:
+ *
+ *   pretty  [INFO] [20261019T101500Z-a1b2c3 #2 pr] Opened PR #14 …
+ *   json    {"time":"…","level":"info","runId":"…","iteration":2,…,"msg":"Opened PR #14 …"}
+ *
+ * With LOG_FILE set, the same records are also appended to that file as
+ * JSON lines.  Once it would grow past LOG_FILE_MAX_BYTES it is rotated
+ * to LOG_FILE.1 (LOG_FILE.1 to LOG_FILE.2, …), keeping LOG_FILE_MAX_FILES
+ * rotated files.
+ *
+ * Every line is redacted before it is written: the GitHub token, the
+ * webhook secrets and the OTLP collector headers, anything shaped like a
+ * GitHub token, and the value of any Authorization header — such as
+ * those inside a logged Octokit error or the `[octokit]` debug stream.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { format } from "util";
+import { config, OrchestratorConfig } from "./config";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type LogLevel = OrchestratorConfig["logLevel"];
+
+/** What a log line was written during. */
+export interface LogContext {
+  runId: string | null;
+  /** 1-based iteration; null outside one and for recovered workflows. */
+  iteration: number | null;
+  /** Journal ID of the workflow being executed. */
+  workflowId: string | null;
+  /** ID of the workflow step being executed. */
+  step: string | null;
+}
+
+/** One log line, as written in JSON. */
+interface LogRecord extends LogContext {
+  time: string;
+  level: LogLevel;
+  msg: string;
+  /** The first Error among the arguments, if any. */
+  error?: Record<string, unknown>;
+}
+
+// ---------------------------------------------------------------------------
+// Context
+// ---------------------------------------------------------------------------
+
+let context: LogContext = { runId: null, iteration: null, workflowId: null, step: null };
+
+/** Update the context attached to the following lines. */
+export function setLogContext(patch: Partial<LogContext>): void {
+  context = { ...context, ...patch };
+}
+
+// ---------------------------------------------------------------------------
+// Redaction
+// ---------------------------------------------------------------------------
+
+const REDACTED = "[REDACTED]";
+
+/** `authorization: 'token …'`, `"Authorization":"Bearer …"` and the like. */
+const AUTHORIZATION_VALUE = /(authorization["']?\s*[:=]\s*["']?)(?:(token|bearer|basic)\s+)?[^\s"',}]+/gi;
+
+/** Personal access, OAuth, app and fine-grained GitHub tokens. */
+const GITHUB_TOKEN_PATTERN = /\b(?:gh[pousr]_[A-Za-z0-9]{20,}|github_pat_\w{20,})/g;
+
+/** Shorter "secrets" would redact ordinary words. */
+const MIN_SECRET_LENGTH = 6;
+
+const secrets = [
+  config.githubToken,
+  config.webhook.secret,
+  config.webhook.replaySecret,
+  ...Object.values(config.tracing.otlpHeaders),
+].filter(
+  (s, i, all) => s.length >= MIN_SECRET_LENGTH && all.indexOf(s) === i
+);
+
+/** `text` with every known secret and credential replaced. */
+export function redact(text: string): string {
+  let out = text;
+  for (const secret of secrets) out = out.split(secret).join(REDACTED);
+  return out
+    .replace(AUTHORIZATION_VALUE, (_match, prefix: string, scheme?: string) =>
+      `${prefix}${scheme ? `${scheme} ` : ""}${REDACTED}`
+    )
+    .replace(GITHUB_TOKEN_PATTERN, REDACTED);
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+const currentLevel = LOG_LEVELS[config.logLevel];
+
+function toRecord(level: LogLevel, args: unknown[]): LogRecord {
+  const error = args.find((a): a is Error => a instanceof Error);
+  return {
+    time: new Date().toISOString(),
+    level,
+    ...context,
+    // Errors are summarised by their message; the details go in `error`.
+    msg: format(...args.map((a) => (a instanceof Error ? a.message : a))),
+    ...(error ? { error: describeError(error) } : {}),
+  };
+}
+
+/** Name, message, stack and scalar fields of `err` and its causes. */
+function describeError(err: Error, depth = 0): Record<string, unknown> {
+  const fields: Record<string, unknown> = { name: err.name, message: err.message, stack: err.stack };
+  for (const [key, value] of Object.entries(err)) {
+    if (value === null || ["string", "number", "boolean"].includes(typeof value)) fields[key] = value;
+  }
+  if (err.cause instanceof Error && depth < 3) fields.cause = describeError(err.cause, depth + 1);
+  return fields;
+}
+
+function jsonLine(record: LogRecord): string {
+  return JSON.stringify(record, (_key, value: unknown) => (typeof value === "string" ? redact(value) : value));
+}
+
+/** `[INFO] [run #iteration step] message`, as console.log would print the arguments. */
+function prettyLine(level: LogLevel, args: unknown[]): string {
+  const tags = [
+    context.runId,
+    context.iteration !== null ? `#${context.iteration}` : null,
+    context.step,
+  ].filter((t) => t !== null);
+  return redact(`[${level.toUpperCase()}]${tags.length > 0 ? ` [${tags.join(" ")}]` : ""} ${format(...args)}`);
+}
+
+// ---------------------------------------------------------------------------
+// File sink
+// ---------------------------------------------------------------------------
+
+/** A function that appends lines to `filePath`, rotating it by size. */
+function createFileSink(filePath: string, maxBytes: number, maxFiles: number): (line: string) => void {
+  let size: number | null = null;
+
+  const rotate = () => {
+    for (let i = maxFiles - 1; i >= 1; i--) {
+      if (fs.existsSync(`${filePath}.${i}`)) fs.renameSync(`${filePath}.${i}`, `${filePath}.${i + 1}`);
+    }
+    fs.renameSync(filePath, `${filePath}.1`);
+    size = 0;
+  };
+
+  return (line) => {
+    if (size === null) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      size = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+    }
+    const bytes = Buffer.byteLength(line) + 1;
+    if (size > 0 && size + bytes > maxBytes) rotate();
+    fs.appendFileSync(filePath, `${line}\n`);
+    size += bytes;
+  };
+}
+
+/** Null without LOG_FILE, or once writing to it failed. */
+let writeFile: ((line: string) => void) | null = config.logFile.path
+  ? createFileSink(config.logFile.path, config.logFile.maxBytes, config.logFile.maxFiles)
+  : null;
+
+function writeToFile(line: string): void {
+  if (!writeFile) return;
+  try {
+    writeFile(line);
+  } catch (err) {
+    // Logging must not break a run; carry on with the console alone.
+    writeFile = null;
+    console.warn(`[WARN] Could not write log file ${config.logFile.path}; file logging is off: ${(err as Error).message}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Logger
+// ---------------------------------------------------------------------------
+
+const CONSOLE: Record<LogLevel, (line: string) => void> = {
+  debug: (line) => console.debug(line),
+  info: (line) => console.log(line),
+  warn: (line) => console.warn(line),
+  error: (line) => console.error(line),
+};
+
+function write(level: LogLevel, args: unknown[]): void {
+  if (LOG_LEVELS[level] < currentLevel) return;
+  const json = config.logFormat === "json" || writeFile ? jsonLine(toRecord(level, args)) : null;
+  CONSOLE[level](config.logFormat === "json" ? json! : prettyLine(level, args));
+  if (json) writeToFile(json);
+}
+
+/** Structured logger that respects the configured level, format and file. */
+export const log = {
+  debug: (...args: unknown[]) => write("debug", args),
+  info: (...args: unknown[]) => write("info", args),
+  warn: (...args: unknown[]) => write("warn", args),
+  error: (...args: unknown[]) => write("error", args),
+};
@@ -7,8 +7,8 @@
  *   • **YOLO merge** — the PR is merged immediately without review,
  *     which triggers the YOLO achievement on GitHub.
  *
- * After a successful merge the feature branch is deleted to keep the
- * repository tidy.
+ * The workflow's delete-branch step removes the feature branch after a
+ * successful merge to keep the repository tidy.
  */
 
 import { config } from "./config";
@@ -17,15 +17,19 @@ import {
   owner,
   repo,
   withRateLimit,
-  deleteBranch,
 } from "./githubClient";
 import { commentOnPR } from "./commentManager";
-import { log, nowISO, sleep } from "./utils";
+import { ConflictError, NotMergeableError } from "./githubErrors";
+import { setSpanAttributes, tracedSleep, withSpan } from "./tracing";
+import { log, nowISO } from "./utils";
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
+/** How a PR's commits land on the base branch. */
+export type MergeMethod = "merge" | "squash" | "rebase";
+
 /** Result metadata after a merge operation. */
 export interface MergeResult {
   /** PR number that was merged. */
@@ -36,8 +40,6 @@ export interface MergeResult {
   yolo: boolean;
   /** ISO-8601 merge timestamp. */
   mergedAt: string;
-  /** Name of the branch that was deleted post-merge. */
-  deletedBranch: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -45,23 +47,23 @@ export interface MergeResult {
 // ---------------------------------------------------------------------------
 
 /**
- * Merge a pull request, optionally exercising the YOLO path.
+ * Review (unless YOLO) and merge a PR, leaving its branch alone; the
+ * workflow deletes it in a step of its own.
+ * Throws NotMergeableError when GitHub refuses the merge (405).
  *
- * @param prNumber   - The PR to merge.
- * @param branchName - The head branch (deleted after merge).
- * @param yolo       - Override config.yoloMode for this call.
+ * @param method - Merge method (squash by default, keeping history clean).
  */
-export async function mergePullRequest(
+export async function performMerge(
   prNumber: number,
-  branchName: string,
-  yolo?: boolean
+  yolo?: boolean,
+  method: MergeMethod = "squash"
 ): Promise<MergeResult> {
   const useYolo = yolo ?? config.yoloMode;
 
   if (!useYolo) {
     // Post a review-style comment before merging.
     // Adds a small delay to look natural and avoid rate limits.
-    await sleep(1_500);
+    await tracedSleep(1_500, "before review comment");
     await commentOnPR(prNumber);
     log.info(`Posted review comment on PR #${prNumber} before merge.`);
   } else {
@@ -69,33 +71,33 @@ export async function mergePullRequest(
   }
 
   // Small pause to let GitHub index the comment.
-  await sleep(1_000);
+  await tracedSleep(1_000, "comment indexing");
 
-  // Perform the merge via the API (squash merge keeps history clean).
+  // Perform the merge via the API.
   const { data } = await withRateLimit("merge-pr", () =>
     octokit.pulls.merge({
       owner,
       repo,
       pull_number: prNumber,
-      merge_method: "squash",
+      merge_method: method,
       commit_title: `merge: PR #${prNumber}`,
       commit_message: useYolo
         ? "Merged without review (YOLO)."
         : "Merged after review.",
     })
-  );
-
-  log.info(`Merged PR #${prNumber} (sha: ${data.sha})`);
+  ).catch((err: unknown) => {
+    // 405: conflicts, a draft, or branch protection GitHub will not bypass.
+    if (err instanceof ConflictError && err.status === 405) throw new NotMergeableError(prNumber, err);
+    throw err;
+  });
 
-  // Clean up the feature branch.
-  await deleteBranch(branchName);
+  log.info(`Merged PR #${prNumber} by ${method} (sha: ${data.sha})`);
 
   return {
     prNumber,
     mergeSha: data.sha,
     yolo: useYolo,
     mergedAt: nowISO(),
-    deletedBranch: branchName,
   };
 }
 
@@ -103,30 +105,34 @@ export async function mergePullRequest(
  * Check whether a PR is currently mergeable.
  *
  * GitHub sometimes returns `mergeable: null` while it computes the
- * merge status.  We retry a few times with back-off.
+ * merge status.  We retry a few times with back-off.  The polling is
+ * traced as one "poll-mergeable" span.
  */
 export async function isMergeable(prNumber: number): Promise<boolean> {
   const MAX_ATTEMPTS = 5;
   const DELAY_MS = 3_000;
 
-  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
-    const { data } = await withRateLimit("check-mergeable", () =>
-      octokit.pulls.get({ owner, repo, pull_number: prNumber })
+  return withSpan("poll-mergeable", { "github.pr": prNumber }, async () => {
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      setSpanAttributes({ "poll.attempts": attempt });
+      const { data } = await withRateLimit("check-mergeable", () =>
+        octokit.pulls.get({ owner, repo, pull_number: prNumber })
+      );
+
+      if (data.mergeable === true) return true;
+      if (data.mergeable === false) return false;
+
+      // null → GitHub is still calculating; wait and retry.
+      log.debug(
+        `PR #${prNumber} mergeable status unknown (attempt ${attempt}/${MAX_ATTEMPTS}). Waiting…`
+      );
+      await tracedSleep(DELAY_MS, "mergeable status pending");
+    }
+
+    // Conservative default — do not merge if we cannot confirm.
+    log.warn(
+      `Could not determine mergeable status for PR #${prNumber} after ${MAX_ATTEMPTS} attempts.`
     );
-
-    if (data.mergeable === true) return true;
-    if (data.mergeable === false) return false;
-
-    // null → GitHub is still calculating; wait and retry.
-    log.debug(
-      `PR #${prNumber} mergeable status unknown (attempt ${attempt}/${MAX_ATTEMPTS}). Waiting…`
-    );
-    await sleep(DELAY_MS);
-  }
-
-  // Conservative default — do not merge if we cannot confirm.
-  log.warn(
-    `Could not determine mergeable status for PR #${prNumber} after ${MAX_ATTEMPTS} attempts.`
-  );
-  return false;
+    return false;
+  });
 }
@@ -7,6 +7,9 @@
  *   3. Commit a real, non-empty file to the branch.
  *   4. Open a PR that references the issue ("Closes #N").
  *
+ * Declarative workflows (workflowRunner.ts) can also open the PR as a
+ * draft, push follow-up commits, request reviewers and mark it ready.
+ *
  * The PR body includes the "Closes #<issue>" keyword so that GitHub
  * automatically closes the issue when the PR is merged.
  *
@@ -24,6 +27,7 @@ import {
   repo,
   withRateLimit,
 } from "./githubClient";
+import { BranchExistsError } from "./githubErrors";
 import {
   log,
   slugify,
@@ -33,7 +37,9 @@ import {
   generatedFilePath,
   coAuthorTrailer,
   nowISO,
+  runMarker,
 } from "./utils";
+import { allowNodeId } from "./repoScope";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -57,65 +63,184 @@ export interface CreatedPR {
 // PR creation pipeline
 // ---------------------------------------------------------------------------
 
+/** Branch names tried before giving up on a taken name. */
+const BRANCH_NAME_ATTEMPTS = 3;
+
 /**
- * Full pipeline: branch → commit → open PR.
- *
- * @param issueNumber - The issue this PR will reference and close.
- * @param issueTitle  - Used to derive the branch name.
+ * Step 1: create a feature branch off the default branch's HEAD.
+ * Returns the new branch and the base it will merge back into.  A name
+ * that is already taken is retried with a fresh suffix.
  */
-export async function createPullRequest(
-  issueNumber: number,
+export async function createFeatureBranch(
   issueTitle: string
-): Promise<CreatedPR> {
-  // ---- 1. Branch -----------------------------------------------------------
-  const slug = slugify(issueTitle);
-  const branchName = `${config.branchPrefix}${slug}-${shortId()}`;
+): Promise<{ branch: string; baseBranch: string }> {
   const { branch: defaultBranch, sha: baseSha } =
     await getDefaultBranchSha();
 
-  await createBranch(branchName, baseSha);
+  for (let attempt = 1; ; attempt++) {
+    const branchName = `${config.branchPrefix}${slugify(issueTitle)}-${shortId()}`;
+    try {
+      await createBranch(branchName, baseSha);
+      return { branch: branchName, baseBranch: defaultBranch };
+    } catch (err) {
+      if (!(err instanceof BranchExistsError) || attempt >= BRANCH_NAME_ATTEMPTS) throw err;
+      log.warn(`Branch ${branchName} already exists; trying another name.`);
+    }
+  }
+}
 
-  // ---- 2. Commit a real file -----------------------------------------------
-  const filePath = generatedFilePath(`${slug}-${shortId()}`);
+/**
+ * Step 2: commit a real, non-empty file to the feature branch.
+ * Returns the committed path and commit SHA.
+ */
+export async function commitGeneratedFile(
+  branch: string,
+  issueNumber: number,
+  issueTitle: string
+): Promise<{ path: string; sha: string }> {
+  const filePath = generatedFilePath(`${slugify(issueTitle)}-${shortId()}`);
   const fileContent = getRandomFileContent();
   const commitMessage =
     `feat: ${issueTitle} (#${issueNumber})` + coAuthorTrailer();
 
-  await commitFile({
-    branch: branchName,
+  const sha = await commitFile({
+    branch,
     path: filePath,
     content: fileContent,
     message: commitMessage,
   });
+  return { path: filePath, sha };
+}
 
-  // ---- 3. Open the PR ------------------------------------------------------
-  const prBody = buildPRBody(issueNumber);
+/**
+ * Step 3: open the PR that closes the issue.
+ */
+export async function openPullRequest(opts: {
+  issueNumber: number;
+  issueTitle: string;
+  branch: string;
+  baseBranch: string;
+  /** Tags the PR body so cleanup can find it by run. */
+  runId?: string;
+  /** Open as a draft (see markReadyForReview). */
+  draft?: boolean;
+}): Promise<CreatedPR> {
+  const prBody =
+    buildPRBody(opts.issueNumber) + (opts.runId ? runMarker(opts.runId) : "");
 
   const { data } = await withRateLimit("create-pr", () =>
     octokit.pulls.create({
       owner,
       repo,
-      title: `feat: ${issueTitle}`,
-      head: branchName,
-      base: defaultBranch,
+      title: `feat: ${opts.issueTitle}`,
+      head: opts.branch,
+      base: opts.baseBranch,
       body: prBody,
+      draft: opts.draft,
     })
   );
 
   const created: CreatedPR = {
     number: data.number,
-    branch: branchName,
+    branch: opts.branch,
     createdAt: data.created_at ?? nowISO(),
     htmlUrl: data.html_url,
-    closesIssue: issueNumber,
+    closesIssue: opts.issueNumber,
   };
 
   log.info(
-    `Opened PR #${created.number} on branch ${branchName} → closes #${issueNumber}`
+    `Opened ${opts.draft ? "draft " : ""}PR #${created.number} on branch ${opts.branch} ` +
+      `→ closes #${opts.issueNumber}`
   );
   return created;
 }
 
+/**
+ * Push a follow-up commit to an open PR's branch, as a contributor
+ * addressing feedback would.  Returns the committed path and SHA.
+ */
+export async function pushFollowUpCommit(
+  branch: string,
+  issueNumber: number,
+  issueTitle: string
+): Promise<{ path: string; sha: string }> {
+  const filePath = generatedFilePath(`${slugify(issueTitle)}-followup-${shortId()}`);
+  const sha = await commitFile({
+    branch,
+    path: filePath,
+    content: getRandomFileContent(),
+    message: `chore: address review feedback (#${issueNumber})` + coAuthorTrailer(),
+  });
+  return { path: filePath, sha };
+}
+
+/**
+ * Ask users and/or teams to review a PR.  Reviewers must be
+ * collaborators on the repository, and cannot include the PR author.
+ */
+export async function requestReviewers(
+  prNumber: number,
+  reviewers: { users?: string[]; teams?: string[] }
+): Promise<void> {
+  await withRateLimit("request-reviewers", () =>
+    octokit.pulls.requestReviewers({
+      owner,
+      repo,
+      pull_number: prNumber,
+      reviewers: reviewers.users ?? [],
+      team_reviewers: reviewers.teams ?? [],
+    })
+  );
+  const names = [...(reviewers.users ?? []), ...(reviewers.teams ?? []).map((t) => `team ${t}`)];
+  log.info(`Requested review on PR #${prNumber} from ${names.join(", ")}`);
+}
+
+/**
+ * Convert a draft PR to "ready for review".
+ *
+ * The REST API cannot do this, so it goes through the GraphQL mutation
+ * with the PR's node ID (looked up via REST, which the scope guard has
+ * already checked belongs to the target repo).
+ */
+export async function markReadyForReview(prNumber: number): Promise<void> {
+  const { data } = await withRateLimit("get-pr", () =>
+    octokit.pulls.get({ owner, repo, pull_number: prNumber })
+  );
+  if (!data.draft) {
+    log.debug(`PR #${prNumber} is not a draft; nothing to mark ready.`);
+    return;
+  }
+
+  allowNodeId(data.node_id);
+  await withRateLimit("mark-ready", () =>
+    octokit.graphql(
+      `mutation ($id: ID!) {
+        markPullRequestReadyForReview(input: { pullRequestId: $id }) {
+          pullRequest { number isDraft }
+        }
+      }`,
+      { id: data.node_id }
+    )
+  );
+  log.info(`Marked PR #${prNumber} ready for review`);
+}
+
+/**
+ * Close a pull request without merging it (used when rolling back an
+ * abandoned workflow).
+ */
+export async function closePullRequest(prNumber: number): Promise<void> {
+  await withRateLimit("close-pr", () =>
+    octokit.pulls.update({
+      owner,
+      repo,
+      pull_number: prNumber,
+      state: "closed",
+    })
+  );
+  log.info(`Closed PR #${prNumber} without merging`);
+}
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
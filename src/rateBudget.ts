@@ -0,0 +1,220 @@
+/**
+ * rateBudget.ts — Track the API budget and pace requests before GitHub
+ * starts refusing them.
+ *
+ * Every response's `x-ratelimit-*` headers update a live model of the
+ * primary (core) quota.  Alongside it we count content-creating requests
+ * (POST/PATCH/PUT/DELETE) against GitHub's documented secondary limits:
+ * at most 80 per minute and 500 per hour, with about a second between
+ * writes.
+ *
+ * `budgetedRequest()` consults the model before each call and sleeps
+ * when the budget runs low, so callers are paced automatically.
+ * `hasBudgetFor()` lets the orchestrator loop stop cleanly between
+ * iterations instead of failing halfway through one.
+ */
+
+import { recordRateLimitRemaining } from "./analytics";
+import { config } from "./config";
+import { RateBudgetExhaustedError } from "./githubErrors";
+import { ApiRequestOptions, ApiResponse, RequestHandler } from "./requestTypes";
+import { tracedSleep } from "./tracing";
+import { log } from "./utils";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Snapshot of the current API budget. */
+export interface RateBudget {
+  core: {
+    /** Hourly quota, or null until the first response is seen. */
+    limit: number | null;
+    /** Requests left in the current window. */
+    remaining: number | null;
+    /** When the window resets (epoch ms). */
+    resetAt: number | null;
+  };
+  contentCreation: {
+    /** Writes sent in the trailing 60 seconds. */
+    lastMinute: number;
+    /** Writes sent in the trailing hour. */
+    lastHour: number;
+    perMinuteLimit: number;
+    perHourLimit: number;
+  };
+  /** Lowest `remaining` observed since the process started. */
+  minRemaining: number | null;
+}
+
+const WRITE_METHODS = new Set(["POST", "PATCH", "PUT", "DELETE"]);
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// ---------------------------------------------------------------------------
+// Budget state
+// ---------------------------------------------------------------------------
+
+const core: RateBudget["core"] = { limit: null, remaining: null, resetAt: null };
+let minRemaining: number | null = null;
+
+/** Send times (epoch ms) of content-creating requests in the last hour. */
+const writeTimes: number[] = [];
+
+/** Current budget snapshot. */
+export function getBudget(now: number = Date.now()): RateBudget {
+  pruneWrites(now);
+  return {
+    core: { ...core },
+    contentCreation: {
+      lastMinute: writeTimes.filter((t) => t > now - MINUTE_MS).length,
+      lastHour: writeTimes.length,
+      perMinuteLimit: config.rateBudget.contentPerMinute,
+      perHourLimit: config.rateBudget.contentPerHour,
+    },
+    minRemaining,
+  };
+}
+
+/**
+ * Whether `requests` more calls (of which `writes` create content) fit
+ * in the current budget, keeping the configured reserve untouched.
+ * Optimistic until the first response has been observed.
+ */
+export function hasBudgetFor(
+  requests: number,
+  writes: number,
+  now: number = Date.now()
+): boolean {
+  const budget = getBudget(now);
+  const coreOk =
+    budget.core.remaining === null ||
+    (budget.core.resetAt ?? 0) <= now ||
+    budget.core.remaining - requests >= config.rateBudget.reserve;
+  const hourOk =
+    budget.contentCreation.lastHour + writes <= budget.contentCreation.perHourLimit;
+  return coreOk && hourOk;
+}
+
+// ---------------------------------------------------------------------------
+// Request hook
+// ---------------------------------------------------------------------------
+
+/** Pace the request against the budget, send it, and learn from the reply. */
+export async function budgetedRequest<O extends ApiRequestOptions>(
+  request: RequestHandler<O>,
+  options: O
+): Promise<ApiResponse> {
+  const isWrite = WRITE_METHODS.has(options.method.toUpperCase());
+  await pace(options, isWrite);
+  if (isWrite) writeTimes.push(Date.now());
+
+  try {
+    const response = await request(options);
+    observe(response.headers);
+    return response;
+  } catch (err) {
+    const headers = (err as { response?: ApiResponse }).response?.headers;
+    if (headers) observe(headers);
+    throw err;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+/** Update the core quota model from response headers. */
+function observe(headers: ApiResponse["headers"]): void {
+  // Only the core quota paces us; search/graphql have their own buckets.
+  const resource = headers["x-ratelimit-resource"];
+  if (resource !== undefined && resource !== "core") return;
+
+  const remaining = Number(headers["x-ratelimit-remaining"]);
+  if (headers["x-ratelimit-remaining"] === undefined || !Number.isFinite(remaining)) {
+    return;
+  }
+
+  core.remaining = remaining;
+  const limit = Number(headers["x-ratelimit-limit"]);
+  if (Number.isFinite(limit)) core.limit = limit;
+  const reset = Number(headers["x-ratelimit-reset"]);
+  if (Number.isFinite(reset)) core.resetAt = reset * 1000;
+
+  if (minRemaining === null || remaining < minRemaining) minRemaining = remaining;
+  recordRateLimitRemaining(remaining);
+}
+
+/**
+ * Sleep as long as needed for the next request to fit the budget.
+ * Throws RateBudgetExhaustedError, which stops the run, when that is
+ * longer than RATE_LIMIT_MAX_WAIT_MS.
+ */
+async function pace(options: ApiRequestOptions, isWrite: boolean): Promise<void> {
+  const now = Date.now();
+  const waits: { ms: number; why: string }[] = [];
+
+  // Core quota: below the reserve, spread what is left over the time
+  // remaining in the window; at zero, wait for the reset.
+  if (core.remaining !== null && core.resetAt !== null && core.resetAt > now) {
+    const untilReset = core.resetAt - now;
+    if (core.remaining <= 0) {
+      waits.push({ ms: untilReset + 1_000, why: "core quota exhausted" });
+    } else if (core.remaining <= config.rateBudget.reserve) {
+      waits.push({
+        ms: Math.ceil(untilReset / core.remaining),
+        why: `core quota low (${core.remaining} left)`,
+      });
+    }
+  }
+
+  if (isWrite) {
+    pruneWrites(now);
+    const { contentPerMinute, contentPerHour, minWriteIntervalMs } = config.rateBudget;
+    const lastMinute = writeTimes.filter((t) => t > now - MINUTE_MS);
+
+    if (lastMinute.length >= contentPerMinute) {
+      const oldest = lastMinute[lastMinute.length - contentPerMinute];
+      waits.push({ ms: oldest + MINUTE_MS - now, why: "content-creation limit per minute" });
+    }
+    if (writeTimes.length >= contentPerHour) {
+      const oldest = writeTimes[writeTimes.length - contentPerHour];
+      waits.push({ ms: oldest + HOUR_MS - now, why: "content-creation limit per hour" });
+    }
+    const last = writeTimes[writeTimes.length - 1];
+    if (last !== undefined && now - last < minWriteIntervalMs) {
+      waits.push({ ms: minWriteIntervalMs - (now - last), why: "write spacing" });
+    }
+  }
+
+  if (waits.length === 0) return;
+  const longest = waits.reduce((a, b) => (b.ms > a.ms ? b : a));
+
+  if (longest.ms > config.retry.maxRateLimitWaitMs) {
+    throw new RateBudgetExhaustedError(
+      longest.why,
+      longest.ms,
+      {
+        operation: "rate-budget",
+        method: options.method.toUpperCase(),
+        route: options.url,
+        status: null,
+        requestId: null,
+      },
+      core.resetAt !== null && core.remaining !== null && core.remaining <= config.rateBudget.reserve
+        ? new Date(core.resetAt)
+        : null
+    );
+  }
+
+  const level = longest.ms >= 5_000 ? "warn" : "debug";
+  log[level](`Pacing: waiting ${Math.ceil(longest.ms / 1000)}s (${longest.why}).`);
+  await tracedSleep(longest.ms, `rate budget: ${longest.why}`);
+}
+
+/** Drop write timestamps older than the hourly window. */
+function pruneWrites(now: number): void {
+  while (writeTimes.length > 0 && writeTimes[0] <= now - HOUR_MS) {
+    writeTimes.shift();
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * recovery.ts — Roll back workflows that an earlier run left unfinished.
+ *
+ * Rollback undoes whatever the journal says was created, newest first:
+ * an unmerged PR is closed, its branch deleted, and the issue closed.
+ * A merge cannot be undone, so a workflow that got that far only has its
+ * leftover branch removed.
+ *
+ * Resuming (the other recovery policy) lives in the orchestrator loop,
+ * which simply re-runs a journal entry and skips completed steps.
+ */
+
+import { deleteBranch } from "./githubClient";
+import { closeIssue } from "./issueManager";
+import { closePullRequest } from "./prManager";
+import { JournalEntry, finishWorkflow } from "./journal";
+import { log } from "./utils";
+
+/** Undo an interrupted workflow and mark it rolled back. */
+export async function rollbackWorkflow(entry: JournalEntry): Promise<void> {
+  const { state } = entry;
+  const merged = state.merge !== undefined;
+  log.info(
+    `Rolling back workflow ${entry.id} (last step: ${entry.steps.at(-1)?.step ?? "none"})…`
+  );
+
+  if (state.pr && !merged) {
+    await closePullRequest(state.pr.number);
+  }
+  if (state.branch && !state.branchDeleted) {
+    await deleteBranch(state.branch);
+  }
+  // A merged PR already closed its issue via "Closes #N".
+  if (state.issue && !merged) {
+    await closeIssue(state.issue.number, "not_planned");
+  }
+
+  finishWorkflow(entry, "rolled-back");
+  log.info(`Workflow ${entry.id} rolled back.`);
+}
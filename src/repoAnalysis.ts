@@ -0,0 +1,415 @@
+/**
+ * repoAnalysis.ts — Workflow-health metrics over a repository's history.
+ *
+ * The analytics module only measures what the orchestrator itself did.
+ * `orchestrator analyze` asks the same questions — how quickly issues get
+ * a first response, how long PRs sit before merge — of everything in the
+ * repository.  It pages through issues, issue and PR comments, pull
+ * requests and their reviews, and measures each item:
+ *
+ *   first response  first comment or review by anyone but the author
+ *   first review    first submitted review by anyone but the author (PRs)
+ *   cycle time      PR opened → merged
+ *   review rounds   distinct commits reviewed by anyone but the author
+ *   stale           still open and not updated within the stale window
+ *
+ * Responses and reviews from bots do not count: an auto-triage comment
+ * is not a response.  Items are grouped overall, by author type (human
+ * or bot) and by label, and every group's duration series are summarised
+ * with the same distributions and renderers as the analytics report.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  LabelledDistribution,
+  formatMs,
+  markdownDistributions,
+  printDistributions,
+} from "./analytics";
+import { octokit, owner, repo, withRateLimit } from "./githubClient";
+import { DistributionStats, HISTORY_BUCKETS_MS, describeDistribution } from "./stats";
+import { log } from "./utils";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface AnalysisOptions {
+  /** Only items created at or after this time (default: all). */
+  since?: Date;
+  /** Open items not updated for this long are stale. */
+  staleAfterMs: number;
+  now?: Date;
+}
+
+export type AuthorType = "human" | "bot";
+
+/** What was measured for one issue or pull request. */
+export interface ItemMetrics {
+  number: number;
+  kind: "issue" | "pr";
+  authorType: AuthorType;
+  labels: string[];
+  open: boolean;
+  stale: boolean;
+  firstResponseMs: number | null;
+  /** PRs only, like the rest below. */
+  firstReviewMs: number | null;
+  cycleMs: number | null;
+  /** Null for PRs nobody else reviewed. */
+  reviewRounds: number | null;
+}
+
+/** A group's counts and its duration series. */
+export interface GroupStats {
+  name: string;
+  issues: number;
+  pulls: number;
+  merged: number;
+  open: number;
+  stale: number;
+  /** Open items nobody but the author (or a bot) has responded to. */
+  unanswered: number;
+  durations: (LabelledDistribution & { key: AnalysisSeriesKey })[];
+  /** Review rounds of the PRs someone reviewed. */
+  reviewRounds: DistributionStats;
+}
+
+export interface RepoAnalysis {
+  repository: string;
+  generatedAt: string;
+  /** ISO-8601 creation cutoff, or null for the whole history. */
+  since: string | null;
+  staleAfterMs: number;
+  overall: GroupStats;
+  byAuthorType: GroupStats[];
+  /** One group per label, largest first, then "(no label)". */
+  byLabel: GroupStats[];
+}
+
+type AnalysisSeriesKey = "firstResponse" | "firstReview" | "cycle";
+
+/** Duration series summarised per group, in display order. */
+const ANALYSIS_SERIES: {
+  key: AnalysisSeriesKey;
+  label: string;
+  value: (item: ItemMetrics) => number | null;
+}[] = [
+  { key: "firstResponse", label: "Time to first response", value: (i) => i.firstResponseMs },
+  { key: "firstReview", label: "Time to first review", value: (i) => i.firstReviewMs },
+  { key: "cycle", label: "PR cycle time", value: (i) => i.cycleMs },
+];
+
+const NO_LABEL = "(no label)";
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Fetch the repository's history and measure it. */
+export async function analyzeRepository(options: AnalysisOptions): Promise<RepoAnalysis> {
+  const now = options.now ?? new Date();
+  const history = await fetchHistory(options.since);
+  const items = measureItems(history, options.staleAfterMs, now);
+
+  const labels = new Map<string, number>();
+  for (const label of items.flatMap((i) => i.labels)) labels.set(label, (labels.get(label) ?? 0) + 1);
+  const byLabel = [...labels]
+    .sort(([a, m], [b, n]) => n - m || a.localeCompare(b))
+    .map(([label]) => summariseGroup(label, items.filter((i) => i.labels.includes(label))));
+  const unlabelled = items.filter((i) => i.labels.length === 0);
+  if (unlabelled.length > 0) byLabel.push(summariseGroup(NO_LABEL, unlabelled));
+
+  return {
+    repository: `${owner}/${repo}`,
+    generatedAt: now.toISOString(),
+    since: options.since?.toISOString() ?? null,
+    staleAfterMs: options.staleAfterMs,
+    overall: summariseGroup("All items", items),
+    byAuthorType: [
+      summariseGroup("Human authors", items.filter((i) => i.authorType === "human")),
+      summariseGroup("Bot authors", items.filter((i) => i.authorType === "bot")),
+    ],
+    byLabel,
+  };
+}
+
+/** Print a human-readable summary to the console. */
+export function printAnalysisSummary(analysis: RepoAnalysis): void {
+  const { overall } = analysis;
+  console.log("\n========================================");
+  console.log("  Workflow Health — Repository History  ");
+  console.log("========================================");
+  console.log(`  Repository .............. ${analysis.repository}`);
+  console.log(`  Items created ........... ${describeSince(analysis)}`);
+  console.log(`  Issues .................. ${overall.issues}`);
+  console.log(`  PRs (merged) ............ ${overall.pulls} (${overall.merged})`);
+  console.log(`  Open (unanswered) ....... ${overall.open} (${overall.unanswered})`);
+  console.log(`  Stale ................... ${overall.stale} (no update in ${formatSpan(analysis.staleAfterMs)})`);
+  console.log(`  Review rounds (mean) .... ${formatRounds(overall.reviewRounds.mean)}`);
+  printDistributions(overall.durations);
+  console.log("========================================\n");
+}
+
+/** Markdown report of the analysis, in the analytics report's layout. */
+export function generateAnalysisReport(analysis: RepoAnalysis): string {
+  const { overall } = analysis;
+  const lines = [
+    `## 🩺 Workflow Health: ${analysis.repository}`,
+    "",
+    `_Generated: ${analysis.generatedAt} · items created: ${describeSince(analysis)} · ` +
+      `stale after ${formatSpan(analysis.staleAfterMs)} without updates_`,
+    "",
+    "| Metric | Value |",
+    "| --- | ---: |",
+    `| Issues | ${overall.issues} |`,
+    `| PRs (merged) | ${overall.pulls} (${overall.merged}) |`,
+    `| Open (unanswered) | ${overall.open} (${overall.unanswered}) |`,
+    `| Stale | ${overall.stale} |`,
+    `| Review rounds (mean / p50 / max) | ${formatRounds(overall.reviewRounds.mean)} / ` +
+      `${formatRounds(overall.reviewRounds.percentiles.p50)} / ${formatRounds(overall.reviewRounds.max)} |`,
+    "",
+    "### Latency distributions",
+    "",
+    ...markdownDistributions(overall.durations),
+    "### By author type",
+    "",
+    ...groupTable(analysis.byAuthorType),
+    "### By label",
+    "",
+    ...(analysis.byLabel.length > 0 ? groupTable(analysis.byLabel) : ["_No items._", ""]),
+  ];
+  return lines.join("\n");
+}
+
+/**
+ * Write (overwrite) the Markdown analysis report to a local file.
+ */
+export function writeAnalysisReport(
+  analysis: RepoAnalysis,
+  filePath: string = path.resolve(__dirname, "..", "analysis.md")
+): void {
+  fs.writeFileSync(filePath, generateAnalysisReport(analysis), "utf-8");
+  log.info(`Markdown analysis report written to ${filePath}`);
+}
+
+// ---------------------------------------------------------------------------
+// Fetching
+// ---------------------------------------------------------------------------
+
+interface Actor {
+  login: string;
+  type?: string;
+}
+
+interface HistoryItem {
+  number: number;
+  kind: "issue" | "pr";
+  user: Actor | null;
+  labels: string[];
+  open: boolean;
+  createdAt: string;
+  updatedAt: string;
+  mergedAt: string | null;
+}
+
+interface Activity {
+  user: Actor | null;
+  at: string;
+}
+
+interface History {
+  items: HistoryItem[];
+  /** Comments by issue/PR number, oldest first. */
+  comments: Map<number, Activity[]>;
+  /** Submitted reviews by PR number, oldest first. */
+  reviews: Map<number, (Activity & { commitId: string | null })[]>;
+}
+
+async function fetchHistory(since: Date | undefined): Promise<History> {
+  const after = (iso: string) => !since || Date.parse(iso) >= since.getTime();
+  // `since` on the list endpoints filters by update time; anything
+  // created after the cutoff was also updated after it.
+  const sinceParam = since ? { since: since.toISOString() } : {};
+  const labelNames = (labels: (string | { name?: string })[]) =>
+    labels.map((l) => (typeof l === "string" ? l : l.name ?? "")).filter(Boolean);
+
+  log.info("Listing issues…");
+  const issues = await withRateLimit("list-issues", () =>
+    octokit.paginate(octokit.issues.listForRepo, {
+      owner,
+      repo,
+      state: "all",
+      per_page: 100,
+      ...sinceParam,
+    })
+  );
+  const items: HistoryItem[] = issues
+    .filter((i) => !i.pull_request && after(i.created_at)) // PRs are listed below.
+    .map((i) => ({
+      number: i.number,
+      kind: "issue",
+      user: i.user,
+      labels: labelNames(i.labels),
+      open: i.state === "open",
+      createdAt: i.created_at,
+      updatedAt: i.updated_at,
+      mergedAt: null,
+    }));
+
+  log.info("Listing pull requests…");
+  // Newest first, so paging can stop at the first PR before the cutoff.
+  const pulls = await withRateLimit("list-pulls", () =>
+    octokit.paginate(
+      octokit.pulls.list,
+      { owner, repo, state: "all", sort: "created", direction: "desc", per_page: 100 },
+      (response, done) => {
+        const page = response.data.filter((p) => after(p.created_at));
+        if (page.length < response.data.length) done();
+        return page;
+      }
+    )
+  );
+  for (const p of pulls) {
+    items.push({
+      number: p.number,
+      kind: "pr",
+      user: p.user,
+      labels: labelNames(p.labels),
+      open: p.state === "open",
+      createdAt: p.created_at,
+      updatedAt: p.updated_at,
+      mergedAt: p.merged_at,
+    });
+  }
+
+  log.info("Listing comments…");
+  const comments = new Map<number, Activity[]>();
+  const allComments = await withRateLimit("list-comments", () =>
+    octokit.paginate(octokit.issues.listCommentsForRepo, {
+      owner,
+      repo,
+      sort: "created",
+      direction: "asc",
+      per_page: 100,
+      ...sinceParam,
+    })
+  );
+  for (const c of allComments) {
+    const number = Number(c.issue_url.slice(c.issue_url.lastIndexOf("/") + 1));
+    comments.set(number, [...(comments.get(number) ?? []), { user: c.user, at: c.created_at }]);
+  }
+
+  log.info(`Listing reviews of ${pulls.length} pull request(s)…`);
+  const reviews: History["reviews"] = new Map();
+  for (const p of pulls) {
+    const list = await withRateLimit("list-reviews", () =>
+      octokit.paginate(octokit.pulls.listReviews, {
+        owner,
+        repo,
+        pull_number: p.number,
+        per_page: 100,
+      })
+    );
+    reviews.set(
+      p.number,
+      list
+        .filter((r) => r.state !== "PENDING" && r.submitted_at)
+        .map((r) => ({ user: r.user, at: r.submitted_at!, commitId: r.commit_id }))
+        .sort((a, b) => Date.parse(a.at) - Date.parse(b.at))
+    );
+  }
+
+  items.sort((a, b) => a.number - b.number);
+  return { items, comments, reviews };
+}
+
+// ---------------------------------------------------------------------------
+// Measuring
+// ---------------------------------------------------------------------------
+
+function isBot(user: Actor | null): boolean {
+  return user !== null && (user.type === "Bot" || user.login.endsWith("[bot]"));
+}
+
+function measureItems(history: History, staleAfterMs: number, now: Date): ItemMetrics[] {
+  return history.items.map((item) => {
+    const created = Date.parse(item.createdAt);
+    // Deleted accounts come back as null users; they still count as people.
+    const byOthers = <T extends Activity>(activity: T[]) =>
+      activity.filter((a) => !isBot(a.user) && (a.user === null || a.user.login !== item.user?.login));
+    const reviews = byOthers(history.reviews.get(item.number) ?? []);
+    const responses = [...byOthers(history.comments.get(item.number) ?? []), ...reviews];
+    const firstResponse = Math.min(...responses.map((a) => Date.parse(a.at)));
+    const pr = item.kind === "pr";
+
+    return {
+      number: item.number,
+      kind: item.kind,
+      authorType: isBot(item.user) ? "bot" : "human",
+      labels: item.labels,
+      open: item.open,
+      stale: item.open && now.getTime() - Date.parse(item.updatedAt) >= staleAfterMs,
+      firstResponseMs: responses.length > 0 ? firstResponse - created : null,
+      firstReviewMs: pr && reviews.length > 0 ? Date.parse(reviews[0].at) - created : null,
+      cycleMs: item.mergedAt ? Date.parse(item.mergedAt) - created : null,
+      reviewRounds: pr && reviews.length > 0 ? new Set(reviews.map((r) => r.commitId)).size : null,
+    };
+  });
+}
+
+function summariseGroup(name: string, items: ItemMetrics[]): GroupStats {
+  const values = (pick: (item: ItemMetrics) => number | null) =>
+    items.map(pick).filter((v): v is number => v !== null);
+  return {
+    name,
+    issues: items.filter((i) => i.kind === "issue").length,
+    pulls: items.filter((i) => i.kind === "pr").length,
+    merged: items.filter((i) => i.cycleMs !== null).length,
+    open: items.filter((i) => i.open).length,
+    stale: items.filter((i) => i.stale).length,
+    unanswered: items.filter((i) => i.open && i.firstResponseMs === null).length,
+    durations: ANALYSIS_SERIES.map(({ key, label, value }) => ({
+      key,
+      label,
+      stats: describeDistribution(values(value), HISTORY_BUCKETS_MS),
+    })),
+    reviewRounds: describeDistribution(values((i) => i.reviewRounds), []),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Rendering helpers
+// ---------------------------------------------------------------------------
+
+/** One row per group: counts and the p50 of every series. */
+function groupTable(groups: GroupStats[]): string[] {
+  return [
+    `| Group | Issues | PRs | Merged | Open | Stale | ${ANALYSIS_SERIES.map((s) => `${s.label} p50`).join(" | ")} | Review rounds (mean) |`,
+    `| --- | ---: | ---: | ---: | ---: | ---: | ${ANALYSIS_SERIES.map(() => "---:").join(" | ")} | ---: |`,
+    ...groups.map(
+      (g) =>
+        `| ${g.name} | ${g.issues} | ${g.pulls} | ${g.merged} | ${g.open} | ${g.stale} | ` +
+        `${g.durations.map((d) => formatMs(d.stats.percentiles.p50)).join(" | ")} | ` +
+        `${formatRounds(g.reviewRounds.mean)} |`
+    ),
+    "",
+  ];
+}
+
+/** "all" or "since 2024-05-01T00:00:00.000Z". */
+function describeSince(analysis: RepoAnalysis): string {
+  return analysis.since ? `since ${analysis.since}` : "all";
+}
+
+/** "30d", "12h", else formatMs. */
+function formatSpan(ms: number): string {
+  if (ms > 0 && ms % 86_400_000 === 0) return `${ms / 86_400_000}d`;
+  if (ms > 0 && ms % 3_600_000 === 0) return `${ms / 3_600_000}h`;
+  return formatMs(ms);
+}
+
+function formatRounds(value: number | null): string {
+  return value === null ? "n/a" : String(Number(value.toFixed(1)));
+}
@@ -0,0 +1,192 @@
+/**
+ * repoScope.ts — Keep every API request inside the allow-listed repos.
+ *
+ * The orchestrator is meant to touch exactly one repository.  This
+ * module enforces that at the HTTP layer, so it holds no matter which
+ * `owner`/`repo` a caller passes to `octokit`:
+ *
+ *   • Requests that name a repository — through `owner`/`repo`
+ *     parameters, a literal `/repos/{owner}/{repo}/…` path, or a
+ *     `/repositories/{id}/…` pagination link — must target an entry of
+ *     `config.allowedRepos`.
+ *   • Requests that name no repository (`/user`, `/rate_limit`…) may
+ *     only read.
+ *   • GraphQL mutations may only reference node IDs registered with
+ *     `allowNodeId()` after being read from an allowed repository.
+ *   • Absolute URLs must point at `config.apiBaseUrl`.
+ *
+ * `assertRepoScope()` is the preflight run before any work: it refuses
+ * to start (with a `PreflightError`) unless the token has admin rights on
+ * the target and, when the target is public, `ALLOW_PUBLIC` is on.
+ */
+
+import { RequestError } from "@octokit/request-error";
+import { config } from "./config";
+import { octokit, owner, repo, withRateLimit } from "./githubClient";
+import { ApiRequestOptions, ApiResponse, RequestHandler } from "./requestTypes";
+import { log } from "./utils";
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/**
+ * A request refused by the scope guard.  Raised as a 403 so callers and
+ * the retry policy treat it like any other permission error.
+ */
+export class RepoScopeError extends RequestError {
+  constructor(message: string, options: ApiRequestOptions) {
+    super(message, 403, {
+      request: { method: options.method as "GET", url: options.url, headers: {} },
+    });
+  }
+}
+
+/** The preflight refused to run against the configured target. */
+export class PreflightError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PreflightError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Request hook
+// ---------------------------------------------------------------------------
+
+/** Numeric IDs of allowed repos, learned by the preflight. */
+const allowedRepoIds = new Set<number>();
+
+/** GraphQL node IDs read from allowed repos (see allowNodeId). */
+const allowedNodeIds = new Set<string>();
+
+/** Refuse the request unless it stays inside the allow-list. */
+export async function scopedRequest<O extends ApiRequestOptions>(
+  request: RequestHandler<O>,
+  options: O
+): Promise<ApiResponse> {
+  const refusal = checkScope(options);
+  if (refusal) {
+    log.error(`Blocked out-of-scope request ${options.method} ${options.url}: ${refusal}`);
+    throw new RepoScopeError(`Out-of-scope request refused: ${refusal}`, options);
+  }
+  return request(options);
+}
+
+/**
+ * Permit GraphQL mutations on a node.  Call only with IDs read through a
+ * REST request the guard already checked, e.g. a PR's `node_id`.
+ */
+export function allowNodeId(nodeId: string): void {
+  allowedNodeIds.add(nodeId);
+}
+
+/** Whether `owner/repo` is on the allow-list (case-insensitive, like GitHub). */
+export function isAllowedRepo(owner: string, repo: string): boolean {
+  const name = `${owner}/${repo}`.toLowerCase();
+  return config.allowedRepos.some((r) => r.toLowerCase() === name);
+}
+
+// ---------------------------------------------------------------------------
+// Preflight
+// ---------------------------------------------------------------------------
+
+/**
+ * Verify the target before doing anything: it must be allow-listed, the
+ * token must have admin rights on it, and it must be private unless
+ * `ALLOW_PUBLIC` is set.  Throws with an explanation otherwise.
+ */
+export async function assertRepoScope(): Promise<void> {
+  if (!isAllowedRepo(owner, repo)) {
+    throw new PreflightError(
+      `${owner}/${repo} is not in ALLOWED_REPOS (${config.allowedRepos.join(", ")}).`
+    );
+  }
+
+  const { data: repoData } = await withRateLimit("get-repo", () =>
+    octokit.repos.get({ owner, repo })
+  );
+
+  if (!repoData.permissions?.admin) {
+    throw new PreflightError(
+      `The configured token lacks admin rights on ${owner}/${repo}. ` +
+        "The orchestrator only runs against repositories you administer."
+    );
+  }
+  if (!repoData.private && !config.allowPublic) {
+    throw new PreflightError(
+      `${owner}/${repo} is public. Set ALLOW_PUBLIC=true to run against it anyway.`
+    );
+  }
+
+  allowedRepoIds.add(repoData.id);
+  log.debug(
+    `Repository scope OK: ${repoData.full_name} (${repoData.visibility ?? "private"}, admin).`
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+/** Why `options` is out of scope, or null if it is allowed. */
+function checkScope(options: ApiRequestOptions): string | null {
+  let pathname = options.url;
+
+  if (/^https?:\/\//i.test(options.url)) {
+    const url = new URL(options.url);
+    const base = new URL(config.apiBaseUrl);
+    if (url.origin !== base.origin) {
+      return `host ${url.host} is not the configured API host ${base.host}`;
+    }
+    const basePath = base.pathname.replace(/\/$/, "");
+    // GHES serves GraphQL beside, not under, /api/v3.
+    pathname = url.pathname.startsWith(`${basePath}/`)
+      ? url.pathname.slice(basePath.length)
+      : url.pathname;
+  }
+
+  const reqOwner = typeof options.owner === "string" ? options.owner : undefined;
+  const reqRepo = typeof options.repo === "string" ? options.repo : undefined;
+  if (reqOwner !== undefined || reqRepo !== undefined) {
+    if (reqOwner === undefined || reqRepo === undefined || !isAllowedRepo(reqOwner, reqRepo)) {
+      return `${reqOwner ?? "?"}/${reqRepo ?? "?"} is not an allowed repository`;
+    }
+    return null;
+  }
+
+  // Literal paths (no template parameters).
+  const literal = /^\/repos\/([^/{}]+)\/([^/{}?]+)/.exec(pathname);
+  if (literal) {
+    const [, litOwner, litRepo] = literal.map((s) => decodeURIComponent(s));
+    return isAllowedRepo(litOwner, litRepo)
+      ? null
+      : `${litOwner}/${litRepo} is not an allowed repository`;
+  }
+
+  // GraphQL: reads are unrestricted like other GETs; mutations may only
+  // name nodes that were read from an allowed repository.
+  if (/^(\/api)?\/graphql$/.test(pathname)) {
+    const query = typeof options.query === "string" ? options.query : "";
+    if (!/^\s*mutation\b/.test(query)) return null;
+    const ids = Object.values((options.variables ?? {}) as Record<string, unknown>);
+    const unknown = ids.find((v) => typeof v !== "string" || !allowedNodeIds.has(v));
+    if (ids.length === 0 || unknown !== undefined) {
+      return "GraphQL mutation references a node outside the allowed repositories";
+    }
+    return null;
+  }
+
+  // Pagination links address repositories by numeric ID.
+  const byId = /^\/repositories\/(\d+)(?:[/?]|$)/.exec(pathname);
+  if (byId) {
+    return allowedRepoIds.has(Number(byId[1]))
+      ? null
+      : `repository ${byId[1]} is not an allowed repository`;
+  }
+
+  if (options.method.toUpperCase() !== "GET") {
+    return "writes must target an allowed repository";
+  }
+  return null;
+}
@@ -0,0 +1,57 @@
+/**
+ * requestTypes.ts — Minimal shapes for Octokit's request hook.
+ *
+ * Octokit types its hook collection loosely, so the modules that plug
+ * into `octokit.hook.wrap("request", …)` share these narrow interfaces
+ * describing only the fields they actually read or produce.
+ */
+
+/**
+ * Options handed to a request hook: the HTTP method, the *unexpanded*
+ * route template (e.g. "/repos/{owner}/{repo}/issues") and every
+ * endpoint parameter as a top-level key.
+ */
+export interface ApiRequestOptions {
+  method: string;
+  url: string;
+  [param: string]: unknown;
+}
+
+/** The response object a request hook resolves with. */
+export interface ApiResponse {
+  status: number;
+  url: string;
+  headers: Record<string, string | number | undefined>;
+  data: unknown;
+}
+
+/** The `request` function a wrap hook receives; call it to proceed. */
+export type RequestHandler<O extends ApiRequestOptions = ApiRequestOptions> = (
+  options: O
+) => ApiResponse | Promise<ApiResponse>;
+
+/** Keys Octokit adds to request options that are not endpoint parameters. */
+const NON_PARAM_KEYS = new Set([
+  "method",
+  "url",
+  "baseUrl",
+  "headers",
+  "mediaType",
+  "request",
+]);
+
+/** Strip transport options, leaving only the endpoint parameters. */
+export function requestParams(
+  options: ApiRequestOptions
+): Record<string, unknown> {
+  const params: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(options)) {
+    if (!NON_PARAM_KEYS.has(key)) params[key] = value;
+  }
+  return params;
+}
+
+/** "POST /repos/{owner}/{repo}/issues" — a stable key for a REST route. */
+export function routeKey(options: ApiRequestOptions): string {
+  return `${options.method.toUpperCase()} ${options.url}`;
+}
@@ -0,0 +1,178 @@
+/**
+ * retryPolicy.ts — Decide whether, and how long, to wait before retrying.
+ *
+ * GitHub failures fall into a few families that need different handling:
+ *
+ *   • **Primary rate limit** — 403/429 with `x-ratelimit-remaining: 0`.
+ *     Retrying early is pointless; sleep until `x-ratelimit-reset`.
+ *   • **Secondary rate limit** — 403/429 with `retry-after` or a
+ *     "secondary rate limit" message.  Honour `retry-after`, else back off
+ *     for at least a minute as GitHub's docs recommend.
+ *   • **Server errors** — transient 502/503/504.
+ *   • **Network errors** — no HTTP response at all.  Octokit surfaces these
+ *     as a RequestError with status 500 and a `request` but no `response`;
+ *     a raw socket error carries a code such as ECONNRESET.
+ *
+ * Everything else (404, 422, plain permission 403s, and errors that did
+ * not come from the network at all, such as a TypeError from a bug) is
+ * not retriable.
+ */
+
+import { RetryPolicy, RetryReason } from "./config";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The verdict for a single failed attempt. */
+export interface RetryDecision {
+  /** Failure family, or null when the error is not retriable at all. */
+  reason: RetryReason | null;
+  /** How long to wait before the next attempt. */
+  delayMs: number;
+}
+
+/** The subset of an Octokit RequestError we inspect. */
+interface ErrorLike {
+  status?: number;
+  message?: string;
+  /** Set on every Octokit RequestError. */
+  request?: unknown;
+  response?: { headers?: Record<string, string | number | undefined> };
+  /** Node's socket error code, e.g. "ECONNRESET". */
+  code?: unknown;
+  cause?: unknown;
+}
+
+/** Transient upstream statuses worth retrying. */
+const RETRIABLE_SERVER_STATUSES = new Set([502, 503, 504]);
+
+/** Socket error codes of a connection that failed or dropped. */
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EPIPE",
+]);
+
+/** GitHub asks for at least a minute when no retry-after is given. */
+const SECONDARY_DEFAULT_WAIT_MS = 60_000;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Classify an error thrown by an API call. */
+export function classifyError(err: unknown): RetryReason | null {
+  if (typeof err !== "object" || err === null) return null;
+  const { status, message = "", response } = err as ErrorLike;
+  const headers = response?.headers ?? {};
+
+  if (status === 403 || status === 429) {
+    if (String(headers["x-ratelimit-remaining"]) === "0") {
+      return "primary-rate-limit";
+    }
+    if (
+      status === 429 ||
+      headers["retry-after"] !== undefined ||
+      /secondary rate limit|abuse/i.test(message)
+    ) {
+      return "secondary-rate-limit";
+    }
+    return null; // A genuine permission error.
+  }
+
+  if (status !== undefined && RETRIABLE_SERVER_STATUSES.has(status)) {
+    return "server-error";
+  }
+
+  // No response at all: DNS failure, reset connection, timeout…
+  if (isNetworkFailure(err as ErrorLike)) {
+    return "network";
+  }
+
+  return null;
+}
+
+/**
+ * Decide what to do after `attempt` (1-based) failed with `err`.
+ * Returns `reason: null` when the error must propagate.
+ */
+export function decideRetry(
+  err: unknown,
+  attempt: number,
+  policy: RetryPolicy,
+  now: number = Date.now()
+): RetryDecision {
+  const reason = classifyError(err);
+  if (
+    reason === null ||
+    !policy.retryOn.includes(reason) ||
+    attempt >= policy.maxAttempts
+  ) {
+    return { reason: null, delayMs: 0 };
+  }
+
+  const headers = (err as ErrorLike).response?.headers ?? {};
+
+  switch (reason) {
+    case "primary-rate-limit": {
+      const resetMs = Number(headers["x-ratelimit-reset"]) * 1000;
+      const delayMs = Number.isFinite(resetMs)
+        ? Math.max(resetMs - now, 0) + 1_000 // a second of slack for clock skew
+        : SECONDARY_DEFAULT_WAIT_MS;
+      // Waiting out a full hourly window is rarely what the operator wants.
+      if (delayMs > policy.maxRateLimitWaitMs) return { reason: null, delayMs: 0 };
+      return { reason, delayMs };
+    }
+
+    case "secondary-rate-limit": {
+      const retryAfter = parseInt(String(headers["retry-after"] ?? ""), 10);
+      const base = Number.isFinite(retryAfter)
+        ? retryAfter * 1000
+        : Math.max(SECONDARY_DEFAULT_WAIT_MS, backoff(attempt, policy));
+      if (base > policy.maxRateLimitWaitMs) return { reason: null, delayMs: 0 };
+      return { reason, delayMs: base };
+    }
+
+    case "server-error":
+    case "network":
+      return { reason, delayMs: backoff(attempt, policy) };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+/**
+ * Exponential back-off capped at `maxDelayMs`.  With jitter enabled the
+ * delay is drawn from [d/2, d] ("equal jitter") so concurrent runs do
+ * not retry in lock-step.  Math.random is used on purpose: retries must
+ * not consume the seeded content generator.
+ */
+function backoff(attempt: number, policy: RetryPolicy): number {
+  const exp = Math.min(
+    policy.baseDelayMs * 2 ** (attempt - 1),
+    policy.maxDelayMs
+  );
+  if (!policy.jitter) return exp;
+  return Math.round(exp / 2 + Math.random() * (exp / 2));
+}
+
+/**
+ * Whether `err` is a request that got no response: Octokit's status-500
+ * RequestError without a response, or an error whose code (or whose
+ * cause's code) is a socket failure.
+ */
+function isNetworkFailure(err: ErrorLike): boolean {
+  if (err.status === 500 && err.request !== undefined && !err.response) return true;
+  for (let e: ErrorLike | undefined = err, depth = 0; e && depth < 3; depth++) {
+    // An HTTP error's `code` is Octokit's deprecated alias of its status.
+    if (e.status === undefined && typeof e.code === "string" && NETWORK_ERROR_CODES.has(e.code)) return true;
+    e = typeof e.cause === "object" && e.cause !== null ? (e.cause as ErrorLike) : undefined;
+  }
+  return false;
+}
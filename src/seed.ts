@@ -0,0 +1,71 @@
+/**
+ * seed.ts — One-time bootstrap to prepare a repository.
+ *
+ * Run once against a fresh repository (`orchestrator seed`) to:
+ *   1. Verify API access and print repo metadata.
+ *   2. Ensure required labels exist.
+ *   3. Create a `src/generated/` directory with a placeholder file.
+ *
+ * Seeding is entirely optional — the orchestrator creates labels
+ * on-the-fly if they are missing.  But running it first gives you
+ * confidence that credentials are correct before the main loop.
+ */
+
+import { octokit, owner, repo, withRateLimit, commitFile, getDefaultBranchSha } from "./githubClient";
+import { ValidationError } from "./githubErrors";
+import { ensureLabels } from "./issueManager";
+import { assertRepoScope } from "./repoScope";
+import { GENERATED_DIR, log } from "./utils";
+
+/** Prepare the target repository.  Safe to run repeatedly. */
+export async function seedRepository(): Promise<void> {
+  log.info("=== Seed ===");
+  log.info(`Target repository: ${owner}/${repo}`);
+  log.info("");
+
+  // ---- Verify access -------------------------------------------------------
+  log.info("Verifying API access…");
+  const { data: repoData } = await withRateLimit("get-repo", () =>
+    octokit.repos.get({ owner, repo })
+  );
+  log.info(`  Repository:      ${repoData.full_name}`);
+  log.info(`  Default branch:  ${repoData.default_branch}`);
+  log.info(`  Visibility:      ${repoData.visibility}`);
+  log.info(`  Permissions:     push=${repoData.permissions?.push}, admin=${repoData.permissions?.admin}`);
+  log.info("");
+
+  // Allow-list, admin rights and visibility, exactly as the orchestrator checks.
+  await assertRepoScope();
+
+  // ---- Ensure labels --------------------------------------------------------
+  log.info("Ensuring orchestrator labels exist…");
+  await ensureLabels();
+  log.info("Labels OK.");
+  log.info("");
+
+  // ---- Create placeholder directory -----------------------------------------
+  log.info(`Creating ${GENERATED_DIR}/ placeholder…`);
+  const { branch: defaultBranch } = await getDefaultBranchSha();
+
+  try {
+    await commitFile({
+      branch: defaultBranch,
+      path: `${GENERATED_DIR}/.gitkeep`,
+      content:
+        "# This directory is managed by the GitHub Activity Orchestrator.\n" +
+        "# Generated files appear here as part of automated workflows.\n",
+      message: `chore: initialise ${GENERATED_DIR} directory`,
+    });
+    log.info("Placeholder committed.");
+  } catch (err: unknown) {
+    // A validation error means the file already exists — that's fine.
+    if (!(err instanceof ValidationError)) throw err;
+    log.info("Placeholder already exists — skipping.");
+  }
+
+  log.info("");
+  log.info("=== Seed complete ===");
+  log.info("You can now run the orchestrator:");
+  log.info("  npm run dev                             (local)");
+  log.info("  npm run build && npx orchestrator run   (compiled)");
+}
@@ -0,0 +1,258 @@
+/**
+ * sqliteStore.ts — SQLite backend for the analytics event stream.
+ *
+ * Uses sql.js (SQLite compiled to WebAssembly), so no native build is
+ * needed.  The database lives in memory while it is used and is written
+ * back with an atomic rename under the store's advisory lock, like the
+ * other backends.  Layout:
+ *
+ *   meta    key/value pairs; "schema_version" is the analytics schema
+ *           version (analyticsSchema.ts) of the stored events.
+ *   events  one row per event in stream order, with the fields reports
+ *           filter on (run, type, time, object number) as indexed
+ *           columns and the full event as JSON in `body`.
+ *   runs    one row per run (start, finish, event count), maintained on
+ *           append, so windows are answered without reading events.
+ */
+
+import * as fs from "fs";
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from "sql.js";
+import { ReportWindow } from "./config";
+import { AnalyticsEvent } from "./analyticsEvents";
+import { ANALYTICS_SCHEMA_VERSION, AnalyticsSchemaError, migrateAnalytics } from "./analyticsSchema";
+import type { AnalyticsStore, EventFilter, RunSummary } from "./analyticsStore";
+import { backupBeforeUpgrade, emptyMigrationResult, migrateWith, readOrQuarantine } from "./analyticsStore";
+import { withFileLock, writeFileAtomic } from "./atomicFile";
+
+const SCHEMA = `
+  CREATE TABLE meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+  CREATE TABLE events (
+    id          INTEGER PRIMARY KEY,
+    run_id      TEXT NOT NULL,
+    seq         INTEGER NOT NULL,
+    type        TEXT NOT NULL,
+    at          TEXT NOT NULL,
+    iteration   INTEGER,
+    workflow_id TEXT,
+    outcome     TEXT NOT NULL,
+    number      INTEGER,
+    body        TEXT NOT NULL,
+    UNIQUE (run_id, seq)
+  );
+  CREATE INDEX events_type ON events (type, number);
+  CREATE INDEX events_at ON events (at);
+  CREATE TABLE runs (
+    id          INTEGER PRIMARY KEY,
+    run_id      TEXT NOT NULL UNIQUE,
+    started_at  TEXT NOT NULL,
+    finished_at TEXT,
+    events      INTEGER NOT NULL
+  );
+  CREATE INDEX runs_started ON runs (started_at);
+`;
+
+let SQL: SqlJsStatic | null = null;
+
+/** Initialise the SQLite engine; must finish before a store is opened. */
+export async function loadSqlite(): Promise<void> {
+  SQL ??= await initSqlJs();
+}
+
+/** The SQLite store at `location` (see AnalyticsStore). */
+export function sqliteStore(location: string): AnalyticsStore {
+  /** Run `fn` on the stored database, or return `empty` if there is none. */
+  const query = <T>(empty: T, fn: (db: Database, version: number) => T): T => {
+    if (!fs.existsSync(location)) return empty;
+    const { db, version } = openDatabase(location);
+    try {
+      return fn(db, version);
+    } finally {
+      db.close();
+    }
+  };
+  const readAll = (db: Database, version: number) =>
+    migrateAnalytics({ version, events: selectEvents(db) }, location);
+
+  return {
+    backend: "sqlite",
+    location,
+    readEvents: (filter) =>
+      query([], (db, version) =>
+        // Validated (and, for older versions, upcast) like a file read.
+        migrateAnalytics({ version, events: selectEvents(db, filter) }, location).data.events
+      ),
+    listRuns: (window, now) => query([], (db) => selectRuns(db, window, now)),
+    append: (events) =>
+      withFileLock(location, () => {
+        const opened =
+          (fs.existsSync(location) && readOrQuarantine(location, () => openDatabase(location))) ||
+          createDatabase();
+        let db = opened.db;
+        try {
+          if (opened.version !== ANALYTICS_SCHEMA_VERSION) {
+            const { data } = readAll(db, opened.version);
+            backupBeforeUpgrade(location, opened.version);
+            db.close();
+            db = createDatabase().db;
+            insertEvents(db, data.events);
+          }
+          insertEvents(db, events);
+          writeFileAtomic(location, db.export());
+        } finally {
+          db.close();
+        }
+      }),
+    migrate: (apply) =>
+      withFileLock(location, () => {
+        const result = query(emptyMigrationResult(), readAll);
+        return migrateWith(location, result, apply, () => writeDatabase(location, result.data.events));
+      }),
+    replaceAll: (events) => withFileLock(location, () => writeDatabase(location, events)),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+function engine(): SqlJsStatic {
+  if (!SQL) throw new Error("SQLite engine not loaded; call prepareAnalyticsBackends() first.");
+  return SQL;
+}
+
+function createDatabase(): { db: Database; version: number } {
+  const db = new (engine().Database)();
+  db.run(SCHEMA);
+  db.run("INSERT INTO meta (key, value) VALUES ('schema_version', ?)", [String(ANALYTICS_SCHEMA_VERSION)]);
+  return { db, version: ANALYTICS_SCHEMA_VERSION };
+}
+
+/** Open an existing database and read its schema version. */
+function openDatabase(location: string): { db: Database; version: number } {
+  const db = new (engine().Database)(fs.readFileSync(location));
+  let version: number;
+  try {
+    const [row] = db.exec("SELECT value FROM meta WHERE key = 'schema_version'");
+    version = Number(row?.values[0]?.[0]);
+  } catch (err) {
+    db.close();
+    throw new AnalyticsSchemaError(`Could not open analytics database ${location}: ${(err as Error).message}`);
+  }
+  if (!Number.isInteger(version) || version < 1) {
+    db.close();
+    throw new AnalyticsSchemaError(`Analytics database ${location} has no valid schema_version.`);
+  }
+  if (version > ANALYTICS_SCHEMA_VERSION) {
+    db.close();
+    throw new AnalyticsSchemaError(
+      `${location} is version ${version}, newer than this build supports ` +
+        `(${ANALYTICS_SCHEMA_VERSION}). Upgrade the orchestrator.`
+    );
+  }
+  return { db, version };
+}
+
+/** Write a fresh database holding exactly `events`. */
+function writeDatabase(location: string, events: AnalyticsEvent[]): void {
+  const { db } = createDatabase();
+  try {
+    insertEvents(db, events);
+    writeFileAtomic(location, db.export());
+  } finally {
+    db.close();
+  }
+}
+
+function insertEvents(db: Database, events: AnalyticsEvent[]): void {
+  const insert = db.prepare(
+    `INSERT INTO events (run_id, seq, type, at, iteration, workflow_id, outcome, number, body)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  const countRun = db.prepare(
+    `INSERT INTO runs (run_id, started_at, events) VALUES (?, ?, 1)
+     ON CONFLICT (run_id) DO UPDATE SET events = events + 1`
+  );
+  db.run("BEGIN");
+  try {
+    for (const e of events) {
+      insert.run([
+        e.runId,
+        e.seq,
+        e.type,
+        e.at,
+        e.iteration,
+        e.workflowId,
+        e.outcome,
+        "number" in e ? e.number : null,
+        JSON.stringify(e),
+      ]);
+      countRun.run([e.runId, e.at]);
+      if (e.type === "run-started") db.run("UPDATE runs SET started_at = ? WHERE run_id = ?", [e.at, e.runId]);
+      if (e.type === "run-finished") db.run("UPDATE runs SET finished_at = ? WHERE run_id = ?", [e.at, e.runId]);
+    }
+    db.run("COMMIT");
+  } catch (err) {
+    db.run("ROLLBACK");
+    throw err;
+  } finally {
+    insert.free();
+    countRun.free();
+  }
+}
+
+function selectEvents(db: Database, filter: EventFilter = {}): unknown[] {
+  const where: string[] = [];
+  const params: SqlValue[] = [];
+  const oneOf = (column: string, values: string[]) => {
+    where.push(`${column} IN (${values.map(() => "?").join(", ")})`);
+    params.push(...values);
+  };
+  if (filter.runIds) oneOf("run_id", filter.runIds);
+  if (filter.types) oneOf("type", filter.types);
+  if (filter.since) {
+    where.push("at >= ?");
+    params.push(filter.since);
+  }
+  if (filter.until) {
+    where.push("at < ?");
+    params.push(filter.until);
+  }
+  const sql = `SELECT body FROM events${where.length ? ` WHERE ${where.join(" AND ")}` : ""} ORDER BY id`;
+  return rows(db, sql, params).map((row) => JSON.parse(row.body as string));
+}
+
+function selectRuns(db: Database, window: ReportWindow = { kind: "all" }, now: Date = new Date()): RunSummary[] {
+  const columns = "id, run_id, started_at, finished_at, events";
+  let result: Record<string, SqlValue>[];
+  switch (window.kind) {
+    case "all":
+      result = rows(db, `SELECT ${columns} FROM runs ORDER BY id`);
+      break;
+    case "runs":
+      result = rows(db, `SELECT ${columns} FROM runs ORDER BY id DESC LIMIT ?`, [window.count]).reverse();
+      break;
+    case "since":
+      result = rows(db, `SELECT ${columns} FROM runs WHERE started_at >= ? ORDER BY id`, [
+        new Date(now.getTime() - window.ms).toISOString(),
+      ]);
+      break;
+  }
+  return result.map((row) => ({
+    runId: row.run_id as string,
+    startedAt: row.started_at as string,
+    finishedAt: row.finished_at as string | null,
+    events: row.events as number,
+  }));
+}
+
+function rows(db: Database, sql: string, params: SqlValue[] = []): Record<string, SqlValue>[] {
+  const stmt = db.prepare(sql);
+  try {
+    stmt.bind(params);
+    const out: Record<string, SqlValue>[] = [];
+    while (stmt.step()) out.push(stmt.getAsObject());
+    return out;
+  } finally {
+    stmt.free();
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * stats.ts — Distribution statistics for duration series.
+ *
+ * Means hide the tail latencies that matter when benchmarking webhook
+ * and CI behaviour, so every duration series in the analytics report is
+ * summarised as count / mean / standard deviation / min / max, the
+ * p50–p99 percentiles and a histogram over fixed duration buckets.
+ *
+ * Also selects the runs a report covers (REPORT_WINDOW).  Everything
+ * here is pure so it can be reused for any series of milliseconds.
+ */
+
+import { ReportWindow } from "./config";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Percentiles reported for every series. */
+export const PERCENTILES = [50, 90, 95, 99] as const;
+export type Percentile = (typeof PERCENTILES)[number];
+
+export interface HistogramBucket {
+  /** Inclusive lower bound in ms. */
+  fromMs: number;
+  /** Exclusive upper bound in ms; null for the open-ended last bucket. */
+  toMs: number | null;
+  count: number;
+}
+
+/** Summary of one series; every value is null when the series is empty. */
+export interface DistributionStats {
+  count: number;
+  mean: number | null;
+  /** Population standard deviation. */
+  stdDev: number | null;
+  min: number | null;
+  max: number | null;
+  percentiles: Record<`p${Percentile}`, number | null>;
+  histogram: HistogramBucket[];
+}
+
+/**
+ * Upper bounds of the histogram buckets: <1s, 1–5s, 5–15s, 15–30s,
+ * 30s–1m, 1–5m, 5–15m, 15m–1h and ≥1h.
+ */
+export const DURATION_BUCKETS_MS: readonly number[] = [
+  1_000,
+  5_000,
+  15_000,
+  30_000,
+  60_000,
+  5 * 60_000,
+  15 * 60_000,
+  60 * 60_000,
+];
+
+/**
+ * Bucket bounds for repository history (repoAnalysis.ts), where
+ * responses and merges take hours or days: <1h, 1–4h, 4h–1d, 1–3d,
+ * 3–7d, 7–30d and ≥30d.
+ */
+export const HISTORY_BUCKETS_MS: readonly number[] = [
+  3_600_000,
+  4 * 3_600_000,
+  86_400_000,
+  3 * 86_400_000,
+  7 * 86_400_000,
+  30 * 86_400_000,
+];
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Summarise a series of durations (milliseconds). */
+export function describeDistribution(
+  values: number[],
+  bucketBounds: readonly number[] = DURATION_BUCKETS_MS
+): DistributionStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  const histogram = buildHistogram(sorted, bucketBounds);
+
+  if (sorted.length === 0) {
+    return {
+      count: 0,
+      mean: null,
+      stdDev: null,
+      min: null,
+      max: null,
+      percentiles: { p50: null, p90: null, p95: null, p99: null },
+      histogram,
+    };
+  }
+
+  const mean = sorted.reduce((a, b) => a + b, 0) / sorted.length;
+  const variance =
+    sorted.reduce((acc, v) => acc + (v - mean) ** 2, 0) / sorted.length;
+
+  return {
+    count: sorted.length,
+    mean,
+    stdDev: Math.sqrt(variance),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    percentiles: {
+      p50: percentile(sorted, 50),
+      p90: percentile(sorted, 90),
+      p95: percentile(sorted, 95),
+      p99: percentile(sorted, 99),
+    },
+    histogram,
+  };
+}
+
+/**
+ * The `p`th percentile of an ascending series, interpolating linearly
+ * between the two closest ranks.
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) throw new Error("percentile of an empty series");
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/** The runs inside `window`, keeping their order. */
+export function selectWindow<T extends { startedAt: string }>(
+  runs: T[],
+  window: ReportWindow,
+  now: Date = new Date()
+): T[] {
+  switch (window.kind) {
+    case "all":
+      return runs;
+    case "runs":
+      return runs.slice(-window.count);
+    case "since": {
+      const cutoff = now.getTime() - window.ms;
+      return runs.filter((r) => new Date(r.startedAt).getTime() >= cutoff);
+    }
+  }
+}
+
+/** "all runs", "last 20 runs", "last 7d". */
+export function describeWindow(window: ReportWindow): string {
+  switch (window.kind) {
+    case "all":
+      return "all runs";
+    case "runs":
+      return window.count === 1 ? "last run" : `last ${window.count} runs`;
+    case "since":
+      return `last ${window.spec}`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+function buildHistogram(sorted: number[], bounds: readonly number[]): HistogramBucket[] {
+  const buckets: HistogramBucket[] = [...bounds, null].map((toMs, i) => ({
+    fromMs: i === 0 ? 0 : bounds[i - 1],
+    toMs,
+    count: 0,
+  }));
+  for (const value of sorted) {
+    const index = bounds.findIndex((bound) => value < bound);
+    buckets[index === -1 ? buckets.length - 1 : index].count++;
+  }
+  return buckets;
+}
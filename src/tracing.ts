@@ -0,0 +1,324 @@
+/**
+ * tracing.ts — Span-based tracing of a run.
+ *
+ * A run is one trace.  Its spans nest as
+ *
+ *   run                              startTrace() … finishTrace()
+ *     iteration 2                    index.ts (or "recover <workflow>")
+ *       step pr                      workflowRunner.ts
+ *         open-pr                    withRateLimit() label, one per call
+ *           POST /repos/{owner}/{repo}/pulls    one per Octokit request
+ *           sleep                    back-off before a retry
+ *         sleep                      rate-budget pacing
+ *       sleep                        step delay
+ *
+ * Request spans carry the method, route template, status and GitHub
+ * request ID; every deliberate wait is a "sleep" span with its reason,
+ * so a run's time splits into API latency, polling and fixed pauses.
+ *
+ * The orchestrator runs one thing at a time, so the active span is a
+ * simple stack.  Outside a trace (other commands, or with no exporter
+ * configured) every function here is a cheap no-op.
+ *
+ * When the run ends, the trace is exported in the OTLP/JSON encoding:
+ * appended as one line to TRACE_FILE (the OpenTelemetry file-exporter
+ * format) and/or POSTed to the OTLP/HTTP collector at
+ * OTEL_EXPORTER_OTLP_ENDPOINT, for Jaeger, Tempo, Zipkin and other
+ * tracing UIs.  Export failures are logged, never thrown.
+ */
+
+import * as fs from "fs";
+import * as http from "http";
+import * as https from "https";
+import * as path from "path";
+import { randomBytes } from "crypto";
+import { performance } from "perf_hooks";
+import { config } from "./config";
+import { ApiRequestOptions, ApiResponse, RequestHandler } from "./requestTypes";
+import { log, sleep } from "./utils";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type AttributeValue = string | number | boolean;
+
+/** A span of the current trace. */
+export interface Span {
+  /** 32 hex digits, shared by every span of the run. */
+  traceId: string;
+  /** 16 hex digits. */
+  spanId: string;
+  parentSpanId: string | null;
+  name: string;
+  /** "client" for API requests, "internal" for everything else. */
+  kind: "internal" | "client";
+  /** Epoch milliseconds, sub-millisecond precision. */
+  startMs: number;
+  /** Null while the span is open. */
+  endMs: number | null;
+  attributes: Record<string, AttributeValue>;
+  status: { code: "unset" | "ok" | "error"; message?: string };
+}
+
+/** OTLP/JSON attribute (opentelemetry/proto/common/v1). */
+interface OtlpAttribute {
+  key: string;
+  value: { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean };
+}
+
+// ---------------------------------------------------------------------------
+// Trace state
+// ---------------------------------------------------------------------------
+
+/** The trace being collected, if any. */
+interface TraceAccumulator {
+  traceId: string;
+  /** Every span started so far, in start order. */
+  spans: Span[];
+  /** Open spans, innermost last. */
+  active: Span[];
+}
+
+let current: TraceAccumulator | null = null;
+
+/** Whether any exporter is configured; without one nothing is collected. */
+export function tracingEnabled(): boolean {
+  return config.tracing.file !== "" || config.tracing.otlpEndpoint !== "";
+}
+
+/**
+ * Open the root span of run `runId`.  Must be called before any spans
+ * can be recorded; a no-op when tracing is off.
+ */
+export function startTrace(runId: string, attributes: Record<string, AttributeValue> = {}): void {
+  if (!tracingEnabled()) return;
+  current = { traceId: randomBytes(16).toString("hex"), spans: [], active: [] };
+  startSpan("run", { "orchestrator.run_id": runId, ...attributes });
+  log.debug(`Tracing run ${runId} as trace ${current.traceId}.`);
+}
+
+/**
+ * Close the root span (and any left open by an error), then export the
+ * trace.  `error` marks the run as failed.
+ */
+export async function finishTrace(error?: unknown): Promise<void> {
+  const acc = current;
+  if (!acc) return;
+  while (acc.active.length > 1) endSpan(acc.active[acc.active.length - 1], new Error("not finished"));
+  if (acc.active.length === 1) endSpan(acc.active[0], error);
+  current = null;
+
+  const body = JSON.stringify(toOtlp(acc.spans));
+  if (config.tracing.file) exportToFile(config.tracing.file, body, acc);
+  if (config.tracing.otlpEndpoint) await exportToCollector(config.tracing.otlpEndpoint, body, acc);
+}
+
+// ---------------------------------------------------------------------------
+// Spans
+// ---------------------------------------------------------------------------
+
+/** Open a child of the active span and make it active; null outside a trace. */
+function startSpan(
+  name: string,
+  attributes: Record<string, AttributeValue>,
+  kind: Span["kind"] = "internal"
+): Span | null {
+  if (!current) return null;
+  const span: Span = {
+    traceId: current.traceId,
+    spanId: randomBytes(8).toString("hex"),
+    parentSpanId: current.active.at(-1)?.spanId ?? null,
+    name,
+    kind,
+    startMs: nowMs(),
+    endMs: null,
+    attributes: { ...attributes },
+    status: { code: "unset" },
+  };
+  current.spans.push(span);
+  current.active.push(span);
+  return span;
+}
+
+/** Close `span`, marking it failed when `error` is given. */
+function endSpan(span: Span | null, error?: unknown): void {
+  if (!span || span.endMs !== null) return;
+  span.endMs = nowMs();
+  if (error !== undefined) {
+    span.status = { code: "error", message: error instanceof Error ? error.message : String(error) };
+    if (error instanceof Error) span.attributes["error.type"] = error.name;
+  }
+  if (current) current.active = current.active.filter((s) => s !== span);
+}
+
+/** Run `fn` inside a child span of the active one. */
+export async function withSpan<T>(
+  name: string,
+  attributes: Record<string, AttributeValue>,
+  fn: () => Promise<T>
+): Promise<T> {
+  const span = startSpan(name, attributes);
+  try {
+    const result = await fn();
+    endSpan(span);
+    return result;
+  } catch (err) {
+    endSpan(span, err);
+    throw err;
+  }
+}
+
+/** Add attributes to the innermost open span. */
+export function setSpanAttributes(attributes: Record<string, AttributeValue>): void {
+  const span = current?.active.at(-1);
+  if (span) Object.assign(span.attributes, attributes);
+}
+
+/** `sleep(ms)`, recorded as a "sleep" span saying why. */
+export function tracedSleep(ms: number, reason: string): Promise<void> {
+  return withSpan("sleep", { "sleep.reason": reason, "sleep.ms": ms }, () => sleep(ms));
+}
+
+// ---------------------------------------------------------------------------
+// Request hook
+// ---------------------------------------------------------------------------
+
+/** Send the request inside a client span carrying its route and status. */
+export async function tracedRequest<O extends ApiRequestOptions>(
+  request: RequestHandler<O>,
+  options: O
+): Promise<ApiResponse> {
+  const method = options.method.toUpperCase();
+  const span = startSpan(
+    `${method} ${options.url}`,
+    { "http.request.method": method, "http.route": options.url },
+    "client"
+  );
+  if (!span) return request(options);
+
+  const describe = (status: number, headers: ApiResponse["headers"] | undefined) => {
+    span.attributes["http.response.status_code"] = status;
+    const requestId = headers?.["x-github-request-id"];
+    if (requestId !== undefined) span.attributes["github.request_id"] = String(requestId);
+  };
+  try {
+    const response = await request(options);
+    describe(response.status, response.headers);
+    endSpan(span);
+    return response;
+  } catch (err) {
+    const { status, response } = err as { status?: number; response?: ApiResponse };
+    if (typeof status === "number" && response) describe(status, response.headers);
+    endSpan(span, err);
+    throw err;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/** Collectors answer quickly; a hung one must not hold up the exit. */
+const EXPORT_TIMEOUT_MS = 10_000;
+
+/** The spans as an OTLP/JSON ExportTraceServiceRequest. */
+function toOtlp(spans: Span[]): unknown {
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: toAttributes({
+            "service.name": config.tracing.serviceName,
+            "github.repository": `${config.owner}/${config.repo}`,
+          }),
+        },
+        scopeSpans: [
+          {
+            scope: { name: "github-activity-orchestrator", version: "1.0.0" },
+            spans: spans.map((s) => ({
+              traceId: s.traceId,
+              spanId: s.spanId,
+              ...(s.parentSpanId ? { parentSpanId: s.parentSpanId } : {}),
+              name: s.name,
+              // SPAN_KIND_INTERNAL = 1, SPAN_KIND_CLIENT = 3
+              kind: s.kind === "client" ? 3 : 1,
+              startTimeUnixNano: toUnixNano(s.startMs),
+              endTimeUnixNano: toUnixNano(s.endMs ?? s.startMs),
+              attributes: toAttributes(s.attributes),
+              // STATUS_CODE_UNSET = 0, OK = 1, ERROR = 2
+              status:
+                s.status.code === "error"
+                  ? { code: 2, message: s.status.message ?? "" }
+                  : { code: s.status.code === "ok" ? 1 : 0 },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function toAttributes(attributes: Record<string, AttributeValue>): OtlpAttribute[] {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === "string"
+        ? { stringValue: value }
+        : typeof value === "boolean"
+          ? { boolValue: value }
+          : Number.isInteger(value)
+            ? { intValue: String(value) }
+            : { doubleValue: value },
+  }));
+}
+
+/** Append the trace to `filePath` as one JSON line. */
+function exportToFile(filePath: string, body: string, acc: TraceAccumulator): void {
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.appendFileSync(filePath, `${body}\n`);
+    log.info(`Trace ${acc.traceId} (${acc.spans.length} spans) written to ${filePath}.`);
+  } catch (err) {
+    log.warn(`Could not write trace to ${filePath}: ${(err as Error).message}`);
+  }
+}
+
+/** POST the trace to the collector's /v1/traces. */
+async function exportToCollector(url: string, body: string, acc: TraceAccumulator): Promise<void> {
+  try {
+    const status = await post(url, { "content-type": "application/json", ...config.tracing.otlpHeaders }, body);
+    if (status < 200 || status >= 300) throw new Error(`HTTP ${status}`);
+    log.info(`Trace ${acc.traceId} (${acc.spans.length} spans) exported to ${url}.`);
+  } catch (err) {
+    log.warn(`Could not export trace to ${url}: ${(err as Error).message}`);
+  }
+}
+
+/** POST `body` and resolve with the response status. */
+function post(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  const transport = url.startsWith("https:") ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = transport.request(url, { method: "POST", headers, timeout: EXPORT_TIMEOUT_MS }, (res) => {
+      res.resume();
+      res.on("end", () => resolve(res.statusCode ?? 0));
+    });
+    req.on("timeout", () => req.destroy(new Error(`no response within ${EXPORT_TIMEOUT_MS / 1000}s`)));
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Time
+// ---------------------------------------------------------------------------
+
+function nowMs(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+/** Epoch milliseconds → decimal nanoseconds, as OTLP wants them. */
+function toUnixNano(ms: number): string {
+  const whole = Math.floor(ms);
+  return (BigInt(whole) * BigInt(1_000_000) + BigInt(Math.round((ms - whole) * 1_000_000))).toString();
+}
@@ -11,44 +11,53 @@ import { config } from "./config";
 // Logging
 // ---------------------------------------------------------------------------
 
-const LOG_LEVELS: Record<string, number> = {
-  debug: 0,
-  info: 1,
-  warn: 2,
-  error: 3,
-};
-
-const currentLevel = LOG_LEVELS[config.logLevel] ?? 1;
-
-/** Structured logger that respects the configured log level. */
-export const log = {
-  debug: (...args: unknown[]) => {
-    if (currentLevel <= 0) console.debug("[DEBUG]", ...args);
-  },
-  info: (...args: unknown[]) => {
-    if (currentLevel <= 1) console.log("[INFO]", ...args);
-  },
-  warn: (...args: unknown[]) => {
-    if (currentLevel <= 2) console.warn("[WARN]", ...args);
-  },
-  error: (...args: unknown[]) => {
-    if (currentLevel <= 3) console.error("[ERROR]", ...args);
-  },
-};
+/** See logger.ts; re-exported here, where modules have always found it. */
+export { log } from "./logger";
 
 // ---------------------------------------------------------------------------
 // Random helpers
 // ---------------------------------------------------------------------------
 
+/**
+ * Source of randomness for everything the orchestrator generates.
+ * With RANDOM_SEED set, a seeded PRNG makes titles, branch names and
+ * file paths reproducible (e.g. when replaying an HTTP cassette).
+ */
+export const random: () => number = config.randomSeed
+  ? mulberry32(hashSeed(config.randomSeed))
+  : Math.random;
+
 /** Return a random element from an array. Throws if array is empty. */
 export function pickRandom<T>(items: readonly T[]): T {
   if (items.length === 0) throw new Error("pickRandom called with empty array");
-  return items[Math.floor(Math.random() * items.length)];
+  return items[Math.floor(random() * items.length)];
 }
 
 /** Return a random integer in [min, max] (inclusive). */
 export function randomInt(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+  return Math.floor(random() * (max - min + 1)) + min;
+}
+
+/** Small, fast 32-bit PRNG; plenty for picking templates. */
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** FNV-1a hash so any string (not just numbers) can serve as a seed. */
+function hashSeed(seed: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
 }
 
 /** Sleep for `ms` milliseconds. */
@@ -71,7 +80,7 @@ export function slugify(text: string): string {
 
 /** Generate a short unique-ish suffix (6 hex chars). */
 export function shortId(): string {
-  return Math.random().toString(16).slice(2, 8);
+  return Math.floor(random() * 0x1000000).toString(16).padStart(6, "0");
 }
 
 // ---------------------------------------------------------------------------
@@ -83,6 +92,20 @@ export function nowISO(): string {
   return new Date().toISOString();
 }
 
+const DURATION_UNITS_MS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/** Parse "30m", "12h", "7d" or "2w" into milliseconds; null if malformed. */
+export function parseDuration(text: string): number | null {
+  const match = /^(\d+)\s*([mhdw])$/i.exec(text.trim());
+  if (!match) return null;
+  return parseInt(match[1], 10) * DURATION_UNITS_MS[match[2].toLowerCase()];
+}
+
 // ---------------------------------------------------------------------------
 // Content templates — meaningful, non-spammy text
 // ---------------------------------------------------------------------------
@@ -177,11 +200,33 @@ export function coAuthorTrailer(): string {
   return `\n\nCo-authored-by: ${coAuthorName} <${coAuthorEmail}>`;
 }
 
+// ---------------------------------------------------------------------------
+// Run markers
+// ---------------------------------------------------------------------------
+
+const RUN_MARKER_PATTERN = /<!-- orchestrator-run: ([\w-]+) -->/;
+
+/**
+ * Hidden HTML comment tying an issue or PR body to the run that created
+ * it, so cleanup can find everything a given run produced.
+ */
+export function runMarker(runId: string): string {
+  return `\n\n<!-- orchestrator-run: ${runId} -->`;
+}
+
+/** Extract the run ID from a body tagged with `runMarker()`, if any. */
+export function parseRunMarker(body: string | null | undefined): string | null {
+  return body?.match(RUN_MARKER_PATTERN)?.[1] ?? null;
+}
+
 // ---------------------------------------------------------------------------
 // File-path generator for commits
 // ---------------------------------------------------------------------------
 
+/** Repository directory that receives the orchestrator's generated files. */
+export const GENERATED_DIR = "src/generated";
+
 /** Deterministic, meaningful file path for the orchestrator to commit. */
 export function generatedFilePath(slug: string): string {
-  return `src/generated/${slug}.ts`;
+  return `${GENERATED_DIR}/${slug}.ts`;
 }
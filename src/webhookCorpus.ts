@@ -0,0 +1,240 @@
+/**
+ * webhookCorpus.ts — Record webhook deliveries to disk and replay them.
+ *
+ * With WEBHOOK_CORPUS_DIR set, the run's webhook receiver
+ * (webhookReceiver.ts) also writes every verified delivery to that
+ * directory as one JSON file: delivery ID, event, action, arrival time,
+ * run ID, all request headers (signatures included) and the raw body,
+ * byte for byte.  Runs against a real repository or the fake server thus
+ * build a corpus of the issue, comment, PR and merge deliveries their
+ * workflows trigger.  File names sort in arrival order.
+ *
+ * `orchestrator replay` sends a corpus to a webhook consumer.  Each body
+ * is re-signed with the replay secret (X-Hub-Signature-256, plus the
+ * legacy SHA-1 X-Hub-Signature when it was recorded) and POSTed to the
+ * target with its other original headers.  Deliveries go out one at a
+ * time in recorded order, each only once the previous one was answered,
+ * keeping the recorded gaps divided by the speed factor.  A failed
+ * delivery stops the replay unless told to keep going, so the consumer
+ * never sees a later delivery without the earlier ones.
+ */
+
+import * as fs from "fs";
+import * as http from "http";
+import * as https from "https";
+import * as path from "path";
+import { createHmac } from "crypto";
+import { writeFileAtomic } from "./atomicFile";
+import { log, sleep } from "./utils";
+import type { WebhookDelivery } from "./webhookReceiver";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** One recorded delivery, as stored in the corpus. */
+export interface CorpusEntry {
+  /** File format version. */
+  version: 1;
+  /** X-GitHub-Delivery of the original delivery. */
+  id: string;
+  event: string;
+  action: string | null;
+  /** ISO-8601 time the delivery arrived. */
+  receivedAt: string;
+  /** Run that was in progress when it arrived. */
+  runId: string | null;
+  /** Request headers as received, lower-cased. */
+  headers: Record<string, string>;
+  /** Raw request body, exactly as signed. */
+  body: string;
+}
+
+export interface ReplaySelection {
+  /** Event types ("issues") or event.action pairs ("issues.opened"); null → all. */
+  events: string[] | null;
+  /** Only deliveries recorded during these runs; null → all. */
+  runIds: string[] | null;
+}
+
+export interface ReplayOptions {
+  /** Consumer URL the deliveries are POSTed to. */
+  target: string;
+  /** Secret the bodies are re-signed with. */
+  secret: string;
+  /** Recorded gaps are divided by this; 0 sends back to back. */
+  speed: number;
+  /** Continue after a delivery fails instead of stopping. */
+  keepGoing: boolean;
+}
+
+export interface ReplayResult {
+  sent: number;
+  failed: number;
+  /** Deliveries not attempted because an earlier one failed. */
+  skipped: number;
+}
+
+/** An unreadable corpus file. */
+export class CorpusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CorpusError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+/**
+ * A function that writes each delivery it is given to `dir`.  Write
+ * failures are logged, never thrown: recording must not break a run.
+ */
+export function createCorpusRecorder(
+  dir: string,
+  runId: string | null
+): (delivery: WebhookDelivery) => void {
+  let seq = 0;
+  return (delivery) => {
+    const entry: CorpusEntry = {
+      version: 1,
+      id: delivery.id,
+      event: delivery.event,
+      action: delivery.action,
+      receivedAt: delivery.receivedAt,
+      runId,
+      headers: delivery.headers,
+      body: delivery.body,
+    };
+    // The timestamp orders files across runs, the counter within one.
+    const stamp = delivery.receivedAt.replace(/[-:]/g, "");
+    const name = `${stamp}-${String(++seq).padStart(4, "0")}-${delivery.id.replace(/[^\w-]/g, "_")}.json`;
+    try {
+      writeFileAtomic(path.join(dir, name), JSON.stringify(entry, null, 2) + "\n");
+    } catch (err) {
+      log.warn(`Could not record webhook delivery ${delivery.id} in ${dir}: ${(err as Error).message}`);
+    }
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/** Every delivery in `dir`, in recorded order. */
+export function loadCorpus(dir: string): CorpusEntry[] {
+  if (!fs.existsSync(dir)) throw new CorpusError(`Webhook corpus ${dir} does not exist.`);
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith(".json"))
+    .sort()
+    .map((name) => readEntry(path.join(dir, name)));
+}
+
+/** The entries matching `selection`, order kept. */
+export function selectDeliveries(entries: CorpusEntry[], selection: ReplaySelection): CorpusEntry[] {
+  return entries.filter(
+    (e) =>
+      (!selection.events ||
+        selection.events.some((type) => type === e.event || type === `${e.event}.${e.action}`)) &&
+      (!selection.runIds || (e.runId !== null && selection.runIds.includes(e.runId)))
+  );
+}
+
+function readEntry(filePath: string): CorpusEntry {
+  let entry: Partial<CorpusEntry>;
+  try {
+    entry = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (err) {
+    throw new CorpusError(`${filePath} is not valid JSON: ${(err as Error).message}`);
+  }
+  if (entry.version !== 1) {
+    throw new CorpusError(`${filePath} has unsupported corpus version ${JSON.stringify(entry.version)}.`);
+  }
+  const missing = (["id", "event", "receivedAt", "body"] as const).filter((key) => typeof entry[key] !== "string");
+  if (missing.length > 0 || typeof entry.headers !== "object" || entry.headers === null) {
+    throw new CorpusError(`${filePath} is missing ${[...missing, ...(entry.headers ? [] : ["headers"])].join(", ")}.`);
+  }
+  if (Number.isNaN(Date.parse(entry.receivedAt!))) {
+    throw new CorpusError(`${filePath} has an invalid receivedAt "${entry.receivedAt}".`);
+  }
+  return entry as CorpusEntry;
+}
+
+// ---------------------------------------------------------------------------
+// Replay
+// ---------------------------------------------------------------------------
+
+/** Headers not carried over from the recording. */
+const DROPPED_HEADERS = new Set([
+  "host",
+  "connection",
+  "content-length",
+  "transfer-encoding",
+  "keep-alive",
+  "x-hub-signature",
+  "x-hub-signature-256",
+]);
+
+/** GitHub gives a consumer 10 seconds to answer a delivery. */
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+/** POST `entries` to `options.target`, in order, re-signed. */
+export async function replayCorpus(entries: CorpusEntry[], options: ReplayOptions): Promise<ReplayResult> {
+  const result: ReplayResult = { sent: 0, failed: 0, skipped: 0 };
+  if (entries.length === 0) return result;
+
+  const recordedStart = Date.parse(entries[0].receivedAt);
+  const replayStart = Date.now();
+
+  for (const [i, entry] of entries.entries()) {
+    if (options.speed > 0) {
+      const due = replayStart + (Date.parse(entry.receivedAt) - recordedStart) / options.speed;
+      if (due > Date.now()) await sleep(due - Date.now());
+    }
+
+    const label = `${entry.event}${entry.action ? `.${entry.action}` : ""} ${entry.id}`;
+    try {
+      const status = await post(options.target, signedHeaders(entry, options.secret), entry.body);
+      if (status < 200 || status >= 300) throw new Error(`HTTP ${status}`);
+      result.sent++;
+      log.info(`Replayed ${label} → ${status}`);
+    } catch (err) {
+      result.failed++;
+      log.warn(`Replaying ${label} failed: ${(err as Error).message}`);
+      if (!options.keepGoing) {
+        result.skipped = entries.length - i - 1;
+        break;
+      }
+    }
+  }
+  return result;
+}
+
+/** The recorded headers, with signatures recomputed under `secret`. */
+function signedHeaders(entry: CorpusEntry, secret: string): Record<string, string> {
+  const headers = Object.fromEntries(
+    Object.entries(entry.headers).filter(([name]) => !DROPPED_HEADERS.has(name.toLowerCase()))
+  );
+  headers["content-length"] = String(Buffer.byteLength(entry.body));
+  headers["x-hub-signature-256"] = `sha256=${createHmac("sha256", secret).update(entry.body).digest("hex")}`;
+  if ("x-hub-signature" in entry.headers) {
+    headers["x-hub-signature"] = `sha1=${createHmac("sha1", secret).update(entry.body).digest("hex")}`;
+  }
+  return headers;
+}
+
+/** POST `body` and resolve with the response status. */
+function post(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  const transport = url.startsWith("https:") ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = transport.request(url, { method: "POST", headers, timeout: DELIVERY_TIMEOUT_MS }, (res) => {
+      res.resume();
+      res.on("end", () => resolve(res.statusCode ?? 0));
+    });
+    req.on("timeout", () => req.destroy(new Error(`no response within ${DELIVERY_TIMEOUT_MS / 1000}s`)));
+    req.on("error", reject);
+    req.end(body);
+  });
+}
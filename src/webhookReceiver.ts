@@ -0,0 +1,332 @@
+/**
+ * webhookReceiver.ts — Receive GitHub webhook deliveries and time them.
+ *
+ * `startWebhookReceiver()` is a small HTTP server for webhook
+ * deliveries.  It verifies each POST's X-Hub-Signature-256 (an
+ * HMAC-SHA256 of the raw body under the webhook secret) and hands
+ * verified deliveries to a callback; unsigned or mis-signed requests
+ * get a 401 and go no further.
+ *
+ * During a run with WEBHOOK_PORT set, `startDeliveryMonitor()` matches
+ * each delivery to the recorded action that caused it:
+ *
+ *   issues.opened          issue-created   (by issue number)
+ *   issue_comment.created  comment-posted  (by comment ID)
+ *   pull_request.opened    pr-opened       (by PR number)
+ *   pull_request.closed    pr-merged       (by PR number, if merged)
+ *
+ * and records a "webhook-received" event with the latency from the
+ * action being recorded to its delivery arriving.  Other deliveries are
+ * recorded without a cause, and a redelivery (a delivery ID already
+ * seen, as GitHub sends after a timeout or a manual "Redeliver") is
+ * recorded only once.  When the run ends, the monitor waits up to
+ * WEBHOOK_GRACE_MS for deliveries still owed.  With WEBHOOK_CORPUS_DIR
+ * set, every verified delivery is also recorded for replay
+ * (webhookCorpus.ts).
+ *
+ * `signPayload()` computes the signature header GitHub would send, so
+ * tests and local senders need no real GitHub.
+ */
+
+import * as http from "http";
+import { createHmac, timingSafeEqual } from "crypto";
+import { AddressInfo } from "net";
+import { AnalyticsEvent, WebhookCause } from "./analyticsEvents";
+import { currentRunEvents, recordEvent } from "./analytics";
+import { config } from "./config";
+import { createCorpusRecorder } from "./webhookCorpus";
+import { log, sleep } from "./utils";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A verified webhook delivery. */
+export interface WebhookDelivery {
+  /** X-GitHub-Delivery header (a GUID). */
+  id: string;
+  /** X-GitHub-Event header, e.g. "pull_request". */
+  event: string;
+  /** The payload's `action`, e.g. "opened"; null for events without one. */
+  action: string | null;
+  /** ISO-8601 time the delivery arrived. */
+  receivedAt: string;
+  /** Request headers, lower-cased. */
+  headers: Record<string, string>;
+  /** Raw request body, exactly as signed. */
+  body: string;
+  payload: Record<string, unknown>;
+}
+
+export interface WebhookReceiverOptions {
+  /** Interface to bind, e.g. "127.0.0.1". */
+  host: string;
+  /** Port to listen on; 0 → any free port. */
+  port: number;
+  /** URL path deliveries are POSTed to, e.g. "/webhook". */
+  path: string;
+  /** Webhook secret the signatures are checked against. */
+  secret: string;
+  /** Called once per verified delivery, after it has been acknowledged. */
+  onDelivery: (delivery: WebhookDelivery) => void;
+}
+
+export interface WebhookReceiver {
+  /** Full delivery URL, e.g. "http://127.0.0.1:8787/webhook". */
+  url: string;
+  close(): Promise<void>;
+}
+
+/** Run-scoped delivery timing (see startDeliveryMonitor). */
+export interface DeliveryMonitor {
+  url: string;
+  /**
+   * Wait up to WEBHOOK_GRACE_MS for deliveries still owed, stop
+   * listening and record any stragglers.  Call before endRun().
+   */
+  stop(): Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Signatures
+// ---------------------------------------------------------------------------
+
+/** The X-Hub-Signature-256 value GitHub sends for `body`. */
+export function signPayload(secret: string, body: string | Buffer): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+/** Whether `signature` is `body`'s X-Hub-Signature-256 under `secret`. */
+export function verifySignature(secret: string, body: string | Buffer, signature: string): boolean {
+  const expected = Buffer.from(signPayload(secret, body));
+  const given = Buffer.from(signature);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// ---------------------------------------------------------------------------
+// Receiver
+// ---------------------------------------------------------------------------
+
+/** GitHub caps webhook payloads at 25 MB. */
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+/** Start an HTTP server that verifies and accepts webhook deliveries. */
+export async function startWebhookReceiver(options: WebhookReceiverOptions): Promise<WebhookReceiver> {
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+    });
+    req.on("end", () => {
+      const reply = (status: number, message: string) => {
+        res.writeHead(status, { "content-type": "text/plain; charset=utf-8" });
+        res.end(message);
+      };
+      const header = (name: string): string => {
+        const value = req.headers[name];
+        return (Array.isArray(value) ? value[0] : value) ?? "";
+      };
+
+      if (new URL(req.url ?? "/", "http://localhost").pathname !== options.path) return reply(404, "Not Found");
+      if (req.method !== "POST") return reply(405, "Method Not Allowed");
+      if (size > MAX_BODY_BYTES) return reply(413, "Payload Too Large");
+
+      const body = Buffer.concat(chunks);
+      const id = header("x-github-delivery");
+      if (!verifySignature(options.secret, body, header("x-hub-signature-256"))) {
+        log.warn(`Rejected webhook delivery ${id || "(no ID)"}: missing or invalid signature.`);
+        return reply(401, "Invalid signature");
+      }
+      const event = header("x-github-event");
+      if (!event || !id) return reply(400, "Missing X-GitHub-Event or X-GitHub-Delivery");
+      if (!header("content-type").includes("json")) {
+        return reply(415, "Set the webhook content type to application/json");
+      }
+      let payload: unknown;
+      try {
+        payload = JSON.parse(body.toString("utf-8"));
+      } catch {
+        return reply(400, "Body is not valid JSON");
+      }
+      if (typeof payload !== "object" || payload === null || Array.isArray(payload)) {
+        return reply(400, "Body is not a JSON object");
+      }
+
+      // GitHub only needs a 2xx; handle the delivery after acknowledging it.
+      reply(202, "Accepted");
+      const headers = Object.fromEntries(
+        Object.entries(req.headers).map(([key, value]) => [key, Array.isArray(value) ? value.join(", ") : value ?? ""])
+      );
+      const action = (payload as Record<string, unknown>).action;
+      options.onDelivery({
+        id,
+        event,
+        action: typeof action === "string" ? action : null,
+        receivedAt: new Date().toISOString(),
+        headers,
+        body: body.toString("utf-8"),
+        payload: payload as Record<string, unknown>,
+      });
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.host, resolve);
+  });
+  // Never the reason the process stays alive.
+  server.unref();
+  const { address, port } = server.address() as AddressInfo;
+  const host = address.includes(":") ? `[${address}]` : address;
+
+  return {
+    url: `http://${host}:${port}${options.path}`,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((err) => (err ? reject(err) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Delivery latency
+// ---------------------------------------------------------------------------
+
+/** Interval between checks for owed deliveries while stopping. */
+const DRAIN_POLL_MS = 250;
+
+const CAUSES: readonly WebhookCause[] = ["issue-created", "comment-posted", "pr-opened", "pr-merged"];
+
+/**
+ * Listen on config.webhook and record every delivery for this
+ * repository in run `runId`, matched to its cause where possible.
+ */
+export async function startDeliveryMonitor(runId: string): Promise<DeliveryMonitor> {
+  const { host, port, path, secret, graceMs, corpusDir } = config.webhook;
+  const recordCorpus = corpusDir ? createCorpusRecorder(corpusDir, runId) : null;
+  const repository = `${config.owner}/${config.repo}`.toLowerCase();
+  /** Seqs of the cause events already matched to a delivery. */
+  const matched = new Set<number>();
+  /** IDs of the deliveries handled so far. */
+  const seen = new Set<string>();
+  /** Deliveries that beat the recording of the action that caused them. */
+  let early: WebhookDelivery[] = [];
+
+  const record = (delivery: WebhookDelivery, cause: AnalyticsEvent | null) => {
+    if (cause) matched.add(cause.seq);
+    recordEvent({
+      type: "webhook-received",
+      event: delivery.event,
+      action: delivery.action,
+      deliveryId: delivery.id,
+      number: subjectNumber(delivery.payload),
+      receivedAt: delivery.receivedAt,
+      cause: cause ? (cause.type as WebhookCause) : null,
+      latencyMs: cause ? Math.max(Date.parse(delivery.receivedAt) - Date.parse(cause.at), 0) : null,
+    });
+  };
+
+  /** The unmatched recorded event `delivery` reports, if recorded yet. */
+  const findCause = (delivery: WebhookDelivery): AnalyticsEvent | null => {
+    const key = causeKey(delivery);
+    if (!key) return null;
+    return (
+      currentRunEvents().find(
+        (e) =>
+          e.type === key.type &&
+          !matched.has(e.seq) &&
+          (e.type === "comment-posted" ? e.commentId === key.id : "number" in e && e.number === key.id)
+      ) ?? null
+    );
+  };
+
+  const matchEarly = () => {
+    early = early.filter((delivery) => {
+      const cause = findCause(delivery);
+      if (cause) record(delivery, cause);
+      return !cause;
+    });
+  };
+
+  /** Cause events of this run that no delivery has been matched to yet. */
+  const owed = () =>
+    currentRunEvents().filter((e) => (CAUSES as string[]).includes(e.type) && !matched.has(e.seq)).length;
+
+  const receiver = await startWebhookReceiver({
+    host,
+    port,
+    path,
+    secret,
+    onDelivery: (delivery) => {
+      recordCorpus?.(delivery);
+      if (seen.has(delivery.id)) {
+        log.debug(`Ignoring redelivery of webhook delivery ${delivery.id}.`);
+        return;
+      }
+      seen.add(delivery.id);
+      if (delivery.event === "ping") {
+        log.info(`Webhook ping received (delivery ${delivery.id}).`);
+        return;
+      }
+      const target = (delivery.payload.repository as { full_name?: string } | undefined)?.full_name;
+      if (target?.toLowerCase() !== repository) {
+        log.debug(`Ignoring webhook delivery ${delivery.id} for ${target ?? "no repository"}.`);
+        return;
+      }
+      matchEarly();
+      const cause = findCause(delivery);
+      if (cause || !causeKey(delivery)) record(delivery, cause);
+      else early.push(delivery);
+    },
+  });
+  log.info(`Receiving webhook deliveries at ${receiver.url}`);
+  if (corpusDir) log.info(`Recording webhook deliveries in ${corpusDir}`);
+
+  return {
+    url: receiver.url,
+    stop: async () => {
+      const deadline = Date.now() + graceMs;
+      for (matchEarly(); owed() > 0 && Date.now() < deadline; matchEarly()) await sleep(DRAIN_POLL_MS);
+      await receiver.close();
+
+      for (const delivery of early) record(delivery, null);
+      const missing = owed();
+      if (missing > 0) {
+        log.warn(
+          `${missing} expected webhook ${missing === 1 ? "delivery" : "deliveries"} did not arrive ` +
+            `within ${Math.round(graceMs / 1000)}s.`
+        );
+      }
+    },
+  };
+}
+
+/** The recorded event type and object a delivery reports, if it is one we cause. */
+function causeKey(delivery: WebhookDelivery): { type: WebhookCause; id: number } | null {
+  const { payload } = delivery;
+  const field = (object: string, key: string): unknown =>
+    (payload[object] as Record<string, unknown> | undefined)?.[key];
+  const key = (type: WebhookCause, id: unknown) => (typeof id === "number" ? { type, id } : null);
+
+  switch (`${delivery.event}.${delivery.action}`) {
+    case "issues.opened":
+      return key("issue-created", field("issue", "number"));
+    case "issue_comment.created":
+      return key("comment-posted", field("comment", "id"));
+    case "pull_request.opened":
+      return key("pr-opened", field("pull_request", "number"));
+    case "pull_request.closed":
+      return field("pull_request", "merged") === true ? key("pr-merged", field("pull_request", "number")) : null;
+    default:
+      return null;
+  }
+}
+
+/** Issue or PR number the payload is about. */
+function subjectNumber(payload: Record<string, unknown>): number | null {
+  const subject = (payload.pull_request ?? payload.issue) as { number?: unknown } | undefined;
+  return typeof subject?.number === "number" ? subject.number : null;
+}
@@ -0,0 +1,402 @@
+/**
+ * workflowDefinition.ts — Declarative workflow files and their schema.
+ *
+ * A workflow file is JSON describing the steps of one collaboration
+ * cycle, their parameters, delays and conditions:
+ *
+ *   {
+ *     "version": 1,
+ *     "name": "draft-then-review",
+ *     "steps": [
+ *       { "id": "issue", "action": "open-issue" },
+ *       { "id": "branch", "action": "create-branch", "delayMs": 2000 },
+ *       { "id": "commit", "action": "commit-file" },
+ *       { "id": "pr", "action": "open-pr", "params": { "draft": true } },
+ *       { "id": "merge", "action": "merge", "params": { "method": "rebase" },
+ *         "when": { "all": [{ "config": "autoMerge" }, { "mergeable": true }] },
+ *         "else": "end" }
+ *     ]
+ *   }
+ *
+ * Steps run in order.  `next` jumps forward after a step succeeds and
+ * `else` jumps forward when its `when` condition is false; both name a
+ * later step or "end".  Jumps may only go forward, so every workflow
+ * terminates.
+ *
+ * `validateWorkflow()` checks a parsed file against this schema (the
+ * same rules are published for editors in workflows/workflow.schema.json)
+ * and reports every problem with its JSON path.  Without WORKFLOW_FILE the
+ * built-in DEFAULT_WORKFLOW reproduces the classic
+ * issue → comment → PR → merge pipeline.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+export const WORKFLOW_ACTIONS = [
+  "open-issue",
+  "comment-issue",
+  "create-branch",
+  "commit-file",
+  "open-pr",
+  "push-commit",
+  "comment-pr",
+  "request-review",
+  "mark-ready",
+  "wait-checks",
+  "merge",
+  "delete-branch",
+] as const;
+
+export type WorkflowAction = (typeof WORKFLOW_ACTIONS)[number];
+
+/** Config switches a condition can test. */
+export const CONDITION_FLAGS = [
+  "autoMerge",
+  "yoloMode",
+  "coAuthor",
+  "dryRun",
+  "trackChecks",
+  "requireChecks",
+] as const;
+export type ConditionFlag = (typeof CONDITION_FLAGS)[number];
+
+/** When a step should run.  Combinators nest. */
+export type WorkflowCondition =
+  | { config: ConditionFlag }
+  | { mergeable: boolean }
+  | { checksPassed: boolean }
+  | { chance: number }
+  | { ran: string }
+  | { not: WorkflowCondition }
+  | { all: WorkflowCondition[] }
+  | { any: WorkflowCondition[] };
+
+export interface WorkflowStepDefinition {
+  /** Unique step ID; recorded in the journal. */
+  id: string;
+  action: WorkflowAction;
+  /** Action-specific parameters (see ACTION_PARAMS). */
+  params?: Record<string, unknown>;
+  /** Pause before the step (and before evaluating its condition). */
+  delayMs?: number;
+  when?: WorkflowCondition;
+  /** Step to continue with after success (default: the following one). */
+  next?: string;
+  /** Step to continue with when `when` is false (default: the following one). */
+  else?: string;
+}
+
+export interface WorkflowDefinition {
+  version: 1;
+  name: string;
+  description?: string;
+  steps: WorkflowStepDefinition[];
+}
+
+/** Jump target that ends the workflow. */
+export const END = "end";
+
+/** Longest allowed per-step delay. */
+const MAX_DELAY_MS = 10 * 60_000;
+
+type ParamType = "boolean" | "string" | "string[]";
+
+interface ParamSpec {
+  type: ParamType;
+  required?: boolean;
+  choices?: readonly string[];
+}
+
+/** Accepted parameters per action. */
+const ACTION_PARAMS: Record<WorkflowAction, Record<string, ParamSpec>> = {
+  "open-issue": {},
+  "comment-issue": {},
+  "create-branch": {},
+  "commit-file": {},
+  "open-pr": { draft: { type: "boolean" } },
+  "push-commit": {},
+  "comment-pr": {},
+  "request-review": { reviewers: { type: "string[]" }, teamReviewers: { type: "string[]" } },
+  "mark-ready": {},
+  "wait-checks": {},
+  merge: {
+    method: { type: "string", choices: ["merge", "squash", "rebase"] },
+    review: { type: "boolean" },
+  },
+  "delete-branch": {},
+};
+
+/** State an action needs, and the action that produces it. */
+const ACTION_REQUIRES: Partial<Record<WorkflowAction, WorkflowAction>> = {
+  "comment-issue": "open-issue",
+  "create-branch": "open-issue",
+  "commit-file": "create-branch",
+  "open-pr": "create-branch",
+  "push-commit": "open-pr",
+  "comment-pr": "open-pr",
+  "request-review": "open-pr",
+  "mark-ready": "open-pr",
+  "wait-checks": "open-pr",
+  merge: "open-pr",
+  "delete-branch": "create-branch",
+};
+
+const STEP_KEYS = new Set(["id", "action", "params", "delayMs", "when", "next", "else"]);
+const ROOT_KEYS = new Set(["$schema", "version", "name", "description", "steps"]);
+
+// ---------------------------------------------------------------------------
+// Built-in default
+// ---------------------------------------------------------------------------
+
+/** The classic pipeline, used when no WORKFLOW_FILE is configured. */
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  version: 1,
+  name: "default",
+  description: "Issue → quick comment → branch → commit → PR → PR comment → (CI checks) → merge.",
+  steps: [
+    { id: "issue", action: "open-issue" },
+    { id: "issue-comment", action: "comment-issue" },
+    // Let the issue and comment be indexed before referencing them.
+    { id: "branch", action: "create-branch", delayMs: 2_000 },
+    { id: "commit", action: "commit-file" },
+    { id: "pr", action: "open-pr" },
+    { id: "pr-comment", action: "comment-pr", delayMs: 1_500 },
+    { id: "checks", action: "wait-checks", when: { config: "trackChecks" } },
+    {
+      id: "merge",
+      action: "merge",
+      // Give GitHub time to compute merge status.
+      delayMs: 3_000,
+      when: {
+        all: [
+          { config: "autoMerge" },
+          { mergeable: true },
+          { any: [{ not: { config: "requireChecks" } }, { checksPassed: true }] },
+        ],
+      },
+      else: END,
+    },
+    { id: "delete-branch", action: "delete-branch" },
+  ],
+};
+
+// ---------------------------------------------------------------------------
+// Loading and validation
+// ---------------------------------------------------------------------------
+
+/** A workflow file that is missing, unparseable or invalid. */
+export class WorkflowDefinitionError extends Error {
+  constructor(
+    message: string,
+    /** Individual schema violations ("steps[2].action: …"). */
+    readonly problems: string[] = []
+  ) {
+    super(problems.length > 0 ? `${message}\n  - ${problems.join("\n  - ")}` : message);
+    this.name = "WorkflowDefinitionError";
+  }
+}
+
+/**
+ * Load and validate a workflow file, or return the built-in default
+ * when `filePath` is empty.
+ */
+export function loadWorkflow(filePath: string): WorkflowDefinition {
+  if (!filePath) return DEFAULT_WORKFLOW;
+
+  const resolved = path.resolve(filePath);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(resolved, "utf-8"));
+  } catch (err) {
+    throw new WorkflowDefinitionError(
+      `Could not read workflow file ${resolved}: ${(err as Error).message}`
+    );
+  }
+
+  const problems = validateWorkflow(raw);
+  if (problems.length > 0) {
+    throw new WorkflowDefinitionError(`Invalid workflow file ${resolved}:`, problems);
+  }
+  return raw as WorkflowDefinition;
+}
+
+/** Check a parsed workflow against the schema; returns every problem found. */
+export function validateWorkflow(raw: unknown): string[] {
+  const problems: string[] = [];
+  if (!isObject(raw)) return ["(root): expected an object"];
+
+  for (const key of Object.keys(raw)) {
+    if (!ROOT_KEYS.has(key)) problems.push(`${key}: unknown property`);
+  }
+  if (raw.version !== 1) problems.push("version: expected 1");
+  if (typeof raw.name !== "string" || raw.name.trim() === "") {
+    problems.push("name: expected a non-empty string");
+  }
+  if (raw.description !== undefined && typeof raw.description !== "string") {
+    problems.push("description: expected a string");
+  }
+  if (!Array.isArray(raw.steps) || raw.steps.length === 0) {
+    problems.push("steps: expected a non-empty array");
+    return problems;
+  }
+
+  const steps = raw.steps as unknown[];
+  const ids = steps.map((s) => (isObject(s) && typeof s.id === "string" ? s.id : undefined));
+  const indexOf = new Map<string, number>();
+  ids.forEach((id, i) => {
+    if (id !== undefined && !indexOf.has(id)) indexOf.set(id, i);
+  });
+
+  steps.forEach((step, i) => {
+    const at = `steps[${i}]`;
+    if (!isObject(step)) {
+      problems.push(`${at}: expected an object`);
+      return;
+    }
+    for (const key of Object.keys(step)) {
+      if (!STEP_KEYS.has(key)) problems.push(`${at}.${key}: unknown property`);
+    }
+
+    // id
+    if (typeof step.id !== "string" || !/^[a-z0-9][a-z0-9-]*$/.test(step.id)) {
+      problems.push(`${at}.id: expected lowercase letters, digits and dashes`);
+    } else if (step.id === END) {
+      problems.push(`${at}.id: "${END}" is reserved`);
+    } else if (indexOf.get(step.id) !== i) {
+      problems.push(`${at}.id: duplicate id "${step.id}"`);
+    }
+
+    // action + params
+    const action = step.action as WorkflowAction;
+    if (!WORKFLOW_ACTIONS.includes(action)) {
+      problems.push(`${at}.action: expected one of ${WORKFLOW_ACTIONS.join(", ")}`);
+    } else {
+      problems.push(...validateParams(action, step.params, `${at}.params`));
+      const needs = ACTION_REQUIRES[action];
+      const earlier = steps.slice(0, i).some((s) => isObject(s) && s.action === needs);
+      if (needs && !earlier) {
+        problems.push(`${at}.action: "${action}" needs an earlier "${needs}" step`);
+      }
+    }
+
+    // delay
+    if (
+      step.delayMs !== undefined &&
+      (!Number.isInteger(step.delayMs) ||
+        (step.delayMs as number) < 0 ||
+        (step.delayMs as number) > MAX_DELAY_MS)
+    ) {
+      problems.push(`${at}.delayMs: expected an integer from 0 to ${MAX_DELAY_MS}`);
+    }
+
+    // condition
+    if (step.when !== undefined) {
+      problems.push(...validateCondition(step.when, `${at}.when`, indexOf, i));
+    }
+    if (step.else !== undefined && step.when === undefined) {
+      problems.push(`${at}.else: only allowed together with "when"`);
+    }
+
+    // jumps
+    for (const key of ["next", "else"] as const) {
+      const target = step[key];
+      if (target === undefined || target === END) continue;
+      if (typeof target !== "string" || !indexOf.has(target)) {
+        problems.push(`${at}.${key}: expected a step id or "${END}"`);
+      } else if (indexOf.get(target)! <= i) {
+        problems.push(`${at}.${key}: can only jump forward (to a later step)`);
+      }
+    }
+  });
+
+  return problems;
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateParams(action: WorkflowAction, params: unknown, at: string): string[] {
+  if (params === undefined) params = {};
+  if (!isObject(params)) return [`${at}: expected an object`];
+
+  const problems: string[] = [];
+  const specs = ACTION_PARAMS[action];
+  for (const key of Object.keys(params)) {
+    if (!(key in specs)) problems.push(`${at}.${key}: not a parameter of "${action}"`);
+  }
+  for (const [key, spec] of Object.entries(specs)) {
+    const value = params[key];
+    if (value === undefined) {
+      if (spec.required) problems.push(`${at}.${key}: required`);
+      continue;
+    }
+    const ok =
+      spec.type === "string[]"
+        ? Array.isArray(value) && value.every((v) => typeof v === "string" && v !== "")
+        : typeof value === spec.type;
+    if (!ok) problems.push(`${at}.${key}: expected ${spec.type}`);
+    else if (spec.choices && !spec.choices.includes(value as string)) {
+      problems.push(`${at}.${key}: expected one of ${spec.choices.join(", ")}`);
+    }
+  }
+
+  if (action === "request-review") {
+    const users = (params.reviewers as unknown[] | undefined) ?? [];
+    const teams = (params.teamReviewers as unknown[] | undefined) ?? [];
+    if (users.length + teams.length === 0) {
+      problems.push(`${at}: "request-review" needs reviewers or teamReviewers`);
+    }
+  }
+  return problems;
+}
+
+function validateCondition(
+  cond: unknown,
+  at: string,
+  indexOf: Map<string, number>,
+  stepIndex: number
+): string[] {
+  if (!isObject(cond) || Object.keys(cond).length !== 1) {
+    return [
+      `${at}: expected an object with exactly one of config, mergeable, checksPassed, chance, ran, not, all, any`,
+    ];
+  }
+  const [key, value] = Object.entries(cond)[0];
+  switch (key) {
+    case "config":
+      return CONDITION_FLAGS.includes(value as ConditionFlag)
+        ? []
+        : [`${at}.config: expected one of ${CONDITION_FLAGS.join(", ")}`];
+    case "mergeable":
+    case "checksPassed":
+      return typeof value === "boolean" ? [] : [`${at}.${key}: expected boolean`];
+    case "chance":
+      return typeof value === "number" && value >= 0 && value <= 1
+        ? []
+        : [`${at}.chance: expected a number from 0 to 1`];
+    case "ran":
+      return typeof value === "string" && (indexOf.get(value) ?? Infinity) < stepIndex
+        ? []
+        : [`${at}.ran: expected the id of an earlier step`];
+    case "not":
+      return validateCondition(value, `${at}.not`, indexOf, stepIndex);
+    case "all":
+    case "any":
+      if (!Array.isArray(value) || value.length === 0) {
+        return [`${at}.${key}: expected a non-empty array`];
+      }
+      return value.flatMap((c, i) => validateCondition(c, `${at}.${key}[${i}]`, indexOf, stepIndex));
+    default:
+      return [`${at}.${key}: unknown condition`];
+  }
+}
@@ -0,0 +1,349 @@
+/**
+ * workflowRunner.ts — Execute a workflow definition step by step.
+ *
+ * Each action maps onto the existing manager functions (issueManager,
+ * commentManager, prManager, mergeManager) and appends what it created,
+ * and how each step went, to the analytics event stream.  Every finished step — run
+ * or skipped — is journaled before moving on, so an interrupted
+ * workflow resumes right after the last journaled step, following the
+ * same jumps it would have taken.
+ */
+
+import { config } from "./config";
+import { deleteBranch } from "./githubClient";
+import { createIssue } from "./issueManager";
+import {
+  createFeatureBranch,
+  commitGeneratedFile,
+  openPullRequest,
+  pushFollowUpCommit,
+  requestReviewers,
+  markReadyForReview,
+} from "./prManager";
+import { PostedComment, quickResponseComment, commentOnPR } from "./commentManager";
+import { MergeMethod, performMerge, isMergeable } from "./mergeManager";
+import {
+  JournalEntry,
+  WorkflowState,
+  finishWorkflow,
+  hasStep,
+  recordStep,
+  requireState,
+} from "./journal";
+import { recordEvent } from "./analytics";
+import { checksPassed, getRequiredChecks, waitForChecks } from "./checkTracker";
+import {
+  END,
+  WorkflowAction,
+  WorkflowCondition,
+  WorkflowDefinition,
+  WorkflowStepDefinition,
+} from "./workflowDefinition";
+import { setLogContext } from "./logger";
+import { setSpanAttributes, tracedSleep, withSpan } from "./tracing";
+import { log, random } from "./utils";
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Run (or resume) one workflow journaled in `entry` according to
+ * `workflow`, marking the entry completed at the end.
+ */
+export async function executeWorkflow(
+  workflow: WorkflowDefinition,
+  entry: JournalEntry
+): Promise<void> {
+  if (entry.workflow !== workflow.name) {
+    log.warn(
+      `Workflow ${entry.id} was started as "${entry.workflow}" but is continuing ` +
+        `with "${workflow.name}"; steps are matched by id.`
+    );
+  }
+
+  let index = resumeIndex(workflow, entry);
+  while (index < workflow.steps.length) {
+    const step = workflow.steps[index];
+    setLogContext({ step: step.id });
+    index = await withSpan(
+      `step ${step.id}`,
+      { "workflow.step": step.id, "workflow.action": step.action },
+      () => runStep(workflow, entry, step, index)
+    );
+  }
+
+  setLogContext({ step: null });
+  finishWorkflow(entry, "completed");
+}
+
+/** Run (or skip) step `index` and journal it; returns the next step's index. */
+async function runStep(
+  workflow: WorkflowDefinition,
+  entry: JournalEntry,
+  step: WorkflowStepDefinition,
+  index: number
+): Promise<number> {
+  if (step.delayMs) await tracedSleep(step.delayMs, "step delay");
+
+  const startedAt = Date.now();
+  const finished = (outcome: "success" | "failure", skipped: boolean, error?: unknown) =>
+    recordEvent(
+      {
+        type: "step-finished",
+        step: step.id,
+        action: step.action,
+        durationMs: Date.now() - startedAt,
+        skipped,
+        ...(error === undefined ? {} : { error: error instanceof Error ? error.message : String(error) }),
+      },
+      outcome
+    );
+
+  if (step.when && !(await evaluate(step.when, entry))) {
+    log.info(`Step "${step.id}" skipped: condition not met.`);
+    recordStep(entry, step.id, {}, "skipped");
+    finished("success", true);
+    setSpanAttributes({ "workflow.step.skipped": true });
+    return jumpTarget(workflow, step.else, index);
+  }
+
+  log.debug(`Step "${step.id}" (${step.action})…`);
+  let patch: Partial<WorkflowState>;
+  try {
+    patch = await ACTIONS[step.action](entry, step.params ?? {});
+  } catch (err) {
+    finished("failure", false, err);
+    throw err;
+  }
+  recordStep(entry, step.id, patch);
+  finished("success", false);
+  return jumpTarget(workflow, step.next, index);
+}
+
+// ---------------------------------------------------------------------------
+// Actions
+// ---------------------------------------------------------------------------
+
+type ActionHandler = (
+  entry: JournalEntry,
+  params: Record<string, unknown>
+) => Promise<Partial<WorkflowState>>;
+
+const ACTIONS: Record<WorkflowAction, ActionHandler> = {
+  "open-issue": async (entry) => {
+    const issue = await createIssue(entry.runId);
+    recordEvent({ type: "issue-created", number: issue.number, url: issue.htmlUrl, createdAt: issue.createdAt });
+    return { issue };
+  },
+
+  "comment-issue": async (entry) => {
+    const issue = requireState(entry, "issue");
+    const issueComment = await quickResponseComment(issue.number);
+    recordComment(issueComment);
+    return { issueComment };
+  },
+
+  "create-branch": async (entry) => {
+    const { branch, baseBranch } = await createFeatureBranch(requireState(entry, "issue").title);
+    return { branch, baseBranch };
+  },
+
+  "commit-file": async (entry) => {
+    const issue = requireState(entry, "issue");
+    const branch = requireState(entry, "branch");
+    const commit = await commitGeneratedFile(branch, issue.number, issue.title);
+    recordCommit(branch, commit);
+    return { filePath: commit.path, commitSha: commit.sha };
+  },
+
+  "open-pr": async (entry, params) => {
+    const issue = requireState(entry, "issue");
+    const pr = await openPullRequest({
+      issueNumber: issue.number,
+      issueTitle: issue.title,
+      branch: requireState(entry, "branch"),
+      baseBranch: requireState(entry, "baseBranch"),
+      runId: entry.runId,
+      draft: params.draft === true,
+    });
+    recordEvent({
+      type: "pr-opened",
+      number: pr.number,
+      url: pr.htmlUrl,
+      createdAt: pr.createdAt,
+      closesIssue: pr.closesIssue,
+      draft: params.draft === true,
+    });
+    return { pr };
+  },
+
+  "push-commit": async (entry) => {
+    const issue = requireState(entry, "issue");
+    const branch = requireState(entry, "branch");
+    const commit = await pushFollowUpCommit(branch, issue.number, issue.title);
+    recordCommit(branch, commit);
+    return { followUpCommits: [...(entry.state.followUpCommits ?? []), commit] };
+  },
+
+  "comment-pr": async (entry) => {
+    const prComment = await commentOnPR(requireState(entry, "pr").number);
+    recordComment(prComment);
+    return { prComment };
+  },
+
+  "request-review": async (entry, params) => {
+    const users = (params.reviewers as string[] | undefined) ?? [];
+    const teams = (params.teamReviewers as string[] | undefined) ?? [];
+    await requestReviewers(requireState(entry, "pr").number, { users, teams });
+    return {
+      reviewersRequested: [...(entry.state.reviewersRequested ?? []), ...users, ...teams],
+    };
+  },
+
+  "mark-ready": async (entry) => {
+    await markReadyForReview(requireState(entry, "pr").number);
+    return { readyForReview: true };
+  },
+
+  "wait-checks": async (entry) => {
+    const pr = requireState(entry, "pr");
+    const snapshot = await waitForChecks(pr.number);
+    for (const check of snapshot.checks) {
+      recordEvent({ type: "check-finished", number: pr.number, sha: snapshot.sha, ...check });
+    }
+    recordEvent({
+      type: "checks-observed",
+      number: pr.number,
+      sha: snapshot.sha,
+      checks: snapshot.checks.length,
+      firstCheckAt: snapshot.firstSeenAt,
+      completedAt: snapshot.completedAt,
+      conclusion: snapshot.conclusion,
+    });
+    return { checks: { sha: snapshot.sha, conclusion: snapshot.conclusion } };
+  },
+
+  merge: async (entry, params) => {
+    const pr = requireState(entry, "pr");
+    const yolo = typeof params.review === "boolean" ? !params.review : config.yoloMode;
+    const method = (params.method as MergeMethod | undefined) ?? "squash";
+    const result = await performMerge(pr.number, yolo, method);
+    recordEvent({
+      type: "pr-merged",
+      number: pr.number,
+      url: pr.htmlUrl,
+      mergedAt: result.mergedAt,
+      mergeSha: result.mergeSha,
+      method,
+      yolo: result.yolo,
+    });
+    // Closed via "Closes #N" in the PR body.
+    const issue = requireState(entry, "issue");
+    recordEvent({ type: "issue-closed", number: issue.number, url: issue.htmlUrl, closedAt: result.mergedAt, via: "merge" });
+    return {
+      merge: { mergeSha: result.mergeSha, mergedAt: result.mergedAt, yolo: result.yolo, method },
+    };
+  },
+
+  "delete-branch": async (entry) => {
+    await deleteBranch(requireState(entry, "branch"));
+    return { branchDeleted: true };
+  },
+};
+
+function recordComment(comment: PostedComment): void {
+  recordEvent({
+    type: "comment-posted",
+    target: comment.isPR ? "pr" : "issue",
+    number: comment.targetNumber,
+    commentId: comment.id,
+    url: comment.htmlUrl,
+    createdAt: comment.createdAt,
+  });
+}
+
+function recordCommit(branch: string, commit: { path: string; sha: string }): void {
+  recordEvent({
+    type: "commit-pushed",
+    branch,
+    sha: commit.sha,
+    path: commit.path,
+    coAuthored: Boolean(config.coAuthorName && config.coAuthorEmail),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Conditions and control flow
+// ---------------------------------------------------------------------------
+
+async function evaluate(cond: WorkflowCondition, entry: JournalEntry): Promise<boolean> {
+  if ("config" in cond) {
+    switch (cond.config) {
+      case "autoMerge":
+        return config.autoMerge;
+      case "yoloMode":
+        return config.yoloMode;
+      case "coAuthor":
+        return Boolean(config.coAuthorName && config.coAuthorEmail);
+      case "dryRun":
+        return config.dryRun;
+      case "trackChecks":
+        return config.checks.track;
+      case "requireChecks":
+        return config.checks.requireForMerge;
+    }
+  }
+  if ("checksPassed" in cond) {
+    const pr = requireState(entry, "pr");
+    const snapshot = await waitForChecks(pr.number);
+    const { passed, reason } = checksPassed(snapshot, await getRequiredChecks(snapshot.baseBranch));
+    if (!passed && cond.checksPassed) {
+      log.warn(`PR #${pr.number} checks have not passed (${reason}). You can merge it manually.`);
+    }
+    return passed === cond.checksPassed;
+  }
+  if ("mergeable" in cond) {
+    const pr = requireState(entry, "pr");
+    const mergeable = await isMergeable(pr.number);
+    if (!mergeable && cond.mergeable) {
+      log.warn(`PR #${pr.number} is not mergeable. You can merge it manually.`);
+    }
+    return mergeable === cond.mergeable;
+  }
+  if ("chance" in cond) return random() < cond.chance;
+  if ("ran" in cond) return hasStep(entry, cond.ran);
+  if ("not" in cond) return !(await evaluate(cond.not, entry));
+  if ("all" in cond) {
+    for (const c of cond.all) if (!(await evaluate(c, entry))) return false;
+    return true;
+  }
+  for (const c of cond.any) if (await evaluate(c, entry)) return true;
+  return false;
+}
+
+/** Index of the step to run after step `index` (or past the end). */
+function jumpTarget(
+  workflow: WorkflowDefinition,
+  target: string | undefined,
+  index: number
+): number {
+  if (target === undefined) return index + 1;
+  if (target === END) return workflow.steps.length;
+  return workflow.steps.findIndex((s) => s.id === target);
+}
+
+/** Where a (possibly resumed) workflow continues. */
+function resumeIndex(workflow: WorkflowDefinition, entry: JournalEntry): number {
+  const last = entry.steps.at(-1);
+  if (!last) return 0;
+
+  const index = workflow.steps.findIndex((s) => s.id === last.step);
+  if (index === -1) {
+    throw new Error(
+      `Cannot resume workflow ${entry.id}: step "${last.step}" is not in "${workflow.name}".`
+    );
+  }
+  const step: WorkflowStepDefinition = workflow.steps[index];
+  return jumpTarget(workflow, last.outcome === "skipped" ? step.else : step.next, index);
+}
@@ -0,0 +1,116 @@
+import { makeEvent } from "./helpers";
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { AnalyticsEvent, projectRuns } from "../src/analyticsEvents";
+import { ANALYTICS_SCHEMA_VERSION, AnalyticsSchemaError, migrateAnalytics } from "../src/analyticsSchema";
+
+/** A version-1 run record: one issue commented after 1.5s, one PR merged after 9s. */
+const V1_RUN = {
+  runId: "v1-run",
+  startedAt: "2025-06-01T10:00:00.000Z",
+  finishedAt: "2025-06-01T10:01:00.000Z",
+  issuesCreated: 2,
+  issuesClosed: 1,
+  prsOpened: 1,
+  prsMerged: 1,
+  yoloMerges: 1,
+  commentsPosted: 3,
+  coAuthoredCommits: 1,
+  issueToFirstCommentMs: [1_500],
+  prOpenToMergeMs: [9_000],
+};
+
+/** One event of each type introduced after version 2, keyed by that version. */
+const LATER_EVENTS: Record<number, AnalyticsEvent> = {
+  3: makeEvent("r", 1, { type: "step-finished", step: "issue", action: "create-issue", durationMs: 40, skipped: false }),
+  4: makeEvent("r", 1, {
+    type: "checks-observed",
+    number: 2,
+    sha: "abc",
+    checks: 1,
+    firstCheckAt: null,
+    completedAt: null,
+    conclusion: "timed-out",
+  }),
+  5: makeEvent("r", 1, {
+    type: "webhook-received",
+    event: "issues",
+    action: "opened",
+    deliveryId: "d-1",
+    number: 1,
+    receivedAt: "2026-01-01T00:00:01.000Z",
+    cause: "issue-created",
+    latencyMs: 900,
+  }),
+  6: makeEvent("r", 1, {
+    type: "api-usage",
+    routes: [{ route: "GET /repos/{owner}/{repo}", requests: 1, errors: 0, retries: 0, latenciesMs: [12] }],
+  }),
+};
+
+const runStarted = makeEvent("r", 0, { type: "run-started" });
+
+test("a version-1 file migrates step by step to the current version", () => {
+  const { data, fromVersion, applied } = migrateAnalytics({ version: 1, runs: [V1_RUN] });
+  assert.equal(fromVersion, 1);
+  assert.equal(data.version, ANALYTICS_SCHEMA_VERSION);
+  assert.deepEqual(
+    applied.map((a) => a.split(":")[0]),
+    ["1 → 2", "2 → 3", "3 → 4", "4 → 5", "5 → 6"]
+  );
+  assert.ok(data.events.every((e) => e.upcast === true));
+});
+
+test("upcast version-1 runs project back to their counters and latencies", () => {
+  const { data } = migrateAnalytics({ version: 1, runs: [V1_RUN] });
+  const [run] = projectRuns(data.events);
+  assert.equal(run.runId, "v1-run");
+  assert.equal(run.issuesCreated, 2);
+  assert.equal(run.issuesClosed, 1);
+  assert.equal(run.prsOpened, 1);
+  assert.equal(run.prsMerged, 1);
+  assert.equal(run.yoloMerges, 1);
+  assert.equal(run.commentsPosted, 3);
+  assert.equal(run.coAuthoredCommits, 1);
+  assert.deepEqual(run.issueToFirstCommentMs, [1_500]);
+  assert.deepEqual(run.prOpenToMergeMs, [9_000]);
+  assert.equal(run.incomplete, undefined);
+});
+
+test("every event-stream version migrates to the current one unchanged", () => {
+  for (let version = 2; version <= ANALYTICS_SCHEMA_VERSION; version++) {
+    const events = [runStarted, ...Object.entries(LATER_EVENTS).filter(([v]) => Number(v) <= version).map(([, e]) => e)];
+    const { data, applied } = migrateAnalytics({ version, events });
+    assert.equal(data.version, ANALYTICS_SCHEMA_VERSION, `from version ${version}`);
+    assert.equal(applied.length, ANALYTICS_SCHEMA_VERSION - version, `from version ${version}`);
+    assert.deepEqual(data.events, events, `from version ${version}`);
+  }
+});
+
+test("an event type newer than the file's version is rejected", () => {
+  for (const [introduced, event] of Object.entries(LATER_EVENTS)) {
+    const version = Number(introduced) - 1;
+    assert.throws(
+      () => migrateAnalytics({ version, events: [runStarted, event] }),
+      (err: unknown) => err instanceof AnalyticsSchemaError && err.message.includes(`version-${version}`),
+      `${event.type} in version ${version}`
+    );
+  }
+});
+
+test("invalid files are rejected with every problem listed", () => {
+  assert.throws(
+    () => migrateAnalytics({ version: 6, events: [{ ...runStarted, runId: 42 }, { ...runStarted, seq: "1" }] }),
+    (err: unknown) =>
+      err instanceof AnalyticsSchemaError &&
+      err.problems.length === 2 &&
+      err.problems.some((p) => p.startsWith("events[0].runId")) &&
+      err.problems.some((p) => p.startsWith("events[1].seq"))
+  );
+});
+
+test("files without a version, or from a newer build, are refused", () => {
+  assert.throws(() => migrateAnalytics({ events: [] }), /no valid "version"/);
+  assert.throws(() => migrateAnalytics([]), /not a JSON object/);
+  assert.throws(() => migrateAnalytics({ version: ANALYTICS_SCHEMA_VERSION + 1, events: [] }), /newer than this build/);
+});
@@ -0,0 +1,165 @@
+import { TMP_DIR, filesTagged, makeEvent } from "./helpers";
+import { before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { AnalyticsEvent } from "../src/analyticsEvents";
+import { ANALYTICS_SCHEMA_VERSION, AnalyticsSchemaError } from "../src/analyticsSchema";
+import {
+  convertAnalyticsStore,
+  openAnalyticsStore,
+  prepareAnalyticsBackends,
+} from "../src/analyticsStore";
+import { ANALYTICS_BACKENDS, AnalyticsBackend } from "../src/config";
+
+const RUN_A: AnalyticsEvent[] = [
+  makeEvent("run-a", 0, { type: "run-started" }, 0),
+  makeEvent("run-a", 1, { type: "issue-created", number: 1, url: null, createdAt: "2026-01-01T00:00:01.000Z" }, 1_000),
+  makeEvent("run-a", 2, { type: "run-finished" }, 2_000),
+];
+const RUN_B: AnalyticsEvent[] = [
+  makeEvent("run-b", 0, { type: "run-started" }, 60_000),
+  makeEvent("run-b", 1, { type: "issue-created", number: 2, url: null, createdAt: "2026-01-01T00:01:01.000Z" }, 61_000),
+];
+
+/** A fresh store of `backend` in its own directory. */
+function freshStore(backend: AnalyticsBackend, name: string) {
+  const dir = fs.mkdtempSync(path.join(TMP_DIR, `${backend}-${name}-`));
+  return openAnalyticsStore(backend, path.join(dir, `analytics.${backend}`));
+}
+
+before(() => prepareAnalyticsBackends(...ANALYTICS_BACKENDS));
+
+for (const backend of ANALYTICS_BACKENDS) {
+  test(`${backend}: a missing store is an empty history`, () => {
+    const store = freshStore(backend, "missing");
+    assert.deepEqual(store.readEvents(), []);
+    assert.deepEqual(store.listRuns(), []);
+    assert.equal(fs.existsSync(store.location), false);
+  });
+
+  test(`${backend}: appended events are read back in order, and filtered`, () => {
+    const store = freshStore(backend, "append");
+    store.append(RUN_A);
+    store.append(RUN_B);
+
+    // A second handle sees what the first wrote.
+    const reopened = openAnalyticsStore(backend, store.location);
+    assert.deepEqual(reopened.readEvents(), [...RUN_A, ...RUN_B]);
+    assert.deepEqual(reopened.readEvents({ runIds: ["run-b"] }), RUN_B);
+    assert.deepEqual(
+      reopened.readEvents({ types: ["issue-created"] }).map((e) => e.runId),
+      ["run-a", "run-b"]
+    );
+    assert.deepEqual(reopened.readEvents({ since: RUN_B[0].at }), RUN_B);
+    assert.deepEqual(reopened.readEvents({ until: RUN_B[0].at }), RUN_A);
+  });
+
+  test(`${backend}: runs are listed in start order, unfinished ones without a finish time`, () => {
+    const store = freshStore(backend, "runs");
+    store.append([...RUN_A, ...RUN_B]);
+    assert.deepEqual(store.listRuns(), [
+      { runId: "run-a", startedAt: RUN_A[0].at, finishedAt: RUN_A[2].at, events: 3 },
+      { runId: "run-b", startedAt: RUN_B[0].at, finishedAt: null, events: 2 },
+    ]);
+    assert.deepEqual(
+      store.listRuns({ kind: "runs", count: 1 }).map((r) => r.runId),
+      ["run-b"]
+    );
+  });
+
+  test(`${backend}: an invalid store is refused by readers and moved aside by the next append`, () => {
+    const store = freshStore(backend, "corrupt");
+    fs.mkdirSync(path.dirname(store.location), { recursive: true });
+    fs.writeFileSync(store.location, "this is not an analytics store\n");
+
+    assert.throws(() => store.readEvents(), AnalyticsSchemaError);
+    store.append(RUN_B);
+
+    assert.deepEqual(store.readEvents(), RUN_B);
+    const [quarantined] = filesTagged(path.dirname(store.location), ".corrupt-");
+    assert.ok(quarantined, "the invalid store is kept");
+    assert.equal(
+      fs.readFileSync(path.join(path.dirname(store.location), quarantined), "utf-8"),
+      "this is not an analytics store\n"
+    );
+  });
+
+  test(`${backend}: converting to every backend keeps every event`, () => {
+    const source = freshStore(backend, "convert");
+    source.append([...RUN_A, ...RUN_B]);
+    for (const to of ANALYTICS_BACKENDS) {
+      const target = freshStore(to, `from-${backend}`);
+      assert.deepEqual(convertAnalyticsStore(source, target), { events: 5, runs: 2 });
+      assert.deepEqual(target.readEvents(), source.readEvents(), `${backend} → ${to}`);
+    }
+  });
+}
+
+test("json: an older store is upgraded on append, keeping a backup", () => {
+  const store = freshStore("json", "upgrade");
+  fs.mkdirSync(path.dirname(store.location), { recursive: true });
+  fs.writeFileSync(store.location, JSON.stringify({ version: 5, events: RUN_A }));
+
+  const check = store.migrate(false);
+  assert.equal(check.fromVersion, 5);
+  assert.equal(check.applied.length, ANALYTICS_SCHEMA_VERSION - 5);
+  assert.equal(check.backupPath, null);
+
+  store.append(RUN_B);
+  assert.equal(JSON.parse(fs.readFileSync(store.location, "utf-8")).version, ANALYTICS_SCHEMA_VERSION);
+  assert.deepEqual(store.readEvents(), [...RUN_A, ...RUN_B]);
+  const backup = path.join(path.dirname(store.location), "analytics.v5.bak.json");
+  assert.deepEqual(JSON.parse(fs.readFileSync(backup, "utf-8")), { version: 5, events: RUN_A });
+});
+
+test("json: a version-1 store migrates to the event stream", () => {
+  const store = freshStore("json", "v1");
+  fs.mkdirSync(path.dirname(store.location), { recursive: true });
+  const run = {
+    runId: "old",
+    startedAt: "2025-01-01T00:00:00.000Z",
+    finishedAt: "2025-01-01T00:01:00.000Z",
+    issuesCreated: 1,
+    issuesClosed: 0,
+    prsOpened: 0,
+    prsMerged: 0,
+    yoloMerges: 0,
+    commentsPosted: 1,
+    coAuthoredCommits: 0,
+    issueToFirstCommentMs: [2_000],
+    prOpenToMergeMs: [],
+  };
+  fs.writeFileSync(store.location, JSON.stringify({ version: 1, runs: [run] }));
+
+  const migration = store.migrate(true);
+  assert.equal(migration.fromVersion, 1);
+  assert.ok(migration.backupPath && fs.existsSync(migration.backupPath));
+  assert.deepEqual(
+    store.readEvents().map((e) => e.type),
+    ["run-started", "issue-created", "comment-posted", "run-finished"]
+  );
+  assert.equal(store.migrate(false).applied.length, 0);
+});
+
+test("ndjson: an unterminated last line is ignored, then cut off by the next append", () => {
+  const store = freshStore("ndjson", "torn");
+  store.append(RUN_A);
+  fs.appendFileSync(store.location, '{"seq":3,"runId":"run-a","ty');
+
+  assert.deepEqual(store.readEvents(), RUN_A);
+  store.append(RUN_B);
+  assert.deepEqual(store.readEvents(), [...RUN_A, ...RUN_B]);
+  assert.ok(fs.readFileSync(store.location, "utf-8").endsWith("\n"));
+});
+
+test("a store from a newer build is refused, never overwritten", () => {
+  const store = freshStore("json", "newer");
+  fs.mkdirSync(path.dirname(store.location), { recursive: true });
+  const newer = JSON.stringify({ version: ANALYTICS_SCHEMA_VERSION + 1, events: [] });
+  fs.writeFileSync(store.location, newer);
+
+  assert.throws(() => store.readEvents(), /newer than this build/);
+  assert.throws(() => store.migrate(true), /newer than this build/);
+  assert.equal(fs.readFileSync(store.location, "utf-8"), newer);
+});
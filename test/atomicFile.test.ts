@@ -0,0 +1,53 @@
+import { TMP_DIR } from "./helpers";
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { spawnSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { withFileLock, writeFileAtomic } from "../src/atomicFile";
+
+/** A file in its own directory, with a lock file of `lockContent` aged `ageMs`. */
+function lockedFile(name: string, lockContent: string, ageMs: number): string {
+  const file = path.join(fs.mkdtempSync(path.join(TMP_DIR, `${name}-`)), "state.json");
+  fs.writeFileSync(`${file}.lock`, lockContent);
+  const when = new Date(Date.now() - ageMs);
+  fs.utimesSync(`${file}.lock`, when, when);
+  return file;
+}
+
+test("an atomic write replaces the file and leaves no temporary behind", () => {
+  const file = path.join(fs.mkdtempSync(path.join(TMP_DIR, "write-")), "state.json");
+  writeFileAtomic(file, "one");
+  writeFileAtomic(file, "two");
+  assert.equal(fs.readFileSync(file, "utf-8"), "two");
+  assert.deepEqual(fs.readdirSync(path.dirname(file)), ["state.json"]);
+});
+
+test("the lock is held while the callback runs and released afterwards, even on a throw", () => {
+  const file = path.join(fs.mkdtempSync(path.join(TMP_DIR, "hold-")), "state.json");
+  assert.equal(withFileLock(file, () => fs.existsSync(`${file}.lock`)), true);
+  assert.throws(
+    () =>
+      withFileLock(file, () => {
+        throw new Error("boom");
+      }),
+    /boom/
+  );
+  assert.equal(fs.existsSync(`${file}.lock`), false);
+});
+
+test("a lock whose process is gone is taken over", () => {
+  const { pid } = spawnSync(process.execPath, ["-e", ""]);
+  const owner = JSON.stringify({ pid, host: os.hostname(), acquiredAt: new Date().toISOString() });
+  const file = lockedFile("dead", owner, 0);
+  assert.equal(withFileLock(file, () => "ran"), "ran");
+});
+
+test("an empty or cut-short lock is taken over once it is old enough", () => {
+  for (const content of ["", '{"pid":12', "null"]) {
+    const file = lockedFile("unreadable", content, 60_000);
+    assert.equal(withFileLock(file, () => "ran"), "ran", JSON.stringify(content));
+    assert.equal(fs.existsSync(`${file}.lock`), false);
+  }
+});
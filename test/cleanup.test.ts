@@ -0,0 +1,39 @@
+import { OWNER, REPO } from "./helpers";
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { FakeGitHub, startFakeGitHub } from "../src/fakeGitHubServer";
+
+let fake: FakeGitHub;
+
+before(async () => {
+  fake = await startFakeGitHub({ owner: OWNER, repo: REPO });
+  // config is read on first import, which happens inside the test.
+  process.env.GITHUB_API_URL = fake.url;
+});
+
+after(() => fake.close());
+
+/** A plan target for branch `name`. */
+const branch = (name: string) => ({ id: name, label: name, createdAt: null, runId: null });
+
+test("only deleted or already missing branches are reported as deleted", async () => {
+  for (const name of ["orchestrator/stale", "orchestrator/protected"]) {
+    fake.state.branches.set(name, fake.state.branches.get("main")!);
+  }
+  fake.injectFault({ method: "DELETE", path: /\/git\/refs\/heads\/orchestrator\/protected$/, status: 403 });
+  fake.injectFault({ method: "DELETE", path: /\/git\/refs\/heads\/orchestrator\/gone$/, status: 404 });
+
+  const { executeCleanupPlan } = await import("../src/cleanup");
+  const result = await executeCleanupPlan({
+    defaultBranch: "main",
+    issues: [],
+    pulls: [],
+    branches: ["orchestrator/stale", "orchestrator/protected", "orchestrator/gone"].map(branch),
+    files: [],
+  });
+
+  assert.equal(result.branchesDeleted, 2);
+  assert.equal(result.failures, 1);
+  assert.equal(fake.state.branches.has("orchestrator/stale"), false);
+  assert.equal(fake.state.branches.has("orchestrator/protected"), true);
+});
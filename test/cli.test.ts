@@ -0,0 +1,13 @@
+import "./helpers";
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { runCli } from "../src/cli";
+import { ExitCode } from "../src/exitCodes";
+
+test("integer flags must be positive, rather than silently falling back to the default", async (t) => {
+  const errors = t.mock.method(console, "error", () => {});
+  for (const value of ["0", "007", "-1", "1.5", "two"]) {
+    assert.equal(await runCli(["run", "--max-issues", value]), ExitCode.USAGE, value);
+  }
+  assert.match(String(errors.mock.calls[0].arguments[0]), /--max-issues expects a positive integer, got "0"/);
+});
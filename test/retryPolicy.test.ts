@@ -0,0 +1,95 @@
+import "./helpers";
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { RequestError } from "@octokit/request-error";
+import { RetryPolicy } from "../src/config";
+import { classifyError, decideRetry } from "../src/retryPolicy";
+
+const POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 1_000,
+  maxDelayMs: 5_000,
+  jitter: false,
+  retryOn: ["primary-rate-limit", "secondary-rate-limit", "server-error", "network"],
+  maxRateLimitWaitMs: 15 * 60_000,
+};
+
+const NOW = Date.UTC(2026, 0, 1);
+
+/** An Octokit error for a response with `status` and `headers`. */
+function httpError(status: number, headers: Record<string, string> = {}, message = "failed"): RequestError {
+  return new RequestError(message, status, {
+    request: { method: "GET", url: "https://api.github.com/repos/o/r", headers: {} },
+    response: { status, url: "https://api.github.com/repos/o/r", headers, data: { message } },
+  });
+}
+
+/** What Octokit throws when no response arrived. */
+function noResponse(): RequestError {
+  return new RequestError("fetch failed", 500, {
+    request: { method: "GET", url: "https://api.github.com/repos/o/r", headers: {} },
+  });
+}
+
+test("a primary rate limit waits until the reset, plus a second", () => {
+  const err = httpError(403, { "x-ratelimit-remaining": "0", "x-ratelimit-reset": String(NOW / 1000 + 60) });
+  assert.deepEqual(decideRetry(err, 1, POLICY, NOW), { reason: "primary-rate-limit", delayMs: 61_000 });
+});
+
+test("a primary rate limit resetting beyond the longest wait is not retried", () => {
+  const err = httpError(403, { "x-ratelimit-remaining": "0", "x-ratelimit-reset": String(NOW / 1000 + 3600) });
+  assert.equal(decideRetry(err, 1, POLICY, NOW).reason, null);
+});
+
+test("a secondary rate limit honours retry-after", () => {
+  assert.deepEqual(decideRetry(httpError(429, { "retry-after": "7" }), 1, POLICY, NOW), {
+    reason: "secondary-rate-limit",
+    delayMs: 7_000,
+  });
+  assert.equal(classifyError(httpError(403, {}, "You have exceeded a secondary rate limit")), "secondary-rate-limit");
+});
+
+test("a plain 403 is a permission error, not a rate limit", () => {
+  assert.equal(classifyError(httpError(403)), null);
+});
+
+test("transient server errors back off exponentially up to the cap", () => {
+  const delays = [1, 2, 3].map((attempt) => decideRetry(httpError(502), attempt, POLICY, NOW));
+  assert.deepEqual(
+    delays.map((d) => d.delayMs),
+    [1_000, 2_000, 4_000]
+  );
+  assert.ok(delays.every((d) => d.reason === "server-error"));
+  assert.equal(decideRetry(httpError(503), 3, { ...POLICY, maxAttempts: 10, maxDelayMs: 3_000 }, NOW).delayMs, 3_000);
+});
+
+test("jittered back-off stays within half to all of the delay", () => {
+  for (let i = 0; i < 20; i++) {
+    const { delayMs } = decideRetry(httpError(504), 2, { ...POLICY, jitter: true }, NOW);
+    assert.ok(delayMs >= 1_000 && delayMs <= 2_000, `${delayMs}ms`);
+  }
+});
+
+test("a request that got no response is a network failure", () => {
+  assert.equal(classifyError(noResponse()), "network");
+  assert.equal(classifyError(Object.assign(new Error("socket hang up"), { code: "ECONNRESET" })), "network");
+  const wrapped = new Error("fetch failed", { cause: Object.assign(new Error("getaddrinfo"), { code: "EAI_AGAIN" }) });
+  assert.equal(classifyError(wrapped), "network");
+});
+
+test("errors that did not come from the network are never retried", () => {
+  assert.equal(classifyError(new TypeError("Cannot read properties of undefined")), null);
+  assert.equal(classifyError(new Error("[cassette] No recorded interaction left")), null);
+  assert.equal(classifyError(httpError(500)), null);
+  assert.equal(classifyError("boom"), null);
+  assert.equal(decideRetry(new TypeError("bug"), 1, POLICY, NOW).reason, null);
+});
+
+test("client errors are not retried", () => {
+  for (const status of [400, 404, 409, 422]) assert.equal(classifyError(httpError(status)), null, String(status));
+});
+
+test("nothing is retried once the attempts are used up or the reason is not enabled", () => {
+  assert.equal(decideRetry(httpError(502), 4, POLICY, NOW).reason, null);
+  assert.equal(decideRetry(noResponse(), 1, { ...POLICY, retryOn: ["server-error"] }, NOW).reason, null);
+});
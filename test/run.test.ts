@@ -0,0 +1,70 @@
+import { OWNER, REPO, TMP_DIR } from "./helpers";
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { projectRuns } from "../src/analyticsEvents";
+import { FakeGitHub, startFakeGitHub } from "../src/fakeGitHubServer";
+
+/** The reports a real run writes to the working directory. */
+const REPORTS = ["analytics.md", "analytics.html"].map((name) => path.resolve(name));
+
+let fake: FakeGitHub;
+const savedReports = new Map<string, Buffer>();
+
+before(async () => {
+  fake = await startFakeGitHub({ owner: OWNER, repo: REPO, mergeableWarmupPolls: 0 });
+  // config is read on first import, which happens inside the test.
+  process.env.GITHUB_API_URL = fake.url;
+  for (const report of REPORTS) {
+    if (fs.existsSync(report)) savedReports.set(report, fs.readFileSync(report));
+  }
+});
+
+after(async () => {
+  await fake.close();
+  for (const report of REPORTS) {
+    const saved = savedReports.get(report);
+    if (saved) fs.writeFileSync(report, saved);
+    else fs.rmSync(report, { force: true });
+  }
+});
+
+test("run creates, comments on and closes an issue, and opens and merges a PR", async (t) => {
+  t.mock.method(console, "log", () => {});
+  // The first issue creation fails with a bad gateway and is retried.
+  fake.injectFault({ method: "POST", path: /\/issues$/, status: 502 });
+
+  const { runCli } = await import("../src/cli");
+  const exitCode = await runCli(["run", "--yolo"]);
+  assert.equal(exitCode, 0);
+
+  const issues = [...fake.state.issues.values()];
+  const issue = issues.find((i) => !i.pull);
+  const pr = issues.find((i) => i.pull);
+  assert.ok(issue && pr, "one issue and one PR");
+  assert.equal(issues.length, 2);
+  assert.equal(issue.state, "closed");
+  assert.ok(issue.comments.length > 0, "the issue was commented on");
+  assert.equal(pr.pull?.merged, true);
+  assert.equal(fake.state.requests.filter((r) => /^POST \/repos\/[^/]+\/[^/]+\/issues$/.test(r)).length, 2);
+
+  const stored = JSON.parse(fs.readFileSync(path.join(TMP_DIR, "analytics.json"), "utf-8"));
+  const [run] = projectRuns(stored.events);
+  assert.equal(run.issuesCreated, 1);
+  assert.equal(run.issuesClosed, 1);
+  assert.equal(run.prsOpened, 1);
+  assert.equal(run.prsMerged, 1);
+  assert.equal(run.yoloMerges, 1);
+  assert.ok(run.finishedAt, "the run finished");
+  assert.equal(run.incomplete, undefined);
+  assert.ok(run.apiRoutes?.some((r) => r.route === "POST /repos/{owner}/{repo}/issues" && r.retries === 1));
+  assert.ok(run.retriedCalls?.some((c) => c.retries === 1 && c.reasons.includes("server-error")));
+
+  const journal = JSON.parse(fs.readFileSync(path.join(TMP_DIR, "journal.json"), "utf-8"));
+  assert.deepEqual(
+    journal.workflows.map((w: { status: string }) => w.status),
+    ["completed"]
+  );
+  for (const report of REPORTS) assert.ok(fs.existsSync(report), `${path.basename(report)} written`);
+});
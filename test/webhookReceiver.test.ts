@@ -0,0 +1,173 @@
+import { OWNER, REPO, WEBHOOK_SECRET } from "./helpers";
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { createHmac, randomUUID } from "crypto";
+import { currentRunEvents, endRun, prepareAnalytics, recordEvent, startRun } from "../src/analytics";
+import {
+  WebhookDelivery,
+  WebhookReceiver,
+  signPayload,
+  startDeliveryMonitor,
+  startWebhookReceiver,
+  verifySignature,
+} from "../src/webhookReceiver";
+
+/** What a test sends: signed with WEBHOOK_SECRET unless `signature` is given. */
+interface Send {
+  event?: string;
+  id?: string;
+  payload: Record<string, unknown>;
+  signature?: string | null;
+}
+
+/** POST a delivery the way GitHub does and return the response status. */
+async function deliver(url: string, { event = "issues", id = randomUUID(), payload, signature }: Send): Promise<number> {
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = {
+    "content-type": "application/json",
+    "x-github-event": event,
+    "x-github-delivery": id,
+  };
+  // Computed here rather than with signPayload, so a bug there cannot hide.
+  const expected = `sha256=${createHmac("sha256", WEBHOOK_SECRET).update(body).digest("hex")}`;
+  if (signature !== null) headers["x-hub-signature-256"] = signature ?? expected;
+  const res = await fetch(url, { method: "POST", headers, body });
+  await res.text();
+  return res.status;
+}
+
+const repository = { full_name: `${OWNER}/${REPO}` };
+const issueOpened = (number: number) => ({ action: "opened", issue: { number }, repository });
+const prOpened = (number: number) => ({ action: "opened", pull_request: { number }, repository });
+
+// ---------------------------------------------------------------------------
+// Signatures
+// ---------------------------------------------------------------------------
+
+let receiver: WebhookReceiver;
+const received: WebhookDelivery[] = [];
+
+before(async () => {
+  receiver = await startWebhookReceiver({
+    host: "127.0.0.1",
+    port: 0,
+    path: "/webhook",
+    secret: WEBHOOK_SECRET,
+    onDelivery: (delivery) => received.push(delivery),
+  });
+});
+
+after(() => receiver.close());
+
+test("a correctly signed delivery is accepted and handed on", async () => {
+  const id = randomUUID();
+  assert.equal(await deliver(receiver.url, { id, payload: issueOpened(1) }), 202);
+  const delivery = received.find((d) => d.id === id);
+  assert.ok(delivery);
+  assert.equal(delivery.event, "issues");
+  assert.equal(delivery.action, "opened");
+  assert.deepEqual(delivery.payload, issueOpened(1));
+});
+
+test("tampered, unsigned and wrongly signed deliveries are rejected", async () => {
+  const before = received.length;
+  const payload = issueOpened(1);
+  const otherBody = JSON.stringify(issueOpened(2));
+  const sha1 = `sha1=${createHmac("sha1", WEBHOOK_SECRET).update(JSON.stringify(payload)).digest("hex")}`;
+
+  for (const signature of [
+    signPayload(WEBHOOK_SECRET, otherBody), // the body was changed after signing
+    signPayload("another-secret", JSON.stringify(payload)),
+    sha1, // X-Hub-Signature's algorithm in the SHA-256 header
+    "sha256=",
+    "",
+    null,
+  ]) {
+    assert.equal(await deliver(receiver.url, { payload, signature }), 401, String(signature));
+  }
+  assert.equal(received.length, before);
+});
+
+test("verifySignature accepts only the SHA-256 HMAC of the exact body", () => {
+  const body = JSON.stringify(issueOpened(1));
+  const signature = `sha256=${createHmac("sha256", WEBHOOK_SECRET).update(body).digest("hex")}`;
+  assert.equal(signPayload(WEBHOOK_SECRET, body), signature);
+  assert.equal(verifySignature(WEBHOOK_SECRET, body, signature), true);
+  assert.equal(verifySignature(WEBHOOK_SECRET, Buffer.from(body), signature), true);
+  assert.equal(verifySignature(WEBHOOK_SECRET, `${body} `, signature), false);
+  assert.equal(verifySignature(WEBHOOK_SECRET, body, signature.toUpperCase()), false);
+  assert.equal(verifySignature(WEBHOOK_SECRET, body, signature.replace("sha256=", "sha1=")), false);
+});
+
+test("signed requests without delivery headers or JSON are refused", async () => {
+  assert.equal(await deliver(receiver.url, { id: "", payload: issueOpened(1) }), 400);
+  assert.equal(await deliver(receiver.url, { event: "", payload: issueOpened(1) }), 400);
+
+  const body = "payload=%7B%7D";
+  const res = await fetch(receiver.url, {
+    method: "POST",
+    headers: {
+      "content-type": "application/x-www-form-urlencoded",
+      "x-github-event": "issues",
+      "x-github-delivery": randomUUID(),
+      "x-hub-signature-256": signPayload(WEBHOOK_SECRET, body),
+    },
+    body,
+  });
+  await res.text();
+  assert.equal(res.status, 415);
+});
+
+// ---------------------------------------------------------------------------
+// Delivery monitor
+// ---------------------------------------------------------------------------
+
+/** This run's "webhook-received" events. */
+function deliveries() {
+  return currentRunEvents().flatMap((e) => (e.type === "webhook-received" ? [e] : []));
+}
+
+test("deliveries are matched to the run's actions, once each, and others ignored", async () => {
+  await prepareAnalytics();
+  const runId = startRun();
+  const monitor = await startDeliveryMonitor(runId);
+
+  // A delivery for an issue the run created, and then its redelivery.
+  recordEvent({ type: "issue-created", number: 7, url: null, createdAt: new Date().toISOString() });
+  const id = randomUUID();
+  assert.equal(await deliver(monitor.url, { id, payload: issueOpened(7) }), 202);
+  assert.equal(await deliver(monitor.url, { id, payload: issueOpened(7) }), 202);
+
+  // A delivery that beats the recording of the PR it reports.
+  assert.equal(await deliver(monitor.url, { event: "pull_request", payload: prOpened(8) }), 202);
+  assert.equal(deliveries().length, 1);
+  recordEvent({
+    type: "pr-opened",
+    number: 8,
+    url: null,
+    createdAt: new Date().toISOString(),
+    closesIssue: 7,
+    draft: false,
+  });
+
+  // Another repository's delivery, and one about nothing the run did.
+  const elsewhere = { ...issueOpened(7), repository: { full_name: "someone/else" } };
+  assert.equal(await deliver(monitor.url, { payload: elsewhere }), 202);
+  assert.equal(await deliver(monitor.url, { payload: { action: "labeled", issue: { number: 7 }, repository } }), 202);
+
+  await monitor.stop();
+  const recorded = deliveries();
+  assert.deepEqual(
+    recorded.map((d) => [d.event, d.action, d.number, d.cause]),
+    [
+      ["issues", "opened", 7, "issue-created"],
+      ["pull_request", "opened", 8, "pr-opened"],
+      ["issues", "labeled", 7, null],
+    ]
+  );
+  assert.equal(recorded[0].deliveryId, id);
+  assert.ok(recorded[0].latencyMs !== null && recorded[0].latencyMs >= 0);
+  assert.equal(recorded[1].latencyMs, 0, "arrived before the PR was recorded");
+  assert.equal(recorded[2].latencyMs, null);
+  endRun();
+});